@@ -0,0 +1,160 @@
+import type { IRFunction } from "../core/ir";
+import type { MultiFunctionProgram } from "../core/program";
+import { methodDisplayName } from "../backend/printer";
+import { forEachInstruction, WalkedInstruction } from "./walk";
+
+// Call graph between methods of a multi-method program.
+// Edges come from CALLDICT/JMPDICT/PREPAREDICT found anywhere in a method:
+// its body, inlined expressions, nested continuations (`cont`, `cont_map`) and asm tails.
+
+export type CallGraphNode = {
+  id: string;                  // 'main' for root entry code, otherwise method_<id>
+  methodId: number | null;     // null for 'main'
+  name: string;
+  defined: boolean;            // false when only referenced, not present in method dictionary
+  root: boolean;               // externally invoked: recv_*, tick-tock, get-methods, main
+  reachable: boolean;
+  recursive: boolean;          // participates in a call cycle (including self-calls)
+};
+
+export type CallGraphEdge = {
+  from: string;
+  to: string;
+  count: number;               // number of call sites
+};
+
+export type CallGraph = {
+  nodes: CallGraphNode[];
+  edges: CallGraphEdge[];
+};
+
+const CALL_MNEMONICS = ['CALLDICT', 'CALLDICT_LONG', 'JMPDICT', 'PREPAREDICT'];
+
+// Get-method ids are crc16(name) | 0x10000; 0/-1/-2 are recv_internal/recv_external/run_ticktock
+function isExternallyInvoked(methodId: number): boolean {
+  return methodId === 0 || methodId === -1 || methodId === -2 || methodId >= 0x10000;
+}
+
+function nodeId(methodId: number): string {
+  return `method_${methodId}`;
+}
+
+function calledMethodId(st: WalkedInstruction): number | undefined {
+  if (st.callee) return st.callee.methodId;
+  if (!CALL_MNEMONICS.includes(st.spec.mnemonic)) return undefined;
+  const n = st.operands.find((o) => o.name === 'n')?.value;
+  return n && n.kind === 'int' ? n.value : undefined;
+}
+
+// Collects target method ids of all call sites reachable inside `fn` (one entry per site)
+export function collectCallees(fn: IRFunction): number[] {
+  const out: number[] = [];
+  forEachInstruction(fn, (insn) => {
+    const target = calledMethodId(insn);
+    if (target !== undefined) out.push(target);
+  });
+  return out;
+}
+
+export function buildCallGraph(p: MultiFunctionProgram): CallGraph {
+  const nodes = new Map<string, CallGraphNode>();
+  const addNode = (id: string, methodId: number | null, defined: boolean) => {
+    const existing = nodes.get(id);
+    if (existing) return existing;
+    const node: CallGraphNode = {
+      id,
+      methodId,
+      name: methodId === null ? 'main' : methodDisplayName(methodId),
+      defined,
+      root: methodId === null || isExternallyInvoked(methodId),
+      reachable: false,
+      recursive: false,
+    };
+    nodes.set(id, node);
+    return node;
+  };
+
+  const sources: Array<{ id: string; fn: IRFunction }> = [];
+  if (p.entry) {
+    addNode('main', null, true);
+    sources.push({ id: 'main', fn: p.entry });
+  }
+  const ids = Array.from(p.methods.keys()).sort((a, b) => a - b);
+  for (const id of ids) {
+    addNode(nodeId(id), id, true);
+    sources.push({ id: nodeId(id), fn: p.methods.get(id)! });
+  }
+
+  const edgeMap = new Map<string, CallGraphEdge>();
+  const succ = new Map<string, Set<string>>();
+  for (const { id, fn } of sources) {
+    for (const target of collectCallees(fn)) {
+      const to = addNode(nodeId(target), target, false).id;
+      const key = `${id}->${to}`;
+      const e = edgeMap.get(key);
+      if (e) e.count++;
+      else edgeMap.set(key, { from: id, to, count: 1 });
+      if (!succ.has(id)) succ.set(id, new Set());
+      succ.get(id)!.add(to);
+    }
+  }
+
+  // Reachability from externally invoked roots
+  const stack = Array.from(nodes.values()).filter((n) => n.root).map((n) => n.id);
+  const reached = new Set<string>(stack);
+  while (stack.length > 0) {
+    const cur = stack.pop()!;
+    for (const next of succ.get(cur) ?? []) {
+      if (reached.has(next)) continue;
+      reached.add(next);
+      stack.push(next);
+    }
+  }
+
+  // A node is recursive if it can reach itself through at least one edge
+  const reachesSelf = (start: string): boolean => {
+    const seen = new Set<string>();
+    const work = Array.from(succ.get(start) ?? []);
+    for (let i = 0; i < work.length; i++) {
+      const cur = work[i];
+      if (cur === start) return true;
+      if (seen.has(cur)) continue;
+      seen.add(cur);
+      work.push(...(succ.get(cur) ?? []));
+    }
+    return false;
+  };
+
+  for (const n of nodes.values()) {
+    n.reachable = reached.has(n.id);
+    n.recursive = reachesSelf(n.id);
+  }
+
+  return { nodes: Array.from(nodes.values()), edges: Array.from(edgeMap.values()) };
+}
+
+const dotEscape = (s: string) => s.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+
+// Graphviz rendering: roots are boxes, unreachable nodes are dashed, recursive nodes are red
+export function callGraphToDot(g: CallGraph): string {
+  const lines: string[] = ['digraph calls {', '    node [shape=ellipse];'];
+  for (const n of g.nodes) {
+    const idLine = n.methodId === null ? '' : `\\n(${n.methodId})`;
+    const attrs: string[] = [`label="${dotEscape(n.name)}${idLine}"`];
+    if (n.root) attrs.push('shape=box');
+    if (!n.reachable) attrs.push('style=dashed');
+    if (!n.defined) attrs.push('color=gray');
+    if (n.recursive) attrs.push('color=red');
+    lines.push(`    "${dotEscape(n.id)}" [${attrs.join(', ')}];`);
+  }
+  for (const e of g.edges) {
+    const label = e.count > 1 ? ` [label="${e.count}"]` : '';
+    lines.push(`    "${dotEscape(e.from)}" -> "${dotEscape(e.to)}"${label};`);
+  }
+  lines.push('}');
+  return lines.join('\n');
+}
+
+export function callGraphToJSON(g: CallGraph): string {
+  return JSON.stringify({ nodes: g.nodes, edges: g.edges }, null, 2);
+}
@@ -0,0 +1,264 @@
+import type { IRFunction, IRInlineExpr, IROpPrim, IRValueRef } from "../core/ir";
+import type { Continuation } from "../gen/tvm-spec";
+import { printExpression, printIR } from "../backend/printer";
+import { LOOP_REST_OPERAND, LoopBranch, loopBranch } from "../frontend/lifter/stackEffects";
+
+// Control-flow graph of a lifted function.
+// The IR keeps continuations inside operands (`cont`, `cont_map`) and value metadata;
+// here every continuation a statement can transfer control to becomes its own region
+// of basic blocks. Edges follow `control_flow` of the instruction spec:
+// - `variable` branches saving cc as c0 (IF, IFELSE, CALLX, ...) enter the continuation
+//   and come back after the statement; other variable branches (IFJMP, JMPX, ...) leave
+//   the function when the continuation ends
+// - `register` branches: c0 returns (RET*), c1 is the alternative exit, c2 throws
+// - `special` loops (REPEAT, WHILE, UNTIL, AGAIN) get back edges to the loop statement
+// - a variable continuation saved as c2 (TRY handler) is entered on a `catch` branch
+// THROW* instructions go to the throw exit; conditional ones (with a flag) also fall through.
+
+export type CFGBlockKind = 'entry' | 'exit' | 'throw' | 'block';
+
+export type CFGBlock = {
+  id: number;
+  kind: CFGBlockKind;
+  ops: IROpPrim[];             // the last op transfers control when it has branches
+  fn?: IRFunction;             // function or continuation the statements belong to
+};
+
+// - `next`: the following statement; `return`: end of a continuation back to its caller
+// - `branch`: into a continuation; `back`: end of a loop body back to the loop statement
+// - `exit`/`throw`: to the function exits; `unknown`: target continuation was not resolved
+export type CFGEdgeKind = 'next' | 'branch' | 'return' | 'back' | 'exit' | 'throw' | 'unknown';
+
+export type CFGEdge = {
+  from: number;
+  to: number;
+  kind: CFGEdgeKind;
+  label?: string;              // `true`/`false` for conditional statements, loop parts
+};
+
+export type CFG = {
+  name: string;
+  blocks: CFGBlock[];
+  edges: CFGEdge[];
+  entry: number;
+  exit: number;
+};
+
+type BranchTarget = { fn: IRFunction | undefined; label?: string };
+
+// Continuation run by a branch of `st`: an operand, a PUSHCONT inlined as input or a value
+// carrying the continuation it was pushed with
+export function continuationOf(st: IROpPrim, name: string): IRFunction | undefined {
+  const op = st.operands.find((o) => o.name === name)?.value;
+  if (op && op.kind === 'cont') return op.value;
+  const input = st.inputs.find((i) => i.name === name)?.value;
+  if (!input) return undefined;
+  if ((input as any).kind === 'inline') {
+    const child = (input as IRInlineExpr).op;
+    const s = child.operands.find((o) => o.name === 's')?.value;
+    return child.mnemonic.startsWith('PUSHCONT') && s && s.kind === 'cont' ? s.value : undefined;
+  }
+  return (input as IRValueRef).continuationMeta?.continuation;
+}
+
+const isThrow = (st: IROpPrim) => st.mnemonic.startsWith('THROW');
+
+// Statements with a flag input branch on it; the IFNOT* family branches when it is zero
+function conditionLabels(st: IROpPrim): { taken?: string; skipped?: string } {
+  if (!st.inputs.some((i) => i.name === 'f')) return {};
+  const negated = /^(IFNOT|THROWIFNOT|THROWANYIFNOT|THROWARGIFNOT|THROWARGANYIFNOT)/.test(st.mnemonic);
+  return negated ? { taken: 'false', skipped: 'true' } : { taken: 'true', skipped: 'false' };
+}
+
+export function buildCFG(fn: IRFunction, name: string = fn.name ?? 'main'): CFG {
+  const blocks: CFGBlock[] = [];
+  const edges: CFGEdge[] = [];
+  const newBlock = (kind: CFGBlockKind, owner?: IRFunction): CFGBlock => {
+    const b: CFGBlock = { id: blocks.length, kind, ops: [], ...(owner ? { fn: owner } : {}) };
+    blocks.push(b);
+    return b;
+  };
+  const edge = (from: number, to: number, kind: CFGEdgeKind, label?: string) => {
+    edges.push({ from, to, kind, ...(label ? { label } : {}) });
+  };
+
+  const entry = newBlock('entry');
+  const exit = newBlock('exit');
+  let throwBlock: CFGBlock | undefined;
+  const throws = () => (throwBlock ??= newBlock('throw')).id;
+
+  // A continuation entered from several places returning to the same block is built once.
+  // `ret` is where control goes when the continuation ends or returns.
+  const built = new Map<IRFunction, Map<number, number>>();
+  const region = (f: IRFunction, ret: number): number => {
+    const known = built.get(f)?.get(ret);
+    if (known !== undefined) return known;
+    const first = newBlock('block', f);
+    if (!built.has(f)) built.set(f, new Map());
+    built.get(f)!.set(ret, first.id);
+    buildBody(f, first, ret);
+    return first.id;
+  };
+
+  const buildBody = (f: IRFunction, first: CFGBlock, ret: number) => {
+    let cur = first;
+    for (const st of f.body) {
+      cur.ops.push(st);
+      const branches = st.spec.control_flow?.branches ?? [];
+      if (branches.length === 0 && !isThrow(st)) continue;
+
+      const after = newBlock('block', f);
+      const labels = conditionLabels(st);
+      let fallsThrough = st.spec.control_flow?.nobranch ?? false;
+      const enter = (target: BranchTarget, to: number) => {
+        if (!target.fn) edge(cur.id, exit.id, 'unknown', target.label);
+        else edge(cur.id, region(target.fn, to), 'branch', target.label);
+      };
+      const loop = (c: LoopBranch) => {
+        // Loop body regions end back at the loop statement
+        const backTo = newBlock('block', f);
+        edge(backTo.id, cur.id, 'back');
+        const bodyOf = (k: Continuation) => k.type === 'variable' ? continuationOf(st, k.var_name) : k.type === 'cc' ? continuationOf(st, LOOP_REST_OPERAND) : undefined;
+        if (c.name === 'while') {
+          const cond = bodyOf(c.args.cond);
+          const body = bodyOf(c.args.body);
+          const condEnd = newBlock('block', f);
+          enter({ fn: cond, label: 'cond' }, condEnd.id);
+          const bodyEntry = body ? region(body, backTo.id) : exit.id;
+          edge(condEnd.id, bodyEntry, body ? 'branch' : 'unknown', 'true');
+          edge(condEnd.id, after.id, 'next', 'false');
+        } else if (c.name === 'repeat' || c.name === 'until' || c.name === 'again') {
+          enter({ fn: bodyOf(c.args.body), label: 'body' }, backTo.id);
+          if (c.name !== 'again') edge(c.name === 'until' ? backTo.id : cur.id, after.id, 'next', c.name === 'until' ? 'until' : 'done');
+        }
+      };
+
+      // With a flag, the first continuation runs on `taken` and the second (IFELSE) otherwise
+      let variables = 0;
+      const loopSpec = loopBranch(st.spec);
+      if (loopSpec) {
+        // Loop exits are edges of the loop itself
+        loop(loopSpec);
+        fallsThrough = false;
+      }
+      for (const branch of loopSpec ? [] : branches) {
+        if (branch.type === 'variable') {
+          const target = { fn: continuationOf(st, branch.var_name), label: variables++ === 0 ? labels.taken : labels.skipped };
+          // Saving cc as c0 means the continuation returns after this statement
+          const returns = branch.save?.c0?.type === 'cc';
+          enter(target, returns ? after.id : ret);
+          // TRY: the handler saved as c2 runs when the body throws
+          const handler = branch.save?.c2;
+          if (handler?.type === 'variable') enter({ fn: continuationOf(st, handler.var_name), label: 'catch' }, after.id);
+        } else if (branch.type === 'register') {
+          const to = branch.index === 0 ? ret : branch.index === 2 ? throws() : exit.id;
+          edge(cur.id, to, branch.index === 2 ? 'throw' : branch.index === 0 ? 'return' : 'exit', labels.taken);
+        } else if (branch.type === 'cc' || branch.type === 'special') {
+          fallsThrough = true;
+        }
+      }
+      if (branches.length === 0 && isThrow(st)) {
+        edge(cur.id, throws(), 'throw', labels.taken);
+        fallsThrough = labels.taken !== undefined;
+      }
+      // IFELSE-like statements take one of two branches and never fall through
+      if (fallsThrough) edge(cur.id, after.id, 'next', labels.skipped);
+      cur = after;
+    }
+    edge(cur.id, ret, 'return');
+  };
+
+  edge(entry.id, region(fn, exit.id), 'next');
+  return simplify({ name, blocks, edges, entry: entry.id, exit: exit.id });
+}
+
+// Kind of an edge into an empty block once it points past it: loop back edges stay visible
+const foldedKind = (into: CFGEdgeKind, out: CFGEdgeKind): CFGEdgeKind =>
+  out === 'back' ? 'back' : into === 'next' ? out : into;
+
+// Drops empty blocks with a single successor (statement boundaries that hold nothing)
+// and blocks no longer reachable from the entry, then renumbers the rest
+function simplify(g: CFG): CFG {
+  let edges = g.edges;
+  for (const b of g.blocks) {
+    if (b.kind !== 'block' || b.ops.length > 0) continue;
+    const out = edges.filter((e) => e.from === b.id);
+    if (out.length !== 1 || out[0].to === b.id) continue;
+    const [succ] = out;
+    edges = edges.filter((e) => e !== succ).map((e) => e.to === b.id
+      ? { ...e, to: succ.to, kind: foldedKind(e.kind, succ.kind), ...(e.label ?? succ.label ? { label: e.label ?? succ.label } : {}) }
+      : e);
+  }
+  const reached = new Set<number>([g.entry]);
+  const work = [g.entry];
+  while (work.length > 0) {
+    const cur = work.pop()!;
+    for (const e of edges) {
+      if (e.from !== cur || reached.has(e.to)) continue;
+      reached.add(e.to);
+      work.push(e.to);
+    }
+  }
+  // Exits stay even when not reached; unreachable statements are dropped
+  const kept = g.blocks.filter((b) => reached.has(b.id) || b.kind === 'exit');
+  const ids = new Map(kept.map((b, i) => [b.id, i]));
+  return {
+    name: g.name,
+    blocks: kept.map((b) => ({ ...b, id: ids.get(b.id)! })),
+    edges: edges.filter((e) => ids.has(e.from) && ids.has(e.to)).map((e) => ({ ...e, from: ids.get(e.from)!, to: ids.get(e.to)! })),
+    entry: ids.get(g.entry)!,
+    exit: ids.get(g.exit)!,
+  };
+}
+
+// Statements printed by the pseudo-code printer. The branching statement of a block is shown
+// without its continuations (they are blocks of their own): mnemonic and condition only.
+export function blockStatements(b: CFGBlock): string[] {
+  if (b.kind !== 'block') return [b.kind];
+  const last = b.ops[b.ops.length - 1];
+  const branches = last && ((last.spec.control_flow?.branches ?? []).length > 0 || isThrow(last));
+  const plain = branches && !isThrow(last) ? b.ops.slice(0, -1) : b.ops;
+  const lines = plain.length === 0 ? [] : printStatements(plain);
+  if (branches && !isThrow(last)) {
+    const flag = last.inputs.find((i) => i.name === 'f')?.value;
+    lines.push(flag ? `${last.mnemonic} (${printExpression(flag)})` : last.mnemonic);
+  }
+  return lines;
+}
+
+function printStatements(ops: IROpPrim[]): string[] {
+  const text = printIR({ kind: 'function', args: [], body: ops, result: [] });
+  return text.split('\n').slice(1, -1).map((l) => l.replace(/^ {4}/, ''));
+}
+
+const dotEscape = (s: string) => s.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+
+const EDGE_STYLE: Record<CFGEdgeKind, string> = {
+  next: '',
+  branch: '',
+  return: 'style=dashed',
+  back: 'color=blue',
+  exit: 'style=dashed',
+  throw: 'color=red',
+  unknown: 'color=gray, style=dotted',
+};
+
+// Graphviz rendering: statements left-aligned in boxes, exits as ellipses
+export function cfgToDot(g: CFG): string {
+  const lines: string[] = [`digraph "${dotEscape(g.name)}" {`, '    node [shape=box, fontname="monospace"];'];
+  for (const b of g.blocks) {
+    if (b.kind === 'block') {
+      const text = blockStatements(b).flatMap((s) => s.split('\n')).map((l) => `${dotEscape(l)}\\l`).join('');
+      lines.push(`    b${b.id} [label="${text || '\\l'}"];`);
+    } else {
+      const color = b.kind === 'throw' ? ', color=red' : '';
+      lines.push(`    b${b.id} [label="${b.kind}", shape=ellipse${color}];`);
+    }
+  }
+  for (const e of g.edges) {
+    const attrs = [e.label ? `label="${dotEscape(e.label)}"` : '', EDGE_STYLE[e.kind]].filter(Boolean).join(', ');
+    lines.push(`    b${e.from} -> b${e.to}${attrs ? ` [${attrs}]` : ''};`);
+  }
+  lines.push('}');
+  return lines.join('\n');
+}
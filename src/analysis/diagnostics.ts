@@ -0,0 +1,29 @@
+import type { Program } from "../core/program";
+import { forEachFunction, programFunctions } from "./walk";
+
+// Lifting failures left in a program: `decompile` errors (stack analysis gave up,
+// the rest of the function is kept as an asm tail) and `disassemble` errors
+// (code that could not be decoded). Errors inside nested continuations are
+// reported under the top-level function containing them.
+
+export type LiftError = {
+  function: string; // 'main' or method name
+  methodId: number | null;
+  kind: 'decompile' | 'disassemble';
+  message: string;
+};
+
+export function collectLiftErrors(p: Program): LiftError[] {
+  const errors: LiftError[] = [];
+  for (const { name, methodId, fn } of programFunctions(p)) {
+    forEachFunction(fn, (f) => {
+      if (f.decompileError) errors.push({ function: name, methodId, kind: 'decompile', message: f.decompileError });
+      if (f.disassembleError) errors.push({ function: name, methodId, kind: 'disassemble', message: f.disassembleError });
+    });
+  }
+  return errors;
+}
+
+export function formatLiftError(e: LiftError): string {
+  return `${e.kind} error in ${e.function}: ${e.message}`;
+}
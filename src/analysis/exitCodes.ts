@@ -0,0 +1,89 @@
+import type { IRInlineExpr, IROperands, IROpPrim, IRSourceLocation } from "../core/ir";
+import type { Program } from "../core/program";
+import { exitCodeName } from "../core/exitCodes";
+import { printExpression } from "../backend/printer";
+import { formatLocation } from "../backend/sourceMap";
+import { forEachFunction, programFunctions } from "./walk";
+
+// Exit codes a contract can raise: every THROW* statement of every method and nested
+// continuation, with the condition it throws under as printed by the pseudo-code printer.
+// Instructions left in asm tails are listed too; their conditions are unknown.
+
+export type ExitCodeUse = {
+  code: number | null;        // null when the code is computed at run time
+  name: string | null;        // registered name of the code
+  function: string;           // 'main' or method name
+  methodId: number | null;    // null for 'main'
+  mnemonic: string;
+  condition: string | null;   // null when the instruction always throws; '?' in asm tails
+  location: IRSourceLocation | null;
+};
+
+const isThrow = (mnemonic: string) => mnemonic.startsWith('THROW');
+const isNegated = (mnemonic: string) => mnemonic.includes('IFNOT');
+
+const intOperand = (operands: IROperands, name: string): number | null => {
+  const v = operands.find((o) => o.name === name)?.value;
+  if (v?.kind === 'int') return v.value;
+  if (v?.kind === 'bigint' && v.value >= BigInt(Number.MIN_SAFE_INTEGER) && v.value <= BigInt(Number.MAX_SAFE_INTEGER)) return Number(v.value);
+  return null;
+};
+
+// Immediate code or a constant pushed right before THROWANY*
+function codeOf(st: IROpPrim): number | null {
+  const immediate = intOperand(st.operands, 'n');
+  if (immediate !== null) return immediate;
+  const input = st.inputs.find((i) => i.name === 'n')?.value;
+  if ((input as any)?.kind !== 'inline') return null;
+  const op = (input as IRInlineExpr).op;
+  return op.spec.doc.category === 'const_int' ? intOperand(op.operands, 'x') : null;
+}
+
+function conditionOf(st: IROpPrim): string | null {
+  const flag = st.inputs.find((i) => i.name === 'f')?.value;
+  if (!flag) return null;
+  const expr = printExpression(flag);
+  return isNegated(st.mnemonic) ? `!(${expr})` : expr;
+}
+
+export function collectExitCodes(p: Program): ExitCodeUse[] {
+  const uses: ExitCodeUse[] = [];
+  for (const { name, methodId, fn } of programFunctions(p)) {
+    forEachFunction(fn, (f) => {
+      const use = (mnemonic: string, code: number | null, condition: string | null, loc?: IRSourceLocation) =>
+        uses.push({ code, name: code === null ? null : exitCodeName(code) ?? null, function: name, methodId, mnemonic, condition, location: loc ?? null });
+      for (const st of f.body) {
+        if (isThrow(st.mnemonic)) use(st.mnemonic, codeOf(st), conditionOf(st), st.loc);
+      }
+      for (const ins of f.asmTail ?? []) {
+        if (!isThrow(ins.spec.mnemonic)) continue;
+        const conditional = ins.spec.value_flow?.inputs?.stack?.some((e) => e.type === 'simple' && e.name === 'f');
+        use(ins.spec.mnemonic, intOperand(ins.operands, 'n'), conditional ? '?' : null, ins.loc);
+      }
+    });
+  }
+  // By code, run-time codes last; uses of one code keep program order
+  return uses.map((u, i) => [u, i] as const)
+    .sort(([a, i], [b, j]) => (a.code ?? Infinity) - (b.code ?? Infinity) || i - j)
+    .map(([u]) => u);
+}
+
+export function formatExitCodes(uses: ExitCodeUse[]): string {
+  const rows = [['code', 'name', 'function', 'instruction', 'condition', 'location']];
+  for (const u of uses) {
+    rows.push([
+      u.code === null ? '?' : String(u.code),
+      u.name ?? '-',
+      u.function,
+      u.mnemonic,
+      u.condition ?? 'always',
+      u.location ? formatLocation(u.location) : '-',
+    ]);
+  }
+  const widths = rows[0].map((_, i) => Math.max(...rows.map((r) => r[i].length)));
+  return rows.map((r) => r.map((c, i) => i === r.length - 1 ? c : c.padEnd(widths[i])).join('  ').trimEnd()).join('\n');
+}
+
+export function exitCodesToJSON(uses: ExitCodeUse[]): string {
+  return JSON.stringify(uses, null, 2);
+}
@@ -0,0 +1,70 @@
+import { Builder, Cell } from "ton3-core";
+import type { Program } from "../core/program";
+import type { ContractRootKind, LoadedContract } from "../frontend/loader";
+import { collectLiftErrors } from "./diagnostics";
+import { buildVersionReport } from "./versions";
+
+// Contract overview: where the code came from, its size, dispatch layout,
+// required TVM version and how much of it failed to lift
+
+export type ContractInfo = {
+  root: ContractRootKind;
+  codeHash: string;
+  codeCells: number;  // distinct cells reachable from the code root
+  codeBits: number;   // data bits over those cells
+  layout: string | null; // method dictionary layout, null for a single function
+  methods: number;
+  entry: boolean;     // root code runs before the method lookup
+  minVersion: number;
+  versionComplete: boolean;
+  data: boolean;
+  libraries: boolean;
+  liftErrors: number;
+};
+
+export function buildContractInfo(contract: LoadedContract, p: Program): ContractInfo {
+  const code = new Builder().storeSlice(contract.code).cell();
+  const seen = new Map<string, Cell>();
+  const visit = (c: Cell) => {
+    const h = c.hash();
+    if (seen.has(h)) return;
+    seen.set(h, c);
+    c.refs.forEach(visit);
+  };
+  visit(code);
+  const versions = buildVersionReport(p);
+  return {
+    root: contract.kind,
+    codeHash: code.hash(),
+    codeCells: seen.size,
+    codeBits: Array.from(seen.values()).reduce((n, c) => n + c.bits.length, 0),
+    layout: p.kind === 'multi' ? p.layout ?? null : null,
+    methods: p.kind === 'multi' ? p.methods.size : 0,
+    entry: p.kind === 'single' || !!p.entry,
+    minVersion: versions.minVersion,
+    versionComplete: versions.complete,
+    data: contract.data !== null,
+    libraries: contract.libraries !== null,
+    liftErrors: collectLiftErrors(p).length,
+  };
+}
+
+export function formatContractInfo(info: ContractInfo): string {
+  const yesNo = (b: boolean) => (b ? 'yes' : 'no');
+  const layout = info.layout === null
+    ? 'none (single function)'
+    : `${info.layout}, ${info.methods} methods${info.entry ? ', entry code before lookup' : ''}`;
+  return [
+    `root: ${info.root}`,
+    `code hash: ${info.codeHash}`,
+    `code size: ${info.codeCells} cells, ${info.codeBits} bits`,
+    `layout: ${layout}`,
+    `minimum TVM global version: ${info.minVersion}${info.versionComplete ? '' : ' (lower bound)'}`,
+    `data: ${yesNo(info.data)}, libraries: ${yesNo(info.libraries)}`,
+    `lift errors: ${info.liftErrors}`,
+  ].join('\n');
+}
+
+export function contractInfoToJSON(info: ContractInfo): string {
+  return JSON.stringify(info, null, 2);
+}
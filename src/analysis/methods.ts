@@ -0,0 +1,42 @@
+import type { Program } from "../core/program";
+import { methodDisplayName } from "../backend/printer";
+import { collectCallees } from "./callGraph";
+import { collectLiftErrors, LiftError } from "./diagnostics";
+import { forEachInstruction, programFunctions } from "./walk";
+
+// One line per top-level function: arity as lifted, size and callees
+
+export type MethodSummary = {
+  name: string;             // 'main' or method name
+  methodId: number | null;  // null for 'main'
+  args: number;
+  results: number;
+  instructions: number;     // lifted instructions, nested continuations included
+  calls: string[];          // names of called methods, each once
+  errors: LiftError['kind'][];
+};
+
+export function summarizeMethods(p: Program): MethodSummary[] {
+  const errors = collectLiftErrors(p);
+  return programFunctions(p).map(({ name, methodId, fn }) => {
+    let instructions = 0;
+    forEachInstruction(fn, () => { instructions++; });
+    const calls = Array.from(new Set(collectCallees(fn))).sort((a, b) => a - b).map(methodDisplayName);
+    const kinds = errors.filter((e) => e.methodId === methodId).map((e) => e.kind);
+    return { name, methodId, args: fn.args.length, results: fn.result.length, instructions, calls, errors: Array.from(new Set(kinds)) };
+  });
+}
+
+export function formatMethodSummaries(methods: MethodSummary[]): string {
+  const rows = [['id', 'name', 'args', 'results', 'insns', 'status', 'calls']];
+  for (const m of methods) {
+    const status = m.errors.length ? m.errors.map((k) => `${k} error`).join(', ') : 'ok';
+    rows.push([m.methodId === null ? '-' : String(m.methodId), m.name, String(m.args), String(m.results), String(m.instructions), status, m.calls.join(' ')]);
+  }
+  const widths = rows[0].map((_, i) => Math.max(...rows.map((r) => r[i].length)));
+  return rows.map((r) => r.map((c, i) => i === r.length - 1 ? c : c.padEnd(widths[i])).join('  ').trimEnd()).join('\n');
+}
+
+export function methodSummariesToJSON(methods: MethodSummary[]): string {
+  return JSON.stringify(methods, null, 2);
+}
@@ -0,0 +1,272 @@
+import type { IRFunction, IRInlineExpr, IRInputArg, IROpPrim, IRSourceLocation, IRType, IRValueRef } from "../core/ir";
+import type { Program } from "../core/program";
+import type { Continuation } from "../gen/tvm-spec";
+import { LOOP_REST_OPERAND, loopBranch, tryBranch } from "../frontend/lifter/stackEffects";
+import { continuationOf } from "./cfg";
+import { forEachFunction, programFunctions } from "./walk";
+
+// Type inference over a whole program. Every value starts with the spec `value_types` of
+// the instruction producing it and is narrowed by those of the instructions reading it.
+// Values that are one and the same at run time share their types:
+// - continuation arguments and the values passed to them (IF, IFELSE, loops, TRY)
+// - merged outputs of branching statements and what each path leaves (phi nodes)
+// - loop variables across iterations, `TRY` outputs and the results of both parts
+// - arguments and results of methods called through resolved CALLDICT/JMPDICT
+// `Null` fits any type (FunC `null()`); values whose constraints have no type in common
+// are reported as conflicts and keep no type. The inferred types are written back to
+// every definition and use (`types`), function arguments and results included.
+
+export type TypeConflict = {
+  function: string;           // 'main' or method name
+  methodId: number | null;    // null for 'main'
+  value: string;              // value id in the function or continuation it belongs to
+  types: IRType[][];          // the constraints with no type in common
+  location: IRSourceLocation | null;
+};
+
+type TypeSet = IRType[] | null; // null: any type
+
+// Types allowed by both constraints; undefined when they exclude each other
+function intersect(a: TypeSet, b: TypeSet): TypeSet | undefined {
+  if (a === null) return b;
+  if (b === null) return a;
+  const nullable = a.includes('Null') || b.includes('Null');
+  const strictA = a.filter((t) => t !== 'Null');
+  const strictB = b.filter((t) => t !== 'Null');
+  const strict = strictA.length === 0 ? strictB : strictB.length === 0 ? strictA : strictA.filter((t) => strictB.includes(t));
+  if (strict.length === 0 && strictA.length > 0 && strictB.length > 0) return undefined;
+  return nullable && !strict.includes('Null') ? [...strict, 'Null'] : strict;
+}
+
+const typeSet = (types: IRType[] | undefined): TypeSet => types && types.length ? types : null;
+
+// Union-find over (function, value id): ids are only unique inside one function or continuation
+class Solver {
+  private parent = new Map<string, string>();
+  private types = new Map<string, TypeSet>();
+  private conflicted = new Set<string>();
+  private scopes = new Map<IRFunction, number>();
+  public conflicts: Array<{ key: string; types: IRType[][]; location: IRSourceLocation | null }> = [];
+
+  scope(fn: IRFunction): number {
+    if (!this.scopes.has(fn)) this.scopes.set(fn, this.scopes.size);
+    return this.scopes.get(fn)!;
+  }
+
+  key(fn: IRFunction, id: string): string {
+    return `${this.scope(fn)}:${id}`;
+  }
+
+  private find(k: string): string {
+    let root = k;
+    while (this.parent.has(root)) root = this.parent.get(root)!;
+    if (root !== k) this.parent.set(k, root);
+    return root;
+  }
+
+  private narrow(root: string, with_: TypeSet, loc: IRSourceLocation | null) {
+    if (this.conflicted.has(root)) return;
+    const current = this.types.get(root) ?? null;
+    const next = intersect(current, with_);
+    if (next === undefined) {
+      this.conflicted.add(root);
+      this.conflicts.push({ key: root, types: [current ?? [], with_ ?? []], location: loc });
+      return;
+    }
+    this.types.set(root, next);
+  }
+
+  constrain(k: string, types: TypeSet, loc: IRSourceLocation | null = null) {
+    if (types !== null) this.narrow(this.find(k), types, loc);
+  }
+
+  unify(a: string, b: string, loc: IRSourceLocation | null = null) {
+    const ra = this.find(a);
+    const rb = this.find(b);
+    if (ra === rb) return;
+    this.parent.set(rb, ra);
+    if (this.conflicted.has(rb)) this.conflicted.add(ra);
+    this.narrow(ra, this.types.get(rb) ?? null, loc);
+  }
+
+  typesOf(k: string): IRType[] | undefined {
+    const root = this.find(k);
+    if (this.conflicted.has(root)) return undefined;
+    return this.types.get(root) ?? undefined;
+  }
+}
+
+const specInputTypes = (st: IROpPrim, name: string): TypeSet => {
+  const entry = st.spec.value_flow?.inputs?.stack?.find((e) => e.type === 'simple' && e.name === name);
+  return entry?.type === 'simple' ? typeSet(entry.value_types) : null;
+};
+
+export function inferTypes(p: Program): TypeConflict[] {
+  const solver = new Solver();
+  const methods = p.kind === 'multi' ? p.methods : new Map<number, IRFunction>();
+  const owners = new Map<number, { function: string; methodId: number | null }>();
+
+  // Values of one function (and the continuations it runs, by their own scopes)
+  const visitFn = (fn: IRFunction) => {
+    for (const a of fn.args) solver.constrain(solver.key(fn, a.id), typeSet(a.types));
+    for (const r of fn.result) solver.constrain(solver.key(fn, r.id), typeSet(r.types));
+    for (const st of fn.body) visitOp(fn, st);
+  };
+
+  const inputKey = (fn: IRFunction, a: IRInputArg): string | undefined => {
+    if ((a as any).kind !== 'inline') return solver.key(fn, (a as IRValueRef).id);
+    const out = (a as IRInlineExpr).op.outputs[0];
+    return out ? solver.key(fn, out.value.id) : undefined;
+  };
+
+  const visitOp = (fn: IRFunction, st: IROpPrim) => {
+    const loc = st.loc ?? null;
+    const key = (id: string) => solver.key(fn, id);
+    const input = (name: string) => {
+      const a = st.inputs.find((i) => i.name === name)?.value;
+      return a ? inputKey(fn, a) : undefined;
+    };
+    for (const o of st.outputs) solver.constrain(key(o.value.id), typeSet(o.value.types), loc);
+    for (const { name, value } of st.inputs) {
+      if ((value as any).kind === 'inline') visitOp(fn, (value as IRInlineExpr).op);
+      const k = inputKey(fn, value);
+      if (!k) continue;
+      solver.constrain(k, (value as any).kind === 'inline' ? null : typeSet((value as IRValueRef).types), loc);
+      solver.constrain(k, specInputTypes(st, name), loc);
+    }
+    const outs = st.outputs.map((o) => key(o.value.id));
+    const cont = (name: string) => continuationOf(st, name);
+    const link = (outer: string | undefined, inner: IRFunction, id: string) => {
+      if (outer) solver.unify(outer, solver.key(inner, id), loc);
+    };
+
+    // Continuations called with values of this function (`<label>_<arg id>` inputs)
+    for (const b of st.spec.control_flow?.branches ?? []) {
+      if (b.type !== 'variable') continue;
+      const target = cont(b.var_name);
+      if (!target) continue;
+      for (const a of target.args) link(input(`${b.var_name}_${a.id}`), target, a.id);
+    }
+    // Merged outputs and the values every path gives them
+    for (const phi of st.phis ?? []) {
+      const out = key(phi.output);
+      for (const s of phi.sources) {
+        if ('input' in s) {
+          const k = input(s.input);
+          if (k) solver.unify(out, k, loc);
+          continue;
+        }
+        const target = cont(s.path);
+        const r = target?.result[s.result];
+        if (target && r) link(out, target, r.id);
+      }
+    }
+
+    // Loop variables: `loop_<i>` inputs, `out_<i>` outputs and the top of every part
+    const loop = loopBranch(st.spec);
+    if (loop) {
+      outs.forEach((o, i) => { const k = input(`loop_${i}`); if (k) solver.unify(o, k, loc); });
+      const part = (c: Continuation) => c.type === 'cc' ? cont(LOOP_REST_OPERAND) : c.type === 'variable' ? cont(c.var_name) : undefined;
+      const parts = loop.name === 'while' ? [loop.args.cond, loop.args.body] : [loop.args.body];
+      for (const c of parts) {
+        const body = part(c);
+        if (!body) continue;
+        const vars = outs.slice(outs.length - body.args.length);
+        body.args.forEach((a, i) => link(vars[i], body, a.id));
+        body.result.slice(0, body.args.length).forEach((r, i) => link(vars[i], body, r.id));
+      }
+    }
+
+    // TRY: the body starts from the `try_<i>` inputs, the handler from the `catch_<i>` ones
+    // with the exception argument and an integer code on top; both end with the outputs
+    const t = tryBranch(st.spec);
+    if (t) {
+      const keys = (prefix: RegExp) => st.inputs.filter((i) => prefix.test(i.name)).map((i) => inputKey(fn, i.value));
+      const carried = keys(/^try_\d+$/);
+      const caught = keys(/^catch_\d+$/);
+      const bind = (c: Continuation, stack: Array<string | undefined>, code?: boolean) => {
+        const body = c.type === 'variable' ? cont(c.var_name) : undefined;
+        if (!body) return;
+        const below = stack.slice(0, stack.length - body.args.length);
+        body.args.forEach((a, i) => link(stack[below.length + i], body, a.id));
+        if (code && body.args.length) solver.constrain(solver.key(body, body.args[body.args.length - 1].id), ['Integer'], loc);
+        if (!outs.length) return;
+        const left = [...below, ...body.result.map((r) => solver.key(body, r.id))].slice(-outs.length);
+        left.forEach((k, i) => { if (k) solver.unify(outs[i], k, loc); });
+      };
+      bind(t.body, carried);
+      bind(t.handler, [...caught, undefined, undefined], true);
+    }
+
+    // Resolved calls: arguments and results of the callee
+    const callee = st.callee ? methods.get(st.callee.methodId) : undefined;
+    if (callee) {
+      callee.args.forEach((a, i) => link(input(`arg${i}`), callee, a.id));
+      callee.result.forEach((r, i) => link(outs[i], callee, r.id));
+    }
+  };
+
+  for (const { name, methodId, fn } of programFunctions(p)) {
+    forEachFunction(fn, (f) => {
+      if (!owners.has(solver.scope(f))) owners.set(solver.scope(f), { function: name, methodId });
+      visitFn(f);
+    });
+  }
+
+  // Inferred types on every definition and use
+  const write = <T extends { id: string; types?: IRType[] }>(fn: IRFunction, v: T) => {
+    const types = solver.typesOf(solver.key(fn, v.id));
+    if (types) v.types = types.slice();
+    else delete v.types;
+  };
+  const writeOp = (fn: IRFunction, st: IROpPrim) => {
+    for (const o of st.outputs) write(fn, o.value);
+    for (const { value } of st.inputs) {
+      if ((value as any).kind === 'inline') writeOp(fn, (value as IRInlineExpr).op);
+      else write(fn, value as IRValueRef);
+    }
+  };
+  for (const { fn } of programFunctions(p)) {
+    forEachFunction(fn, (f) => {
+      f.args.forEach((a) => write(f, a));
+      f.result.forEach((r) => write(f, r));
+      f.body.forEach((st) => writeOp(f, st));
+    });
+  }
+
+  return solver.conflicts.map(({ key, types, location }) => {
+    const sep = key.indexOf(':');
+    const owner = owners.get(Number(key.slice(0, sep))) ?? { function: 'main', methodId: null };
+    const value = key.slice(sep + 1);
+    return { ...owner, value, types, location };
+  });
+}
+
+// FunC name of an inferred type: `var` when unknown or ambiguous; `Null` fits any type
+export function funcTypeName(types: IRType[] | undefined): string {
+  const strict = (types ?? []).filter((t) => t !== 'Null');
+  if (strict.length !== 1) return 'var';
+  switch (strict[0]) {
+    case 'Integer': return 'int';
+    case 'Cell': return 'cell';
+    case 'Builder': return 'builder';
+    case 'Slice': return 'slice';
+    case 'Tuple': return 'tuple';
+    case 'Continuation': return 'cont';
+  }
+  return 'var';
+}
+
+// Tolk name of an inferred type: nullable (`cell?`) when it may be `Null`, undefined when
+// unknown or ambiguous
+export function tolkTypeName(types: IRType[] | undefined): string | undefined {
+  const t = funcTypeName(types);
+  if (t === 'var') return undefined;
+  const name = t === 'cont' ? 'continuation' : t;
+  return types!.includes('Null') ? `${name}?` : name;
+}
+
+export function formatTypeConflict(c: TypeConflict): string {
+  const [a, b] = c.types.map((t) => t.length ? t.join('|') : 'any');
+  return `type conflict in ${c.function}: ${c.value} is ${a} and ${b}`;
+}
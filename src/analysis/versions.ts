@@ -0,0 +1,62 @@
+import type { Program } from "../core/program";
+import { forEachFunction, forEachInstruction, programFunctions } from "./walk";
+
+// TVM global version requirements of a program, from `since_version` of every
+// decoded instruction. Code that failed to disassemble is not covered, so the
+// minimum is only a lower bound when `complete` is false.
+
+export type VersionUsage = {
+  mnemonic: string;
+  sinceVersion: number;
+  count: number;               // number of occurrences
+  functions: string[];         // 'main' or method names where it occurs
+};
+
+export type VersionReport = {
+  minVersion: number;          // lowest global version that has every decoded instruction
+  instructions: VersionUsage[]; // instructions newer than version 0, newest first
+  complete: boolean;           // false if some code could not be disassembled
+};
+
+export function buildVersionReport(p: Program): VersionReport {
+  const usages = new Map<string, VersionUsage>();
+  let minVersion = 0;
+  let complete = true;
+  for (const { name, fn } of programFunctions(p)) {
+    forEachInstruction(fn, ({ spec }) => {
+      minVersion = Math.max(minVersion, spec.since_version);
+      if (spec.since_version === 0) return;
+      let u = usages.get(spec.mnemonic);
+      if (!u) {
+        u = { mnemonic: spec.mnemonic, sinceVersion: spec.since_version, count: 0, functions: [] };
+        usages.set(spec.mnemonic, u);
+      }
+      u.count++;
+      if (!u.functions.includes(name)) u.functions.push(name);
+    });
+    forEachFunction(fn, (f) => {
+      if (f.disassembleError) complete = false;
+    });
+  }
+  const instructions = Array.from(usages.values())
+    .sort((a, b) => b.sinceVersion - a.sinceVersion || a.mnemonic.localeCompare(b.mnemonic));
+  return { minVersion, instructions, complete };
+}
+
+// Text rendering; with `globalVersion` set, instructions it lacks are marked with `!`
+export function formatVersionReport(r: VersionReport, globalVersion?: number): string {
+  const lines: string[] = [`minimum TVM global version: ${r.minVersion}${r.complete ? '' : ' (lower bound: some code was not disassembled)'}`];
+  if (globalVersion !== undefined) {
+    const ok = r.minVersion <= globalVersion;
+    lines.push(`target global version ${globalVersion}: ${ok ? 'supported' : 'NOT supported'}`);
+  }
+  for (const u of r.instructions) {
+    const flag = globalVersion !== undefined && u.sinceVersion > globalVersion ? '!' : ' ';
+    lines.push(`${flag} v${u.sinceVersion} ${u.mnemonic} x${u.count} in ${u.functions.join(', ')}`);
+  }
+  return lines.join('\n');
+}
+
+export function versionReportToJSON(r: VersionReport): string {
+  return JSON.stringify(r, null, 2);
+}
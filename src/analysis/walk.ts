@@ -0,0 +1,83 @@
+import type { IRFunction, IRInputArg, IROperands, IROperandValue, IROpPrim } from "../core/ir";
+import type { Program } from "../core/program";
+import type { Instruction } from "../gen/tvm-spec";
+import { methodDisplayName } from "../backend/printer";
+
+// Generic traversal over a lifted function: its body, inlined expressions,
+// nested continuations (`cont`, `cont_map`) and asm tails.
+// Continuations shared between several operands are visited once.
+
+export type WalkedInstruction = {
+  spec: Instruction;
+  operands: IROperands;
+  callee?: { methodId: number };
+};
+
+type Visitor = {
+  onFunction?: (fn: IRFunction) => void;
+  onInstruction?: (insn: WalkedInstruction) => void;
+};
+
+function walk(fn: IRFunction, visitor: Visitor) {
+  const seen = new Set<IRFunction>();
+
+  const visitOperand = (v: IROperandValue) => {
+    if (v.kind === 'cont') visitFn(v.value);
+    if (v.kind === 'cont_map') v.value.forEach((f) => visitFn(f));
+  };
+  const visitInput = (a: IRInputArg) => {
+    if ((a as any).kind === 'inline') visitOp((a as any).op as IROpPrim);
+  };
+  const visitOp = (st: IROpPrim) => {
+    visitor.onInstruction?.(st);
+    for (const { value } of st.inputs) visitInput(value);
+    for (const { value } of st.operands) visitOperand(value);
+  };
+  const visitFn = (f: IRFunction) => {
+    if (seen.has(f)) return;
+    seen.add(f);
+    visitor.onFunction?.(f);
+    for (const st of f.body) visitOp(st);
+    for (const ins of f.asmTail ?? []) {
+      visitor.onInstruction?.(ins);
+      for (const { value } of ins.operands) visitOperand(value);
+    }
+  };
+
+  visitFn(fn);
+}
+
+// Visits every instruction occurrence inside `fn`
+export function forEachInstruction(fn: IRFunction, visit: (insn: WalkedInstruction) => void) {
+  walk(fn, { onInstruction: visit });
+}
+
+// Visits `fn` and every continuation nested in it
+export function forEachFunction(fn: IRFunction, visit: (f: IRFunction) => void) {
+  walk(fn, { onFunction: visit });
+}
+
+export type ProgramFunction = {
+  name: string;      // 'main' for root entry code, otherwise the method display name
+  methodId: number | null; // null for 'main'
+  fn: IRFunction;
+};
+
+// Top-level functions of a program: entry first, then methods by id
+export function programFunctions(p: Program): ProgramFunction[] {
+  if (p.kind === 'single') return [{ name: 'main', methodId: null, fn: p.entry }];
+  const out: ProgramFunction[] = [];
+  if (p.entry) out.push({ name: 'main', methodId: null, fn: p.entry });
+  const ids = Array.from(p.methods.keys()).sort((a, b) => a - b);
+  for (const id of ids) out.push({ name: methodDisplayName(id), methodId: id, fn: p.methods.get(id)! });
+  return out;
+}
+
+// The same program restricted to the top-level functions for which `keep` holds
+export function filterProgram(p: Program, keep: (f: ProgramFunction) => boolean): Program {
+  const kept = programFunctions(p).filter(keep);
+  const entry = kept.find((f) => f.methodId === null)?.fn;
+  if (p.kind === 'single') return entry ? p : { kind: 'multi', methods: new Map(), storage: p.storage };
+  const methods = new Map(kept.filter((f) => f.methodId !== null).map((f) => [f.methodId!, f.fn] as [number, IRFunction]));
+  return { ...p, methods, entry };
+}
@@ -0,0 +1,393 @@
+import { Bit, BOC, Builder, Cell, Slice } from "ton3-core";
+import type { Alias, DisplayHints, Instruction, Operand } from "./gen/tvm-spec";
+import { codePageSwitch, getCodePage, OpcodeParser, prefixToBin, VarMap } from "./disasm";
+import { NEXT_CELL } from "./backend/fift";
+
+// Fift-asm style assembler: the reverse of OpcodeParser, driven by the same
+// `bytecode.prefix`/`operands` spec data.
+//
+// Syntax is postfix as in Asm.fif: operands come before the mnemonic, in spec order.
+//   5 PUSHINT_4            integer operands (decimal or 0x hex), display hints applied in reverse
+//   s1 s2 XCHG_IJ          stack (`sN`, `s(-1)`) and control register (`cN`) operands
+//   <{ ... }> PUSHCONT     nested continuations for continuation refs/subslices
+//   x{A_} PUSHSLICE        slice literals (`x{hex}` with `_` completion tag, `b{0101}`)
+//   <b x{..} s, <b .. b> ref, b>     cell literals, `<s` turns one into a slice
+// Mnemonics are cp0 mnemonics or aliases; a bare family name (`PUSHINT`) picks the
+// first `PUSHINT_*` encoding that accepts the operands. Code that does not fit a cell
+// continues in a ref, as Fift does; NEXTCELL (in 'spec' listings) starts that ref. `//` starts a comment; a leading `"Asm.fif" include`
+// is skipped, so `printFiftCode(..., { mnemonics: 'spec' })` listings assemble as is.
+
+export class AssemblerError extends Error {
+  public line: number;
+
+  public constructor(message: string, line: number) {
+    super(`line ${line}: ${message}`);
+    this.name = "AssemblerError";
+    this.line = line;
+  }
+}
+
+export type AssembleOptions = {
+  // Code page the source starts in; SETCP switches it for the rest of the block
+  codePage?: number;
+};
+
+type Token = { text: string; line: number };
+
+type AsmValue =
+  | { kind: 'int'; value: bigint }
+  | { kind: 'stack'; value: bigint }
+  | { kind: 'register'; value: bigint }
+  | { kind: 'raw'; value: bigint }      // alias-fixed operand, already in bytecode form
+  | { kind: 'code'; value: Cell }       // assembled `<{ ... }>` block
+  | { kind: 'slice'; value: Slice }
+  | { kind: 'cell'; value: Cell };
+
+type EncodedOp = { bits: Bit[]; refs: Cell[] };
+
+const MAX_CELL_BITS = 1023;
+const MAX_CELL_REFS = 4;
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  source.split(/\r?\n/).forEach((text, i) => {
+    for (const word of text.replace(/\/\/.*$/, '').split(/\s+/)) {
+      if (word.length > 0) tokens.push({ text: word, line: i + 1 });
+    }
+  });
+  return tokens;
+}
+
+function intToBits(v: bigint, size: number): Bit[] {
+  const bits: Bit[] = [];
+  let x = v < 0n ? v + (1n << BigInt(size)) : v;
+  for (let i = 0; i < size; i++) {
+    bits.push(Number(x & 1n) as Bit);
+    x >>= 1n;
+  }
+  return bits.reverse();
+}
+
+const fitsUint = (v: bigint, size: number) => v >= 0n && v < (1n << BigInt(size));
+const fitsInt = (v: bigint, size: number) => size > 0 && v >= -(1n << BigInt(size - 1)) && v < (1n << BigInt(size - 1));
+
+// `x{A7_}` / `b{0101}` slice literal bits
+function parseSliceLiteral(text: string): Bit[] | null {
+  const m = /^([xb])\{([0-9a-fA-F_]*)\}$/.exec(text);
+  if (!m) return null;
+  if (m[1] === 'b') {
+    if (!/^[01]*$/.test(m[2])) return null;
+    return m[2].split('').map((c) => Number(c) as Bit);
+  }
+  const completionTag = m[2].endsWith('_');
+  const hex = completionTag ? m[2].slice(0, -1) : m[2];
+  if (hex.includes('_')) return null;
+  let bits = hex.split('').flatMap((h) => intToBits(BigInt(parseInt(h, 16)), 4));
+  if (completionTag) {
+    const end = bits.lastIndexOf(1);
+    if (end < 0) return null;
+    bits = bits.slice(0, end);
+  }
+  return bits;
+}
+
+function parseIntLiteral(text: string): bigint | null {
+  if (!/^-?(0x[0-9a-fA-F]+|\d+)$/.test(text)) return null;
+  return text.startsWith('-') ? -BigInt(text.slice(1)) : BigInt(text);
+}
+
+// Display form (as printed with display hints) back to the raw operand value
+function fromDisplay(v: bigint, hints: DisplayHints): bigint | null {
+  for (const h of [...hints].reverse()) {
+    if (h.type === 'add') v -= BigInt(h.value);
+    else if (h.type === 'pushint4') v = v < 0n ? v + 16n : v;
+    else if (h.type === 'optional_nargs') v = v === -1n ? 15n : v;
+    else if (h.type === 'plduz') {
+      if (v % 32n !== 0n) return null;
+      v = v / 32n - 1n;
+    }
+  }
+  return v;
+}
+
+function sliceParts(v: AsmValue): { bits: Bit[]; refs: Cell[] } | null {
+  if (v.kind === 'code' || v.kind === 'cell') return { bits: v.value.bits, refs: v.value.refs };
+  if (v.kind === 'slice') return { bits: v.value.bits, refs: v.value.refs };
+  return null;
+}
+
+// Appends one operand to `out`; returns the raw value of integer operands (for SETCP tracking)
+function encodeOperand(operand: Operand, v: AsmValue, out: EncodedOp): number | undefined {
+  const fail = (why: string): never => { throw new Error(`operand ${operand.name}: ${why}`); };
+  switch (operand.type) {
+    case 'uint':
+    case 'int': {
+      if (v.kind !== 'int' && v.kind !== 'stack' && v.kind !== 'register' && v.kind !== 'raw') return fail('integer expected');
+      const raw = v.kind === 'raw' ? v.value : fromDisplay(v.value, operand.display_hints);
+      if (raw === null) return fail(`${v.value} is not representable`);
+      const fits = operand.type === 'uint' ? fitsUint(raw, operand.size) : fitsInt(raw, operand.size);
+      if (!fits) return fail(`${v.value} does not fit ${operand.type}${operand.size}`);
+      out.bits.push(...intToBits(raw, operand.size));
+      return Number(raw);
+    }
+    case 'pushint_long': {
+      if (v.kind !== 'int' && v.kind !== 'raw') return fail('integer expected');
+      for (let l = 0; l < 32; l++) {
+        const size = 8 * l + 19;
+        if (!fitsInt(v.value, size)) continue;
+        out.bits.push(...intToBits(BigInt(l), 5), ...intToBits(v.value, size));
+        return undefined;
+      }
+      return fail(`${v.value} is too large`);
+    }
+    case 'ref': {
+      if (v.kind === 'code' || v.kind === 'cell') out.refs.push(v.value);
+      else if (v.kind === 'slice') out.refs.push(new Builder().storeSlice(v.value).cell());
+      else return fail('cell or continuation expected');
+      return undefined;
+    }
+    case 'subslice': {
+      const parts = sliceParts(v) ?? fail('slice or continuation expected');
+      const refsAdd = operand.refs_add ?? 0;
+      const refCount = parts.refs.length - refsAdd;
+      if (operand.refs_length_var_size) {
+        if (!fitsUint(BigInt(refCount), operand.refs_length_var_size)) fail(`${parts.refs.length} refs do not fit`);
+        out.bits.push(...intToBits(BigInt(refCount), operand.refs_length_var_size));
+      } else if (refCount !== 0) {
+        fail(`exactly ${refsAdd} refs expected`);
+      }
+      const padding = operand.bits_padding ?? 0;
+      const needed = parts.bits.length + (operand.completion_tag ? 1 : 0);
+      const bytes = Math.max(0, Math.ceil((needed - padding) / 8));
+      if (padding + bytes * 8 < needed) fail('too many bits');
+      if (!operand.completion_tag && padding + bytes * 8 !== needed) fail('bit length is not a whole number of bytes');
+      if (operand.bits_length_var_size) {
+        if (!fitsUint(BigInt(bytes), operand.bits_length_var_size)) fail(`${parts.bits.length} bits do not fit`);
+        out.bits.push(...intToBits(BigInt(bytes), operand.bits_length_var_size));
+      } else if (bytes !== 0) {
+        fail(`at most ${padding} bits expected`);
+      }
+      out.bits.push(...parts.bits);
+      if (operand.completion_tag) {
+        const fill = padding + bytes * 8 - parts.bits.length;
+        out.bits.push(1, ...new Array<Bit>(fill - 1).fill(0));
+      }
+      out.refs.push(...parts.refs);
+      return undefined;
+    }
+  }
+}
+
+function encodeInstruction(insn: Instruction, values: AsmValue[], codePage: number): { op: EncodedOp; raw: VarMap } {
+  const op: EncodedOp = { bits: prefixToBin(insn.bytecode.prefix).split('').map((c) => Number(c) as Bit), refs: [] };
+  const raw: VarMap = {};
+  const operands = insn.bytecode.operands ?? [];
+  operands.forEach((operand, i) => {
+    raw[operand.name] = encodeOperand(operand, values[i], op);
+  });
+  // The encoding must decode back to the same instruction (range checks, shadowing prefixes)
+  const match = OpcodeParser.matchPrefix(op.bits, codePage);
+  if (match?.instruction !== insn) {
+    throw new Error(`operands encode as ${match?.instruction.mnemonic ?? 'an unknown instruction'}`);
+  }
+  if (op.bits.length > MAX_CELL_BITS || op.refs.length > MAX_CELL_REFS) {
+    throw new Error('instruction does not fit into a cell');
+  }
+  return { op, raw };
+}
+
+// Encoding alternatives for a mnemonic: the instruction itself, an alias with fixed
+// operands, or the `NAME_*` family in spec order
+type Candidate = { insn: Instruction; fixed: { [name: string]: AsmValue } };
+
+function candidatesFor(mnemonic: string, codePage: number): Candidate[] {
+  const schema = getCodePage(codePage);
+  const exact = schema.instructions.find((i) => i.mnemonic === mnemonic);
+  if (exact) return [{ insn: exact, fixed: {} }];
+  const alias = (schema.aliases ?? []).find((a: Alias) => a.mnemonic === mnemonic);
+  if (alias) {
+    const insn = schema.instructions.find((i) => i.mnemonic === alias.alias_of);
+    if (!insn) return [];
+    const fixed: { [name: string]: AsmValue } = {};
+    for (const [name, value] of Object.entries(alias.operands)) {
+      if (typeof value === 'number') fixed[name] = { kind: 'raw', value: BigInt(value) };
+      else if (typeof value === 'string') {
+        fixed[name] = { kind: 'slice', value: new Builder().storeBits(value.split('').map((c) => Number(c) as Bit)).cell().slice() };
+      }
+    }
+    return [{ insn, fixed }];
+  }
+  return schema.instructions
+    .filter((i) => i.mnemonic.startsWith(mnemonic + '_'))
+    .map((insn) => ({ insn, fixed: {} }));
+}
+
+// Splits encoded instructions into a chain of cells, each continuing in its last ref
+function linkCode(ops: EncodedOp[], line: number): Cell {
+  const chunks: EncodedOp[][] = [[]];
+  const size = (chunk: EncodedOp[]) => chunk.reduce(
+    (acc, op) => ({ bits: acc.bits + op.bits.length, refs: acc.refs + op.refs.length }),
+    { bits: 0, refs: 0 },
+  );
+  for (const op of ops) {
+    let cur = chunks[chunks.length - 1];
+    const used = size(cur);
+    if (used.bits + op.bits.length <= MAX_CELL_BITS && used.refs + op.refs.length <= MAX_CELL_REFS) {
+      cur.push(op);
+      continue;
+    }
+    // The full cell needs a free ref to continue; move trailing instructions over if not
+    const moved: EncodedOp[] = [];
+    while (cur.length > 0 && size(cur).refs >= MAX_CELL_REFS) moved.unshift(cur.pop()!);
+    if (cur.length === 0) throw new AssemblerError('code cannot be split into cells', line);
+    chunks.push([...moved, op]);
+    cur = chunks[chunks.length - 1];
+    const now = size(cur);
+    if (now.bits > MAX_CELL_BITS || now.refs > MAX_CELL_REFS) {
+      cur.pop();
+      chunks.push([op]);
+    }
+  }
+  let next: Cell | null = null;
+  for (let i = chunks.length - 1; i >= 0; i--) {
+    const b = new Builder();
+    for (const op of chunks[i]) b.storeBits(op.bits).storeRefs(op.refs);
+    if (next) b.storeRef(next);
+    next = b.cell();
+  }
+  return next!;
+}
+
+function parse(tokens: Token[], codePage: number): Cell {
+  let pos = 0;
+  const lastLine = () => tokens[Math.min(pos, tokens.length - 1)]?.line ?? 1;
+
+  // Cell literal body after `<b`, up to and including `b>`
+  const parseBuilder = (): Cell => {
+    const b = new Builder();
+    const pending: Array<{ value: AsmValue; line: number }> = [];
+    while (pos < tokens.length) {
+      const tok = tokens[pos++];
+      if (tok.text === 'b>') {
+        if (pending.length > 0) throw new AssemblerError('unused value inside cell literal', tok.line);
+        return b.cell();
+      }
+      if (tok.text === 's,' || tok.text === 'ref,') {
+        const v = pending.pop()?.value;
+        if (tok.text === 's,' && v && v.kind === 'slice') b.storeSlice(v.value);
+        else if (tok.text === 'ref,' && v && (v.kind === 'cell' || v.kind === 'code')) b.storeRef(v.value);
+        else throw new AssemblerError(`${tok.text} expects a ${tok.text === 's,' ? 'slice' : 'cell'}`, tok.line);
+        continue;
+      }
+      pending.push({ value: parseValue(tok) ?? fail(`unexpected ${tok.text} inside cell literal`, tok.line), line: tok.line });
+    }
+    throw new AssemblerError('unterminated cell literal', lastLine());
+  };
+
+  const fail = (message: string, line: number): never => { throw new AssemblerError(message, line); };
+
+  // Operand value starting at `tok`, or null if `tok` is a mnemonic
+  const parseValue = (tok: Token): AsmValue | null => {
+    if (tok.text === '<{') return { kind: 'code', value: parseBlock(false) };
+    if (tok.text === '<b') {
+      const cell = parseBuilder();
+      if (tokens[pos]?.text === '<s') {
+        pos++;
+        return { kind: 'slice', value: cell.slice() };
+      }
+      return { kind: 'cell', value: cell };
+    }
+    const bits = parseSliceLiteral(tok.text);
+    if (bits) return { kind: 'slice', value: new Builder().storeBits(bits).cell().slice() };
+    const n = parseIntLiteral(tok.text);
+    if (n !== null) return { kind: 'int', value: n };
+    // Negative stack operands (PUXC s(-1)) as Asm.fif writes them or as listed (`s-1`)
+    const reg = /^([sc])(\d+|-\d+|\(-\d+\))$/.exec(tok.text);
+    if (reg) return { kind: reg[1] === 's' ? 'stack' : 'register', value: BigInt(reg[2].replace(/[()]/g, '')) };
+    return null;
+  };
+
+  // Instruction sequence up to `}>` (or end of input at top level)
+  const parseBlock = (topLevel: boolean): Cell => {
+    // Instructions of each cell started by NEXTCELL (the first one by the block itself)
+    const cells: EncodedOp[][] = [[]];
+    let ops = cells[0];
+    const pending: Array<{ value: AsmValue; line: number }> = [];
+    let cp = codePage;
+    const finish = (line: number): Cell => {
+      // A lone `<{ ... }>` at top level is the program itself
+      if (topLevel && cells.length === 1 && ops.length === 0 && pending.length === 1 && pending[0].value.kind === 'code') return pending[0].value.value;
+      if (pending.length > 0) throw new AssemblerError('operand without instruction', pending[0].line);
+      // Each cell continues in its last ref
+      let next: Cell | null = null;
+      for (const chunk of [...cells].reverse()) next = linkCode(next ? [...chunk, { bits: [], refs: [next] }] : chunk, line);
+      return next!;
+    };
+    while (pos < tokens.length) {
+      const tok = tokens[pos++];
+      if (topLevel && tok.text === '"Asm.fif"' && tokens[pos]?.text === 'include') {
+        pos++;
+        continue;
+      }
+      if (tok.text === '}>' || tok.text === '}>c' || tok.text === '}>s') {
+        if (topLevel) throw new AssemblerError(`unbalanced ${tok.text}`, tok.line);
+        return finish(tok.line);
+      }
+      if (tok.text === NEXT_CELL) {
+        if (pending.length > 0) throw new AssemblerError('operand without instruction', pending[0].line);
+        ops = [];
+        cells.push(ops);
+        continue;
+      }
+      const value = parseValue(tok);
+      if (value) {
+        pending.push({ value, line: tok.line });
+        continue;
+      }
+      const candidates = candidatesFor(tok.text, cp);
+      if (candidates.length === 0) throw new AssemblerError(`unknown instruction ${tok.text}`, tok.line);
+      const errors: string[] = [];
+      let done = false;
+      // Operands come right before their mnemonic: the variant takes all of them
+      const freeOf = ({ insn, fixed }: Candidate) => (insn.bytecode.operands ?? []).filter((o) => !(o.name in fixed));
+      if (pending.length > 0 && candidates.every((c) => freeOf(c).length < pending.length)) {
+        throw new AssemblerError('operand without instruction', pending[0].line);
+      }
+      for (const candidate of candidates) {
+        const { insn } = candidate;
+        const free = freeOf(candidate);
+        if (free.length !== pending.length) {
+          errors.push(`${insn.mnemonic}: expects ${free.length} operand(s)`);
+          continue;
+        }
+        const taken = pending.map((p) => p.value);
+        const values = (insn.bytecode.operands ?? []).map((o) => candidate.fixed[o.name] ?? taken.shift()!);
+        try {
+          const { op, raw } = encodeInstruction(insn, values, cp);
+          ops.push(op);
+          pending.length = 0;
+          cp = codePageSwitch(insn, raw) ?? cp;
+          done = true;
+          break;
+        } catch (e) {
+          errors.push(`${insn.mnemonic}: ${(e as Error).message}`);
+        }
+      }
+      if (!done) throw new AssemblerError(`cannot encode ${tok.text} (${errors.join('; ')})`, tok.line);
+    }
+    if (!topLevel) throw new AssemblerError('unterminated <{', lastLine());
+    return finish(lastLine());
+  };
+
+  return parseBlock(true);
+}
+
+// Assembles Fift-asm style source into a code cell
+export function assemble(source: string, options: AssembleOptions = {}): Cell {
+  return parse(tokenize(source), options.codePage ?? 0);
+}
+
+// Same as `assemble`, serialized as a BOC
+export function assembleToBoc(source: string, options: AssembleOptions = {}): Uint8Array {
+  return new BOC([assemble(source, options)]).toBytes();
+}
@@ -0,0 +1,56 @@
+// Raw operand value → Asm.fif display form, driven by spec `display_hints`
+// (`s1`/`c4` for stack and control registers, offsets, PUSHINT 4-bit sign, ...).
+
+export function applyDisplayHintsNumber(n: number, hints?: any[]): { text?: string; value: number } {
+  if (!hints || hints.length === 0) return { value: n };
+  let v = n;
+  let mode: 'stack' | 'register' | null = null;
+  for (const h of hints) {
+    if (!h || typeof h !== 'object') continue;
+    const t = (h as any).type;
+    if (t === 'add') {
+      const delta = Number((h as any).value ?? 0);
+      if (Number.isFinite(delta)) v = v + delta;
+    } else if (t === 'pushint4') {
+      if (v > 10) v = v - 16;
+    } else if (t === 'optional_nargs') {
+      if (v === 15) v = -1;
+    } else if (t === 'plduz') {
+      v = 32 * (v + 1);
+    } else if (t === 'stack') {
+      mode = 'stack';
+    } else if (t === 'register') {
+      mode = 'register';
+    }
+  }
+  if (mode === 'stack') return { text: `s${v}`, value: v };
+  if (mode === 'register') return { text: `c${v}`, value: v };
+  return { value: v };
+}
+
+export function applyDisplayHintsBigInt(n: bigint, hints?: any[]): { text?: string; value: bigint } {
+  if (!hints || hints.length === 0) return { value: n };
+  let v = n;
+  let mode: 'stack' | 'register' | null = null;
+  for (const h of hints) {
+    if (!h || typeof h !== 'object') continue;
+    const t = (h as any).type;
+    if (t === 'add') {
+      const delta = BigInt(Number((h as any).value ?? 0));
+      v = v + delta;
+    } else if (t === 'pushint4') {
+      if (v > 10n) v = v - 16n;
+    } else if (t === 'optional_nargs') {
+      if (v === 15n) v = -1n;
+    } else if (t === 'plduz') {
+      v = 32n * (v + 1n);
+    } else if (t === 'stack') {
+      mode = 'stack';
+    } else if (t === 'register') {
+      mode = 'register';
+    }
+  }
+  if (mode === 'stack') return { text: `s${v.toString()}`, value: v };
+  if (mode === 'register') return { text: `c${v.toString()}`, value: v };
+  return { value: v };
+}
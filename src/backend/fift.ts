@@ -0,0 +1,243 @@
+import { Bit, Builder, Cell, Slice } from "ton3-core";
+import type { Instruction, Operand } from "../gen/tvm-spec";
+import type { IROperands } from "../core/ir";
+import type { MethodDictLayout } from "../frontend/layouts";
+import { cellOrigin, SliceOrigin } from "../frontend/origin";
+import { codePageSwitch, DecodedInstruction, OpcodeParser, VarMap } from "../disasm";
+import { methodDisplayName } from "./printer";
+import { applyDisplayHintsNumber } from "./displayHints";
+import { formatLocation } from "./sourceMap";
+
+// Disassembler backend: Fift-asm listings of raw code.
+// Works on decoded instructions rather than IR, so every instruction (including
+// stack shuffles that lifting folds away) is listed in its original order.
+// Method dictionaries become PROGRAM{ DECLPROC/DECLMETHOD ... }END>c blocks.
+
+export type FiftListingOptions = {
+  // 'fift': Asm.fif words from spec `doc.fift` (default);
+  // 'spec': tvm-spec mnemonics, as accepted by `assemble`, with NEXTCELL where the code
+  // continues in the next cell
+  mnemonics?: 'fift' | 'spec';
+  // Code page the code starts in (0 when absent)
+  codePage?: number;
+  // Instruction locations as `// @<cell hash>:<bit offset>+<bit length>` comments
+  locations?: boolean;
+};
+
+type ListingContext = {
+  mnemonics: 'fift' | 'spec';
+  methodNames: Map<number, string>; // declared methods, referenced by name from CALLDICT and friends
+  locations: boolean;
+};
+
+const METHOD_REF_MNEMONICS = ['CALLDICT', 'CALLDICT_LONG', 'JMPDICT', 'PREPAREDICT'];
+
+// Implicit jump to the next cell in 'spec' listings, so that `assemble` splits code as it was
+export const NEXT_CELL = 'NEXTCELL';
+
+// Comment a listing stops at when the rest of the code cannot be decoded
+const DISASSEMBLE_ERROR = '// disassemble error: ';
+
+const indentString = (str: string, count: number) => str.replace(/^(?=.)/gm, ' '.repeat(count));
+
+// Listing consumes the slice it walks; callers keep theirs intact
+const cloneSlice = (s: Slice) => new Builder().storeSlice(s).cell().slice();
+
+// `x{...}` literal, with `_` completion tag when the length is not a multiple of 4
+export function sliceLiteral(bits: Bit[]): string {
+  const padded = [...bits];
+  const tagged = padded.length % 4 !== 0;
+  if (tagged) {
+    padded.push(1);
+    while (padded.length % 4 !== 0) padded.push(0);
+  }
+  let hex = '';
+  for (let i = 0; i < padded.length; i += 4) {
+    hex += parseInt(padded.slice(i, i + 4).join(''), 2).toString(16).toUpperCase();
+  }
+  return `x{${hex}${tagged ? '_' : ''}}`;
+}
+
+// `<b x{...} s, <b ... b> ref, b>` builder expression producing the same cell
+export function cellLiteral(cell: { bits: Bit[]; refs: Cell[] }): string {
+  const parts = ['<b'];
+  if (cell.bits.length > 0) parts.push(`${sliceLiteral(cell.bits)} s,`);
+  for (const ref of cell.refs) parts.push(`${cellLiteral(ref)} ref,`);
+  parts.push('b>');
+  return parts.join(' ');
+}
+
+const isContinuation = (operand: Operand) =>
+  'display_hints' in operand && operand.display_hints.some((h) => h.type === 'continuation');
+
+// `origin`: where the operand's inline bits start, for subslices
+function formatOperand(operand: Operand, value: unknown, codePage: number, ctx: ListingContext, origin?: SliceOrigin): string {
+  if (isContinuation(operand)) {
+    const body = listCode(value as Slice, codePage, ctx, origin ?? cellOrigin(value as Slice));
+    return `<{\n${indentString(body, 2)}}>`;
+  }
+  switch (operand.type) {
+    case 'uint':
+    case 'int': {
+      const adj = applyDisplayHintsNumber(value as number, operand.display_hints);
+      return adj.text ?? String(adj.value);
+    }
+    case 'pushint_long': return String(value);
+    case 'ref': return cellLiteral(value as Slice);
+    case 'subslice': {
+      const s = value as Slice;
+      return s.refs.length === 0 ? sliceLiteral(s.bits) : `${cellLiteral(s)} <s`;
+    }
+  }
+}
+
+// Asm.fif rendering from the first `doc.fift` line: numeric `[name]` placeholders are
+// substituted (`s[i] s[j] XCHG`); otherwise operands are followed by the word it names
+function fiftForm(spec: Instruction, operands: VarMap, formatted: string[]): string {
+  const template = (spec.doc.fift ?? '').split('\n')[0].trim();
+  const words = template.split(/\s+/);
+  const word = words[words.length - 1];
+  if (!word || !/^[A-Z][A-Z0-9_#:+\-]*$/.test(word)) return [...formatted, spec.mnemonic].join(' ');
+  const specOps = spec.bytecode.operands ?? [];
+  const placeholders = Array.from(template.matchAll(/\[(\w+)\]/g)).map((m) => m[1]);
+  const numeric = specOps.every((o) => o.type === 'uint' || o.type === 'int');
+  if (numeric && placeholders.length === specOps.length && specOps.every((o) => placeholders.includes(o.name))) {
+    return template.replace(/([sc]?)\[(\w+)\]/g, (_, prefix: string, name: string) => {
+      const op = specOps.find((o) => o.name === name)!;
+      const adj = applyDisplayHintsNumber(operands[name], 'display_hints' in op ? op.display_hints : []);
+      return prefix ? `${prefix}${adj.value}` : adj.text ?? String(adj.value);
+    });
+  }
+  return [...formatted, word].join(' ');
+}
+
+// Asm.fif form of a lifted instruction (`8 LDU`, `c4 PUSH`) for FunC `asm` bodies;
+// null when an operand is a continuation, which Asm.fif needs as code
+export function fiftInstruction(spec: Instruction, operands: IROperands): string | null {
+  const raw: VarMap = {};
+  const formatted: string[] = [];
+  for (const o of spec.bytecode.operands ?? []) {
+    const v = operands.find((x) => x.name === o.name)?.value;
+    if (!v) return null;
+    switch (v.kind) {
+      case 'int':
+      case 'bigint': {
+        raw[o.name] = Number(v.value);
+        const adj = 'display_hints' in o && v.kind === 'int' ? applyDisplayHintsNumber(v.value, o.display_hints) : undefined;
+        formatted.push(adj ? adj.text ?? String(adj.value) : String(v.value));
+        break;
+      }
+      case 'slice':
+        raw[o.name] = v.value;
+        formatted.push(o.type === 'ref' || v.value.refs.length > 0 ? `${cellLiteral(v.value)}${o.type === 'ref' ? '' : ' <s'}` : sliceLiteral(v.value.bits));
+        break;
+      case 'cell':
+        raw[o.name] = v.value;
+        formatted.push(cellLiteral(v.value));
+        break;
+      default:
+        return null;
+    }
+  }
+  return fiftForm(spec, raw, formatted);
+}
+
+function formatInstruction(decoded: DecodedInstruction, origin: SliceOrigin, codePage: number, ctx: ListingContext): string {
+  const { instruction: spec, operands, dataOffsets } = decoded;
+  const specOps = spec.bytecode.operands ?? [];
+  if (ctx.mnemonics === 'fift' && METHOD_REF_MNEMONICS.includes(spec.mnemonic)) {
+    const name = ctx.methodNames.get(operands['n']);
+    if (name !== undefined) return `${name} ${spec.mnemonic === 'CALLDICT_LONG' ? 'CALLDICT' : spec.mnemonic}`;
+  }
+  const operandOrigin = (name: string) =>
+    dataOffsets[name] === undefined ? undefined : { cellHash: origin.cellHash, bitOffset: origin.bitOffset + dataOffsets[name] };
+  const formatted = specOps.map((o) => formatOperand(o, operands[o.name], codePage, ctx, operandOrigin(o.name)));
+  if (ctx.mnemonics === 'spec') return [...formatted, spec.mnemonic].join(' ');
+  return fiftForm(spec, operands, formatted);
+}
+
+// One instruction per line; implicit jumps to the next cell are followed.
+// `origin` is where the slice starts in the contract code.
+function listCode(slice: Slice, codePage: number, ctx: ListingContext, origin: SliceOrigin): string {
+  let out = '';
+  let cp = codePage;
+  let sliceStart = slice.bits.length;
+  while (slice.bits.length > 0) {
+    const at = { cellHash: origin.cellHash, bitOffset: origin.bitOffset + sliceStart - slice.bits.length };
+    let decoded: DecodedInstruction;
+    try {
+      decoded = OpcodeParser.decodeInstruction(slice, cp);
+    } catch (e) {
+      out += `${DISASSEMBLE_ERROR}${e}\n`;
+      break;
+    }
+    const text = formatInstruction(decoded, at, cp, ctx);
+    if (ctx.locations) {
+      // Continuation operands span several lines; the comment goes on the first one
+      const [first, ...rest] = text.split('\n');
+      out += [`${first} // ${formatLocation({ ...at, bitLength: decoded.bitLength })}`, ...rest].join('\n') + '\n';
+    } else {
+      out += text + '\n';
+    }
+    cp = codePageSwitch(decoded.instruction, decoded.operands) ?? cp;
+    while (slice.bits.length === 0 && slice.refs.length > 0) {
+      if (ctx.mnemonics === 'spec') out += `${NEXT_CELL}\n`;
+      const next = slice.loadRef();
+      slice = next.slice();
+      origin = { cellHash: next.hash(), bitOffset: 0 };
+      sliceStart = slice.bits.length;
+    }
+  }
+  return out;
+}
+
+// Listing of a single code slice as a `<{ ... }>c` continuation
+export function printFiftCode(code: Slice, opts: FiftListingOptions = {}): string {
+  const ctx: ListingContext = { mnemonics: opts.mnemonics ?? 'fift', methodNames: new Map(), locations: opts.locations ?? false };
+  const body = listCode(cloneSlice(code), opts.codePage ?? 0, ctx, cellOrigin(code));
+  return ['"Asm.fif" include', '<{', indentString(body, 2) + '}>c'].join('\n');
+}
+
+const layoutContext = (layout: MethodDictLayout, opts: FiftListingOptions): ListingContext => {
+  const methodNames = new Map(Array.from(layout.methods.keys(), (id) => [id, methodDisplayName(id)] as [number, string]));
+  return { mnemonics: opts.mnemonics ?? 'fift', methodNames, locations: opts.locations ?? false };
+};
+
+// Listing of a recognized method dictionary as a PROGRAM{ ... }END>c block
+export function printFiftProgram(layout: MethodDictLayout, opts: FiftListingOptions = {}): string {
+  const ids = Array.from(layout.methods.keys()).sort((a, b) => a - b);
+  const ctx = layoutContext(layout, opts);
+  const { methodNames } = ctx;
+  const out: string[] = ['"Asm.fif" include', `// method dictionary layout: ${layout.layout}`, 'PROGRAM{'];
+  // Get-method ids are fixed by their names; other ids are kept as found in the dictionary
+  for (const id of ids) {
+    out.push(`  ${id} ${id >= 0x10000 ? 'DECLMETHOD' : 'DECLPROC'} ${methodNames.get(id)}`);
+  }
+  if (layout.entry) {
+    out.push('  // root code executed before the method dictionary lookup');
+    out.push('  DECLPROC main');
+  }
+  const body = (name: string, code: Slice, origin: SliceOrigin | null | undefined) => {
+    const listing = listCode(cloneSlice(code), layout.codePage, ctx, origin ?? cellOrigin(code));
+    return `  ${name} PROC:<{\n${indentString(listing, 4)}  }>`;
+  };
+  if (layout.entry) out.push(body('main', layout.entry, layout.origins.entry));
+  for (const id of ids) out.push(body(methodNames.get(id)!, layout.methods.get(id)!, layout.origins.methods.get(id)));
+  out.push('}END>c');
+  return out.join('\n');
+}
+
+// Listing of a single method (`null`: the entry code) as a `<{ ... }>c` continuation,
+// or null when the layout has no such method. Calls still refer to methods by name.
+export function printFiftMethod(layout: MethodDictLayout, methodId: number | null, opts: FiftListingOptions = {}): string | null {
+  const code = methodId === null ? layout.entry : layout.methods.get(methodId);
+  if (!code) return null;
+  const origin = (methodId === null ? layout.origins.entry : layout.origins.methods.get(methodId)) ?? cellOrigin(code);
+  const body = listCode(cloneSlice(code), layout.codePage, layoutContext(layout, opts), origin);
+  return ['"Asm.fif" include', '<{', indentString(body, 2) + '}>c'].join('\n');
+}
+
+// Messages of the disassemble errors in a listing, in listing order
+export function listingErrors(listing: string): string[] {
+  return listing.split('\n').map((l) => l.trim()).filter((l) => l.startsWith(DISASSEMBLE_ERROR)).map((l) => l.slice(DISASSEMBLE_ERROR.length));
+}
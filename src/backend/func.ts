@@ -0,0 +1,230 @@
+// FunC backend: renders a decompiled program as FunC source that `func` compiles back.
+// Operators and FunC builtins are printed as such; every other instruction is called
+// through an `asm` function declared at the top of the file (with stdlib names where the
+// instruction has one). Control flow is rendered by `structured.ts`.
+
+import type { IRFunction, IRInlineExpr, IRType } from "../core/ir";
+import type { Program } from "../core/program";
+import { funcTypeName, inferTypes } from "../analysis/types";
+import { methodDisplayName } from "./printer";
+import type { InlineContext, InlinePrinter } from "./printer";
+import { AsmDeclarations, CALL_PRECEDENCE, SourcePrinters, braces, renderFunction, tensor } from "./structured";
+import type { Dialect } from "./structured";
+
+// Extension point: FunC expressions per instruction mnemonic. `results` lists the output
+// names in the order the FunC function returns them when it differs from the stack order
+// (`load_uint` gives the remaining slice first).
+const funcPrinters = new SourcePrinters();
+
+export function registerFuncPrinter(mnemonic: string, print: InlinePrinter, results?: string[]) {
+  funcPrinters.register(mnemonic, { print, results });
+}
+
+export function registerFuncPrinterPrefix(prefix: string, print: InlinePrinter, results?: string[]) {
+  funcPrinters.registerPrefix(prefix, { print, results });
+}
+
+// FunC operator precedence (higher binds tighter): unlike C, `&` is multiplicative and
+// `|`, `^` are additive, all above shifts and comparisons
+function funcPrecedence(m: string): number {
+  if (['EQUAL', 'NEQ', 'LESS', 'LEQ', 'GREATER', 'GEQ', 'CMP', 'EQINT', 'NEQINT', 'LESSINT', 'GTINT'].includes(m)) return 1;
+  if (['LSHIFT', 'RSHIFT', 'RSHIFTR', 'RSHIFTC', 'LSHIFT_VAR', 'RSHIFT_VAR', 'RSHIFTR_VAR', 'RSHIFTC_VAR'].includes(m)) return 2;
+  if (['ADD', 'SUB', 'INC', 'DEC', 'ADDCONST', 'OR', 'XOR'].includes(m)) return 3;
+  if (['MUL', 'DIV', 'MOD', 'MULCONST', 'AND'].includes(m)) return 4;
+  if (m === 'NEGATE' || m === 'NOT') return 5;
+  return CALL_PRECEDENCE;
+}
+
+// Stdlib names of instructions called through `asm` functions, keyed by their Asm.fif
+// form; `self` is the input printed as the receiver of a method call (`b.end_cell()`)
+const ASM_NAMES: Record<string, { name: string; self?: string }> = {
+  'NEWC': { name: 'begin_cell' },
+  'ENDC': { name: 'end_cell', self: 'b' },
+  'CTOS': { name: 'begin_parse', self: 'c' },
+  'ENDS': { name: 'end_parse', self: 's' },
+  'STREF': { name: 'store_ref', self: 'b' },
+  'STSLICER': { name: 'store_slice', self: 'b' },
+  'STGRAMS': { name: 'store_grams', self: 'b' },
+  'STDICT': { name: 'store_dict', self: 'b' },
+  'LDREF': { name: 'load_ref', self: 's' },
+  'PLDREF': { name: 'preload_ref', self: 's' },
+  'LDGRAMS': { name: 'load_grams', self: 's' },
+  'LDDICT': { name: 'load_dict', self: 's' },
+  'SBITS': { name: 'slice_bits', self: 's' },
+  'SREFS': { name: 'slice_refs', self: 's' },
+  'SEMPTY': { name: 'slice_empty?', self: 's' },
+  'SDEMPTY': { name: 'slice_data_empty?', self: 's' },
+  'BBITS': { name: 'builder_bits', self: 'b' },
+  'BREFS': { name: 'builder_refs', self: 'b' },
+  'HASHCU': { name: 'cell_hash', self: 'c' },
+  'HASHSU': { name: 'slice_hash', self: 's' },
+  'SHA256U': { name: 'string_hash', self: 's' },
+  'CHKSIGNU': { name: 'check_signature' },
+  'CHKSIGNS': { name: 'check_data_signature' },
+  'NEWDICT': { name: 'new_dict' },
+  'NULL': { name: 'null' },
+  'PUSHNULL': { name: 'null' },
+  'ACCEPT': { name: 'accept_message' },
+  'SETGASLIMIT': { name: 'set_gas_limit' },
+  'COMMIT': { name: 'commit' },
+  'NOW': { name: 'now' },
+  'MYADDR': { name: 'my_address' },
+  'BALANCE': { name: 'get_balance' },
+  'LTIME': { name: 'cur_lt' },
+  'BLOCKLT': { name: 'block_lt' },
+  'CONFIGOPTPARAM': { name: 'config_param' },
+  'c4 PUSHCTR': { name: 'get_data' },
+  'c4 POPCTR': { name: 'set_data' },
+  'c3 PUSHCTR': { name: 'get_c3' },
+  'c3 POPCTR': { name: 'set_c3' },
+  'SENDRAWMSG': { name: 'send_raw_message' },
+  'RAWRESERVE': { name: 'raw_reserve' },
+  'SETCODE': { name: 'set_code' },
+  'RANDU256': { name: 'random' },
+  'RAND': { name: 'rand' },
+  'ADDRAND': { name: 'randomize' },
+  'REWRITESTDADDR': { name: 'parse_std_addr', self: 's' },
+  'REWRITEVARADDR': { name: 'parse_var_addr', self: 's' },
+  'PARSEMSGADDR': { name: 'parse_addr', self: 's' },
+  'ABS': { name: 'abs' },
+  'MIN': { name: 'min' },
+  'MAX': { name: 'max' },
+  'MINMAX': { name: 'minmax' },
+};
+
+// Method ids with a fixed meaning in FunC: declared by name, without `method_id`
+const SPECIAL_METHODS: Record<string, number> = {
+  main: 0, recv_internal: 0, recv_external: -1, run_ticktock: -2, split_prepare: -3, split_install: -4,
+};
+
+function funcFunctionName(methodId: number): string {
+  const name = methodDisplayName(methodId).replace(/[^\w?!']/g, '_');
+  if (name in SPECIAL_METHODS && SPECIAL_METHODS[name] !== methodId) return `method_${methodId}`;
+  return /^\d/.test(name) ? `_${name}` : name;
+}
+
+const returnType = (types: string[]) => types.length === 0 ? '()' : tensor(types.map((t) => t === 'var' ? '_' : t));
+const typeOrVar = (type: string | undefined) => type ?? 'var';
+
+// The stdlib `null()`, declared when the program does not call it already
+const nullFunction = (decls: AsmDeclarations) => decls.helper(['NULL', 'PUSHNULL'], 'null', (name) => `forall X -> X ${name}() asm "NULL";`);
+
+const FUNC: Dialect = {
+  printers: funcPrinters,
+  precedence: funcPrecedence,
+  typeName: (types: IRType[] | undefined) => {
+    const t = funcTypeName(types);
+    return t === 'var' ? undefined : t;
+  },
+  stdlibName: (body) => ASM_NAMES[body],
+  functionName: funcFunctionName,
+  asmFunction: ({ name, params, reorder, results, typeVars, impure, body }) => {
+    const forall = typeVars.length ? `forall ${typeVars.join(', ')} -> ` : '';
+    const ret = results.length === 0 ? '()' : tensor(results);
+    const args = params.map((p) => `${p.type} ${p.name}`).join(', ');
+    return `${forall}${ret} ${name}(${args})${impure ? ' impure' : ''} asm${reorder ? `(${reorder.join(' ')})` : ''} "${body}";`;
+  },
+  target: (parts) => tensor(parts.map((p) => !p ? '_' : p.declared ? p.id : `${typeOrVar(p.type)} ${p.id}`)),
+  uninitialized: (id, type, decls) => `${typeOrVar(type)} ${id} = ${nullFunction(decls)}();`,
+  nullValue: (decls) => `${nullFunction(decls)}()`,
+  // Identity giving a value of any type the FunC type `type` (exception arguments)
+  cast: (expr, type, decls) => `${decls.helper([`NOP ${type}`], `cast_to_${type}`, (name) => `forall X -> ${type} ${name}(X x) asm "NOP";`)}(${expr})`,
+  ifHead: (cond, negate) => `${negate ? 'ifnot' : 'if'} (${cond})`,
+  untilTail: (flag) => `} until (${flag});`,
+  catchHead: (arg, code) => `} catch (${arg}, ${code}) {`,
+  returnStatement: (values) => `return ${values.length ? tensor(values) : '()'};`,
+  comment: (text) => `;; ${text}`,
+};
+
+// FunC source of a program: `asm` declarations, forward declarations of every method,
+// then the methods. Types come from `inferTypes`, which annotates the program in place.
+export function printFuncProgram(p: Program): string {
+  inferTypes(p);
+  const decls = new AsmDeclarations(FUNC);
+  const methods = p.kind === 'multi' ? p.methods : new Map<number, IRFunction>();
+  const headers: string[] = [];
+  const bodies: string[] = [];
+  const emit = (fn: IRFunction, name: string, methodId: number | null) => {
+    const { body, returns } = renderFunction(fn, name, FUNC, decls, methods);
+    const params = fn.args.map((a) => `${funcTypeName(a.types)} ${a.id}`);
+    const ret = returns ? returnType(fn.result.map((r) => funcTypeName(r.types))) : '()';
+    const id = methodId === null || name in SPECIAL_METHODS ? '' : ` method_id(${methodId})`;
+    const header = `${ret} ${name}(${params.join(', ')}) impure${id}`;
+    headers.push(`${header};`);
+    bodies.push(...braces(header, body), '');
+  };
+  if (p.kind === 'single') emit(p.entry, 'recv_internal', null);
+  else {
+    if (p.entry) bodies.push(';; root code outside the method dictionary is not printed', '');
+    for (const id of Array.from(p.methods.keys()).sort((a, b) => a - b)) emit(p.methods.get(id)!, funcFunctionName(id), id);
+  }
+  const asm = decls.declarations();
+  return [...asm, ...(asm.length ? [''] : []), ...headers, '', ...bodies].join('\n');
+}
+
+function registerFuncPrinters() {
+  const binary = (op: string): InlinePrinter => (_st, ctx) => `${ctx.inP('x', 'left')} ${op} ${ctx.inP('y', 'right')}`;
+  const operators: Record<string, string> = {
+    ADD: '+', SUB: '-', MUL: '*', DIV: '/', MOD: '%', AND: '&', OR: '|', XOR: '^',
+    LSHIFT_VAR: '<<', RSHIFT_VAR: '>>', RSHIFTR_VAR: '~>>', RSHIFTC_VAR: '^>>',
+    LESS: '<', LEQ: '<=', GREATER: '>', GEQ: '>=', EQUAL: '==', NEQ: '!=', CMP: '<=>',
+  };
+  for (const [m, op] of Object.entries(operators)) registerFuncPrinter(m, binary(op));
+  // Operator with a constant operand: `x + 5`, `x - 5` for a negative addend
+  const constant = (op: string, name: string): InlinePrinter => (_st, ctx) => {
+    const c = ctx.opInt(name);
+    if (c === undefined) return null;
+    if (op === '+' && c < 0) return `${ctx.inP('x', 'left')} - ${-c}`;
+    return `${ctx.inP('x', 'left')} ${op} ${ctx.op(name)}`;
+  };
+  registerFuncPrinter('ADDCONST', constant('+', 'c'));
+  registerFuncPrinter('MULCONST', constant('*', 'c'));
+  registerFuncPrinter('LSHIFT', constant('<<', 'c'));
+  registerFuncPrinter('RSHIFT', constant('>>', 'c'));
+  registerFuncPrinter('RSHIFTR', constant('~>>', 'c'));
+  registerFuncPrinter('RSHIFTC', constant('^>>', 'c'));
+  registerFuncPrinter('EQINT', constant('==', 'y'));
+  registerFuncPrinter('NEQINT', constant('!=', 'y'));
+  registerFuncPrinter('LESSINT', constant('<', 'y'));
+  registerFuncPrinter('GTINT', constant('>', 'y'));
+  registerFuncPrinter('INC', (_st, ctx) => `${ctx.inP('x', 'left')} + 1`);
+  registerFuncPrinter('DEC', (_st, ctx) => `${ctx.inP('x', 'left')} - 1`);
+  registerFuncPrinter('NEGATE', (_st, ctx) => `- ${ctx.inP('x')}`);
+  registerFuncPrinter('NOT', (_st, ctx) => `~ ${ctx.inP('x')}`);
+  registerFuncPrinterPrefix('PUSHINT_', (_st, ctx) => ctx.op('x') || ctx.op('i') || null);
+  registerFuncPrinter('DIVMOD', (_st, ctx) => `divmod(${ctx.in('x')}, ${ctx.in('y')})`);
+  registerFuncPrinter('MULDIV', (_st, ctx) => `muldiv(${ctx.in('x')}, ${ctx.in('y')}, ${ctx.in('z')})`);
+  registerFuncPrinter('MULDIVR', (_st, ctx) => `muldivr(${ctx.in('x')}, ${ctx.in('y')}, ${ctx.in('z')})`);
+  registerFuncPrinter('ISNULL', (st, ctx) => st.inputs[0] ? `null?(${ctx.formatInputArg(st.inputs[0].value)})` : null);
+
+  // Loads return the remaining slice first; stores take the builder as receiver
+  const receiver = (ctx: InlineContext, name: string) => {
+    const a = ctx.inRaw(name);
+    return a && (a as any).kind === 'inline' && funcPrecedence((a as IRInlineExpr).op.mnemonic) < CALL_PRECEDENCE ? `(${ctx.in(name)})` : ctx.in(name);
+  };
+  registerFuncPrinter('LDU', (_st, ctx) => `load_uint(${ctx.in('s')}, ${ctx.op('c')})`, ['s2', 'x']);
+  registerFuncPrinter('LDI', (_st, ctx) => `load_int(${ctx.in('s')}, ${ctx.op('c')})`, ['s2', 'x']);
+  registerFuncPrinter('PLDU', (_st, ctx) => `preload_uint(${ctx.in('s')}, ${ctx.op('c')})`);
+  registerFuncPrinter('PLDI', (_st, ctx) => `preload_int(${ctx.in('s')}, ${ctx.op('c')})`);
+  registerFuncPrinter('STU', (_st, ctx) => `${receiver(ctx, 'b')}.store_uint(${ctx.in('x')}, ${ctx.op('c')})`);
+  registerFuncPrinter('STI', (_st, ctx) => `${receiver(ctx, 'b')}.store_int(${ctx.in('x')}, ${ctx.op('c')})`);
+
+  // Exceptions with numeric codes (FunC has no names for them)
+  const code = (ctx: InlineContext) => String(ctx.opInt('n') ?? ctx.in('n'));
+  for (const suffix of ['', '_SHORT']) {
+    registerFuncPrinter(`THROW${suffix}`, (_st, ctx) => `throw(${code(ctx)})`);
+    registerFuncPrinter(`THROWIF${suffix}`, (_st, ctx) => `throw_if(${code(ctx)}, ${ctx.in('f')})`);
+    registerFuncPrinter(`THROWIFNOT${suffix}`, (_st, ctx) => `throw_unless(${code(ctx)}, ${ctx.in('f')})`);
+  }
+  registerFuncPrinter('THROWANY', (_st, ctx) => `throw(${ctx.in('n')})`);
+  registerFuncPrinter('THROWANYIF', (_st, ctx) => `throw_if(${ctx.in('n')}, ${ctx.in('f')})`);
+  registerFuncPrinter('THROWANYIFNOT', (_st, ctx) => `throw_unless(${ctx.in('n')}, ${ctx.in('f')})`);
+  registerFuncPrinter('THROWARG', (_st, ctx) => `throw_arg(${ctx.in('x')}, ${code(ctx)})`);
+  registerFuncPrinter('THROWARGIF', (_st, ctx) => `throw_arg_if(${ctx.in('x')}, ${code(ctx)}, ${ctx.in('f')})`);
+  registerFuncPrinter('THROWARGIFNOT', (_st, ctx) => `throw_arg_unless(${ctx.in('x')}, ${code(ctx)}, ${ctx.in('f')})`);
+  registerFuncPrinter('THROWARGANY', (_st, ctx) => `throw_arg(${ctx.in('x')}, ${ctx.in('n')})`);
+  registerFuncPrinter('THROWARGANYIF', (_st, ctx) => `throw_arg_if(${ctx.in('x')}, ${ctx.in('n')}, ${ctx.in('f')})`);
+  registerFuncPrinter('THROWARGANYIFNOT', (_st, ctx) => `throw_arg_unless(${ctx.in('x')}, ${ctx.in('n')}, ${ctx.in('f')})`);
+}
+
+registerFuncPrinters();
@@ -0,0 +1,86 @@
+import type { Program } from "../core/program";
+import type { IRFunction, IRInputArg, IROperandValue, IROpPrim, IRPhi, IRValueRef } from "../core/ir";
+import { programFunctions } from "../analysis/walk";
+import { cellLiteral, sliceLiteral } from "./fift";
+import { formatLocation } from "./sourceMap";
+
+// Plain IR listing: every op as `outs = MNEMONIC(inputs | operands)` with no
+// pretty printers applied, inlined ops nested in place and continuations as
+// indented blocks. Shows what the lifter and passes produced.
+
+export type IRDumpOptions = {
+  // Instruction locations as trailing `// @<cell hash>:<bit offset>+<bit length>` comments
+  locations?: boolean;
+};
+
+const indent = (s: string) => s.replace(/^(?=.)/gm, '  ');
+
+const fmtRef = (v: IRValueRef) => v.id;
+
+function fmtInput(a: IRInputArg, opts: IRDumpOptions): string {
+  return (a as any).kind === 'inline' ? fmtOp((a as any).op as IROpPrim, opts) : fmtRef(a as IRValueRef);
+}
+
+function fmtOperand(v: IROperandValue, opts: IRDumpOptions): string {
+  switch (v.kind) {
+    case 'int':
+    case 'bigint':
+    case 'bool': return String(v.value);
+    case 'slice': return v.value.refs.length === 0 ? sliceLiteral(v.value.bits) : `${cellLiteral(v.value)} <s`;
+    case 'cell': return cellLiteral(v.value);
+    case 'cont': return `{\n${indent(dumpBody(v.value, opts))}}`;
+    case 'cont_map': {
+      const entries = Array.from(v.value.entries(), ([k, fn]) => `${k}: {\n${indent(dumpBody(fn, opts))}}`);
+      return `{\n${indent(entries.join(',\n'))}\n}`;
+    }
+    case 'other': return String(v.value);
+  }
+}
+
+function fmtOp(st: IROpPrim, opts: IRDumpOptions): string {
+  const ins = st.inputs.map(({ name, value }) => `${name}=${fmtInput(value, opts)}`).join(', ');
+  const ops = st.operands.map(({ name, value }) => `${name}=${fmtOperand(value, opts)}`).join(', ');
+  return `${st.mnemonic}(${[ins, ops].filter(Boolean).join(' | ')})`;
+}
+
+// `out = phi(c: result 0, skip: v1)`: the value of each path, an input by its value
+function fmtPhi(st: IROpPrim, phi: IRPhi, opts: IRDumpOptions): string {
+  const sources = phi.sources.map((s) => {
+    if ('result' in s) return `${s.path}: result ${s.result}`;
+    const input = st.inputs.find((i) => i.name === s.input);
+    return `${s.path}: ${input ? fmtInput(input.value, opts) : s.input}`;
+  });
+  return `${phi.output} = phi(${sources.join(', ')})`;
+}
+
+const locComment = (st: { loc?: IROpPrim['loc'] }, opts: IRDumpOptions) =>
+  opts.locations && st.loc ? ` // ${formatLocation(st.loc)}` : '';
+
+function dumpBody(fn: IRFunction, opts: IRDumpOptions): string {
+  let out = fn.args.length ? `args ${fn.args.map((a) => a.id).join(', ')}\n` : '';
+  for (const st of fn.body) {
+    const outs = st.outputs.map((o) => o.value.id).join(', ');
+    const text = `${outs ? `${outs} = ` : ''}${fmtOp(st, opts)}`;
+    // Location after the first line: continuation operands span several lines
+    const [first, ...rest] = text.split('\n');
+    out += [first + locComment(st, opts), ...rest].join('\n') + '\n';
+    for (const phi of st.phis ?? []) out += `  ${fmtPhi(st, phi, opts)}\n`;
+  }
+  if (fn.result.length) out += `return ${fn.result.map(fmtRef).join(', ')}\n`;
+  if (fn.decompileError) out += `// decompile error: ${fn.decompileError}\n`;
+  for (const ins of fn.asmTail ?? []) {
+    const ops = ins.operands.map(({ name, value }) => `${name}=${fmtOperand(value, opts)}`).join(', ');
+    out += `asm ${ins.spec.mnemonic}${ops ? ` ${ops}` : ''}${locComment(ins, opts)}\n`;
+  }
+  if (fn.disassembleError) out += `// disassemble error: ${fn.disassembleError}\n`;
+  return out;
+}
+
+export function dumpIR(fn: IRFunction, name: string, opts: IRDumpOptions = {}): string {
+  return `${name} {\n${indent(dumpBody(fn, opts))}}`;
+}
+
+export function dumpProgram(p: Program, opts: IRDumpOptions = {}): string {
+  return programFunctions(p).map(({ name, methodId, fn }) =>
+    dumpIR(fn, methodId === null ? name : `${name} (${methodId})`, opts)).join('\n\n');
+}
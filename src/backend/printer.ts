@@ -1,11 +1,69 @@
 import type { Program } from "../core/program";
 import { IRFunction, IRInlineExpr, IRInputArg, IRValueDef, IRValueRef, IROpPrim, IROperandValue } from "../core/ir";
 import { registerPrinters } from "./stdImpl";
+import { methodNameFromId } from "../core/methodNames";
+import { applyDisplayHintsBigInt, applyDisplayHintsNumber } from "./displayHints";
 import { Builder } from "ton3-core";
+import { extractSourceMap, locationMarker, markersToComments, SourceMap } from "./sourceMap";
+import { funcTypeName } from "../analysis/types";
+import { isDictJump } from "../frontend/lifter/stackEffects";
 
 // Pretty printer for IR → textual pseudocode
-export function printIR(fn: IRFunction, opts?: { methodId?: number }): string {
-  return formatIR(fn, opts);
+
+export type PrintOptions = {
+  // Instruction locations as trailing `// @<cell hash>:<bit offset>+<bit length>` comments
+  locations?: boolean;
+  // Typed declarations (`int x = ...`) and signatures from inferred types (see analysis/types.ts)
+  types?: boolean;
+};
+
+// Set while printing with locations: statements carry source map markers (see sourceMap.ts).
+// Module-scoped so that continuation blocks rendered by statement printers get them too.
+let markLocations = false;
+
+// Markers for a statement and every op inlined into its inputs (inlined ops first)
+function statementMarkers(st: IROpPrim): string {
+  const inlined = st.inputs.flatMap(({ value }) => (value as any).kind === 'inline' ? [statementMarkers((value as IRInlineExpr).op)] : []);
+  return [...inlined, locationMarker(st.loc)].join('');
+}
+
+function withLocationMarkers(print: () => string): string {
+  const prev = markLocations;
+  markLocations = true;
+  try {
+    return print();
+  } finally {
+    markLocations = prev;
+  }
+}
+
+// Set while printing with types. Values declared so far in the function being printed are
+// shared with the continuation blocks rendered inside it, which assign merged outputs
+// declared before the branching statement.
+let printTypes = false;
+let declaredVars: Set<string> | null = null;
+
+function withTypes(print: () => string): string {
+  const prev = printTypes;
+  printTypes = true;
+  try {
+    return print();
+  } finally {
+    printTypes = prev;
+  }
+}
+
+// `topLevel` marks a method or entry function, as opposed to a continuation or a fragment
+export function printIR(fn: IRFunction, opts?: { methodId?: number }, topLevel = false): string {
+  return formatIR(fn, opts, topLevel);
+}
+
+// A single input as printed inside a statement (analyses quoting conditions)
+export function printExpression(a: IRInputArg): string {
+  if ((a as any).kind !== 'inline') return (a as IRValueRef).id;
+  const op = (a as IRInlineExpr).op;
+  const text = printIR({ kind: 'function', args: [], body: [{ ...op, outputs: [] }], result: [] });
+  return text.split('\n').slice(1, -1).map((l) => l.replace(/^ {4}/, '')).join(' ').replace(/;$/, '');
 }
 
 // Extension point: custom inline printers per instruction mnemonic
@@ -24,6 +82,62 @@ export type InlinePrinter = (st: IROpPrim, ctx: {
   opNum: (name: string) => number | undefined;          // numeric operand coerced to JS number if safe
 }) => string | null | undefined;
 
+export type InlineContext = Parameters<InlinePrinter>[1];
+
+// Helpers handed to printers of `st`, from the formatters of the output language being printed
+export function inlineContext(st: IROpPrim, fmt: {
+  formatInlineOperand: (v: IROperandValue) => string;
+  formatInputArg: (a: IRInputArg) => string;
+  formatInlineOp: (op: IROpPrim) => string;
+  precedenceOf: (mnemonic: string) => number;
+}): InlineContext {
+  const thisPrec = fmt.precedenceOf(st.mnemonic);
+  const operand = (name: string) => st.operands.find((o) => o.name === name)?.value as IROperandValue | undefined;
+  return {
+    formatInlineOperand: fmt.formatInlineOperand,
+    formatInputArg: fmt.formatInputArg,
+    in: (name: string) => {
+      const val = st.inputs.find((i) => i.name === name)?.value;
+      return val != null ? fmt.formatInputArg(val) : '';
+    },
+    inP: (name: string, _side?: 'left' | 'right') => {
+      const val = st.inputs.find((i) => i.name === name)?.value;
+      if (!val) return '';
+      if ((val as any).kind === 'inline') {
+        const child = (val as IRInlineExpr).op;
+        const childStr = fmt.formatInlineOp(child);
+        const needParens = fmt.precedenceOf(child.mnemonic) <= thisPrec;
+        return needParens ? `(${childStr})` : childStr;
+      } else {
+        return fmt.formatInputArg(val);
+      }
+    },
+    inRaw: (name: string) => st.inputs.find((i) => i.name === name)?.value,
+    op: (name: string) => {
+      const val = operand(name);
+      return val != null ? fmt.formatInlineOperand(val) : '';
+    },
+    opRaw: operand,
+    opInt: (name: string) => {
+      const v = operand(name);
+      if (!v) return undefined;
+      if (v.kind === 'int') return v.value;
+      if (v.kind === 'bigint') return v.value;
+      return undefined;
+    },
+    opNum: (name: string) => {
+      const v = operand(name);
+      if (!v) return undefined;
+      if (v.kind === 'int') return v.value;
+      if (v.kind === 'bigint') {
+        const asNum = Number(v.value);
+        return Number.isFinite(asNum) ? asNum : undefined;
+      }
+      return undefined;
+    },
+  };
+}
+
 const inlinePrinters = new Map<string, InlinePrinter>();
 const inlinePrintersByPrefix: Array<{ prefix: string; printer: InlinePrinter }> = [];
 
@@ -64,7 +178,27 @@ export function registerInlinePrinterPrefix(prefix: string, fn: InlinePrinter) {
   inlinePrintersByPrefix.push({ prefix, printer: fn });
 }
 
-function formatIR(fn: IRFunction, opts?: { methodId?: number }): string {
+// Known names of method ids (receivers, bundled and user-registered get-method names)
+function nameFromMethodId(id?: number): string | undefined {
+  return id === undefined ? undefined : methodNameFromId(id);
+}
+
+// Name used to refer to a method from call sites and in JSON/graph output
+export function methodDisplayName(id: number): string {
+  return nameFromMethodId(id) ?? `method_${id}`;
+}
+
+function formatIR(fn: IRFunction, opts: { methodId?: number } | undefined, topLevel: boolean): string {
+  if (!printTypes || declaredVars) return formatFunction(fn, opts, topLevel);
+  declaredVars = new Set();
+  try {
+    return formatFunction(fn, opts, topLevel);
+  } finally {
+    declaredVars = null;
+  }
+}
+
+function formatFunction(fn: IRFunction, opts: { methodId?: number } | undefined, topLevel: boolean): string {
   // Operator precedence for selected mnemonics to drive parentheses in inline printing
   // Higher numbers bind tighter.
   const precedenceOf = (m: string): number => {
@@ -102,10 +236,18 @@ function formatIR(fn: IRFunction, opts?: { methodId?: number }): string {
   const fmtTypes = (t?: IRValueRef['types']) => t && t.length ? `: ${t.join('|')}` : '';
   const fmtValRef = (v: IRValueRef) => `${resolveAlias(v.id)}`;
   const fmtValDef = (v: IRValueDef) => `${v.id}`;
+  const fmtTypedDef = (v: IRValueDef) => `${funcTypeName(v.types)} ${v.id}`;
+  // Outputs of a statement not declared yet; they count as declared from here on
+  const declareOutputs = (st: IROpPrim): IRValueDef[] => {
+    if (!declaredVars) return [];
+    const pending = st.outputs.map((o) => o.value).filter((v) => !declaredVars!.has(v.id));
+    for (const v of pending) declaredVars.add(v.id);
+    return pending;
+  };
 
   const formatInlineFn = (f: IRFunction): string => {
     const indentString = (str: string, count: number, indent = " ") => str.replace(/^/gm, indent.repeat(count));
-    return indentString(formatIR(f), 4).trimStart();
+    return indentString(formatIR(f, undefined, false), 4).trimStart();
   };
 
   const formatInlineMap = (m: Map<number, IRFunction>): string => {
@@ -130,60 +272,6 @@ function formatIR(fn: IRFunction, opts?: { methodId?: number }): string {
     } catch {}
   };
 
-  const applyDisplayHintsNumber = (n: number, hints?: any[]): { text?: string; value: number } => {
-    if (!hints || hints.length === 0) return { value: n };
-    let v = n;
-    let mode: 'stack' | 'register' | null = null;
-    for (const h of hints) {
-      if (!h || typeof h !== 'object') continue;
-      const t = (h as any).type;
-      if (t === 'add') {
-        const delta = Number((h as any).value ?? 0);
-        if (Number.isFinite(delta)) v = v + delta;
-      } else if (t === 'pushint4') {
-        if (v > 10) v = v - 16;
-      } else if (t === 'optional_nargs') {
-        if (v === 15) v = -1;
-      } else if (t === 'plduz') {
-        v = 32 * (v + 1);
-      } else if (t === 'stack') {
-        mode = 'stack';
-      } else if (t === 'register') {
-        mode = 'register';
-      }
-    }
-    if (mode === 'stack') return { text: `s${v}`, value: v };
-    if (mode === 'register') return { text: `c${v}`, value: v };
-    return { value: v };
-  };
-
-  const applyDisplayHintsBigInt = (n: bigint, hints?: any[]): { text?: string; value: bigint } => {
-    if (!hints || hints.length === 0) return { value: n };
-    let v = n;
-    let mode: 'stack' | 'register' | null = null;
-    for (const h of hints) {
-      if (!h || typeof h !== 'object') continue;
-      const t = (h as any).type;
-      if (t === 'add') {
-        const delta = BigInt(Number((h as any).value ?? 0));
-        v = v + delta;
-      } else if (t === 'pushint4') {
-        if (v > 10n) v = v - 16n;
-      } else if (t === 'optional_nargs') {
-        if (v === 15n) v = -1n;
-      } else if (t === 'plduz') {
-        v = 32n * (v + 1n);
-      } else if (t === 'stack') {
-        mode = 'stack';
-      } else if (t === 'register') {
-        mode = 'register';
-      }
-    }
-    if (mode === 'stack') return { text: `s${v.toString()}`, value: v };
-    if (mode === 'register') return { text: `c${v.toString()}`, value: v };
-    return { value: v };
-  };
-
   const formatInlineOperand = (v: IROperandValue): string => {
     const hintsInfo = operandDisplayHints.get(v);
     const hints = hintsInfo?.hints;
@@ -232,51 +320,7 @@ function formatIR(fn: IRFunction, opts?: { methodId?: number }): string {
     preloadOperandDisplayHints(st);
 
     // Custom printer hook first
-    const thisPrec = precedenceOf(st.mnemonic);
-    const ctx = {
-      formatInlineOperand,
-      formatInputArg,
-      in: (name: string) => {
-        const val = st.inputs.find((i) => i.name === name)?.value;
-        return val != null ? formatInputArg(val) : '';
-      },
-      inP: (name: string, _side?: 'left' | 'right') => {
-        const val = st.inputs.find((i) => i.name === name)?.value;
-        if (!val) return '';
-        if ((val as any).kind === 'inline') {
-          const child = (val as IRInlineExpr).op;
-          const childStr = formatInlineOpAsExpr(child);
-          const childPrec = precedenceOf(child.mnemonic);
-          const needParens = childPrec <= thisPrec;
-          return needParens ? `(${childStr})` : childStr;
-        } else {
-          return formatInputArg(val);
-        }
-      },
-      inRaw: (name: string) => st.inputs.find((i) => i.name === name)?.value,
-      op: (name: string) => {
-        const val = st.operands.find((o) => o.name === name)?.value as IROperandValue | undefined;
-        return val != null ? formatInlineOperand(val) : '';
-      },
-      opRaw: (name: string) => st.operands.find((o) => o.name === name)?.value as IROperandValue | undefined,
-      opInt: (name: string) => {
-        const v = st.operands.find((o) => o.name === name)?.value as IROperandValue | undefined;
-        if (!v) return undefined;
-        if (v.kind === 'int') return v.value;
-        if (v.kind === 'bigint') return v.value;
-        return undefined;
-      },
-      opNum: (name: string) => {
-        const v = st.operands.find((o) => o.name === name)?.value as IROperandValue | undefined;
-        if (!v) return undefined;
-        if (v.kind === 'int') return v.value;
-        if (v.kind === 'bigint') {
-          const asNum = Number(v.value);
-          return Number.isFinite(asNum) ? asNum : undefined;
-        }
-        return undefined;
-      },
-    } as const;
+    const ctx = inlineContext(st, { formatInlineOperand, formatInputArg, formatInlineOp: formatInlineOpAsExpr, precedenceOf });
 
     const hook = inlinePrinters.get(st.mnemonic);
     if (hook) {
@@ -326,65 +370,27 @@ function formatIR(fn: IRFunction, opts?: { methodId?: number }): string {
 
   // (stmt printers registry is module-scoped; see top of file)
 
-  const argsStr = fn.args.map(a => fmtValDef(a)).join(', ');
-  const nameFromMethodId = (id?: number) => {
-    if (id === -1) return 'recv_external';
-    if (id === 0) return 'recv_internal';
-    return undefined;
-  };
+  const argsStr = fn.args.map(a => printTypes ? fmtTypedDef(a) : fmtValDef(a)).join(', ');
+  for (const a of fn.args) declaredVars?.add(a.id);
   const nameStr = fn.name ? ` ${fn.name}` : (opts?.methodId !== undefined ? (nameFromMethodId(opts.methodId) ? ` ${nameFromMethodId(opts.methodId)}` : '') : '');
   const header = opts?.methodId !== undefined ? `/* methodId: ${opts.methodId} */\n` : '';
-  let out = header + `function${nameStr} (${argsStr}) {\n`;
+  const resultTypes = fn.result.map(r => funcTypeName(r.types));
+  const returnsStr = !printTypes || !resultTypes.length ? '' : resultTypes.length === 1 ? `: ${resultTypes[0]}` : `: (${resultTypes.join(', ')})`;
+  let out = header + `function${nameStr} (${argsStr})${returnsStr} {\n`;
+  // A function (not a continuation) ending in a resolved JMPDICT returns what the callee leaves on top
+  const last = fn.body[fn.body.length - 1];
+  const returnsCallee = (st: IROpPrim) => st.outputs.every((o, i) => fn.result[fn.result.length - st.outputs.length + i]?.id === o.value.id);
+  const tailJump = topLevel && last && isDictJump(last.spec) && last.callee && returnsCallee(last) ? last : undefined;
+  const tailCallee = tailJump?.callee;
   for (const st of fn.body) {
+    if (st === tailJump) break;
     // Preload operand display hints for statement-level printers
     preloadOperandDisplayHints(st);
 
     // Prepare context for statement printers
     const stmtCtx = {
-      formatInlineOperand,
-      formatInputArg,
-      in: (name: string) => {
-        const val = st.inputs.find((i) => i.name === name)?.value;
-        return val != null ? formatInputArg(val) : '';
-      },
-      inP: (name: string, _side?: 'left' | 'right') => {
-        const thisPrec = precedenceOf(st.mnemonic);
-        const val = st.inputs.find((i) => i.name === name)?.value;
-        if (!val) return '';
-        if ((val as any).kind === 'inline') {
-          const child = (val as IRInlineExpr).op;
-          const childStr = formatInlineOpAsExpr(child);
-          const childPrec = precedenceOf(child.mnemonic);
-          const needParens = childPrec <= thisPrec;
-          return needParens ? `(${childStr})` : childStr;
-        } else {
-          return formatInputArg(val);
-        }
-      },
-      inRaw: (name: string) => st.inputs.find((i) => i.name === name)?.value,
+      ...inlineContext(st, { formatInlineOperand, formatInputArg, formatInlineOp: formatInlineOpAsExpr, precedenceOf }),
       outRaw: (name: string) => st.outputs.find((i) => i.name === name)?.value,
-      op: (name: string) => {
-        const val = st.operands.find((o) => o.name === name)?.value as IROperandValue | undefined;
-        return val != null ? formatInlineOperand(val) : '';
-      },
-      opRaw: (name: string) => st.operands.find((o) => o.name === name)?.value as IROperandValue | undefined,
-      opInt: (name: string) => {
-        const v = st.operands.find((o) => o.name === name)?.value as IROperandValue | undefined;
-        if (!v) return undefined;
-        if (v.kind === 'int') return v.value;
-        if (v.kind === 'bigint') return v.value;
-        return undefined;
-      },
-      opNum: (name: string) => {
-        const v = st.operands.find((o) => o.name === name)?.value as IROperandValue | undefined;
-        if (!v) return undefined;
-        if (v.kind === 'int') return v.value;
-        if (v.kind === 'bigint') {
-          const asNum = Number(v.value);
-          return Number.isFinite(asNum) ? asNum : undefined;
-        }
-        return undefined;
-      },
       alias: (fromId: string, toId: string) => { varAlias.set(fromId, toId); },
       ensureSliceAnchor: (sliceIn: IRInputArg | undefined, sliceOut: IRValueDef | undefined) => {
         if (!sliceIn || !sliceOut) return null;
@@ -404,8 +410,21 @@ function formatIR(fn: IRFunction, opts?: { methodId?: number }): string {
     // Try statement printers by exact mnemonic and by prefix
     const stmtHook = stmtPrinters.get(st.mnemonic) ?? stmtPrintersByPrefix.find(x => st.mnemonic.startsWith(x.prefix))?.printer;
     if (stmtHook) {
+      const pending = declareOutputs(st);
       const lines = stmtHook(st, stmtCtx);
       if (lines && lines.length) {
+        // Values the statement assigns first get their type there, others are declared before it
+        const undeclared = pending.filter(v => resolveAlias(v.id) === v.id);
+        const first = undeclared.find(v => lines[0].startsWith(`${v.id} = `));
+        if (first) lines[0] = `${funcTypeName(first.types)} ${lines[0]}`;
+        for (const v of undeclared) {
+          if (v !== first) out += `    ${fmtTypedDef(v)};\n`;
+        }
+        // Location goes on the first line the statement produced
+        if (markLocations) {
+          const [first, ...rest] = lines[0].split('\n');
+          lines[0] = [first + statementMarkers(st), ...rest].join('\n');
+        }
         for (const l of lines) {
           // Allow statement printers to emit multi-line blocks without forced semicolons
           if (l.includes('\n')) {
@@ -417,15 +436,24 @@ function formatIR(fn: IRFunction, opts?: { methodId?: number }): string {
         }
         continue;
       }
+      for (const v of pending) declaredVars?.delete(v.id);
     }
 
     // Default formatting
-    const outs = st.outputs.map(o => fmtValDef(o.value)).join(', ');
+    const pending = declareOutputs(st);
+    const fmtOut = (v: IRValueDef) => pending.includes(v) ? fmtTypedDef(v) : fmtValDef(v);
+    const outs = declaredVars && pending.length
+      ? (st.outputs.length > 1 ? `(${st.outputs.map(o => fmtOut(o.value)).join(', ')})` : fmtOut(st.outputs[0].value))
+      : st.outputs.map(o => fmtValDef(o.value)).join(', ');
     const expr = formatInlineOpAsExpr(st);
-    out += `    ${outs ? outs + ' = ' : ''}${expr};\n`;
+    out += `    ${outs ? outs + ' = ' : ''}${expr};${markLocations ? statementMarkers(st) : ''}\n`;
   }
-  if (fn.result.length) {
-    out += `    return ${fn.result.map(v => `${fmtValRef(v)}${fmtTypes(v.types)}`).join(', ')}\n`;
+  if (tailJump && tailCallee) {
+    const below = fn.result.slice(0, fn.result.length - tailJump.outputs.length).map(v => `${fmtValRef(v)}${printTypes ? '' : fmtTypes(v.types)}`);
+    const call = `${methodDisplayName(tailCallee.methodId)}(${tailJump.inputs.map(i => formatInputArg(i.value)).join(', ')})`;
+    out += `    return ${[...below, call].join(', ')}${markLocations ? statementMarkers(tailJump) : ''}\n`;
+  } else if (fn.result.length) {
+    out += `    return ${fn.result.map(v => `${fmtValRef(v)}${printTypes ? '' : fmtTypes(v.types)}`).join(', ')}\n`;
   }
   if (fn.decompileError) out += `    // decompilation error: ${fn.decompileError}\n`;
   if (fn.asmTail && fn.asmTail.length) {
@@ -443,7 +471,7 @@ function formatIR(fn: IRFunction, opts?: { methodId?: number }): string {
         }
       } catch {}
       const ops = ins.operands.map(({ name, value }) => `${name}=${formatInlineOperand(value as IROperandValue)}`).join(', ');
-      out += `    ${ins.spec.mnemonic} ${ops}\n`;
+      out += `    ${ins.spec.mnemonic} ${ops}${markLocations ? locationMarker(ins.loc) : ''}\n`;
     }
   }
   if (fn.disassembleError) out += `    // disassemble error: ${fn.disassembleError}\n`;
@@ -454,14 +482,29 @@ function formatIR(fn: IRFunction, opts?: { methodId?: number }): string {
   return out;
 }
 
-export function printProgram(p: Program): string {
+export function printProgram(p: Program, opts: PrintOptions = {}): string {
+  const render = () => opts.types ? withTypes(() => renderProgram(p)) : renderProgram(p);
+  if (!opts.locations) return render();
+  return markersToComments(withLocationMarkers(render));
+}
+
+// Program text without location comments plus a source map of its lines
+export function printProgramWithSourceMap(p: Program, opts: Pick<PrintOptions, 'types'> = {}): { text: string; sourceMap: SourceMap } {
+  return extractSourceMap(withLocationMarkers(() => opts.types ? withTypes(() => renderProgram(p)) : renderProgram(p)));
+}
+
+function renderProgram(p: Program): string {
   if (p.kind === 'single') {
-    return printIR(p.entry);
+    return printIR(p.entry, undefined, true);
   }
   const pairs = Array.from(p.methods.entries()).sort((a, b) => a[0] - b[0]);
   const out: string[] = [];
+  if (p.entry) {
+    out.push(printIR(p.entry, undefined, true));
+    out.push("");
+  }
   for (const [id, fn] of pairs) {
-    out.push(printIR(fn, { methodId: id }));
+    out.push(printIR(fn, { methodId: id }, true));
     out.push("");
   }
   return out.join("\n");
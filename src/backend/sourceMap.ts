@@ -0,0 +1,57 @@
+import type { IRSourceLocation } from "../core/ir";
+
+// Instruction locations in printed output.
+// Printers tag lines with invisible markers while rendering (nested blocks are
+// re-indented and spliced by statement printers, so line numbers are unknown
+// until the whole output is assembled); the finished text is then either
+// turned into `// @<hash>:<offset>+<length>` comments or stripped into a source map.
+
+export type SourceMapEntry = IRSourceLocation & {
+  line: number; // 1-based line of the output the instruction was printed on
+};
+
+export type SourceMap = {
+  version: 1;
+  mappings: SourceMapEntry[];
+};
+
+// Length of the cell hash prefix shown in comments; the source map keeps full hashes
+const COMMENT_HASH_LENGTH = 8;
+
+const MARKER = /\u0001([0-9a-f]+):(\d+):(\d+)\u0001/g;
+
+export function locationMarker(loc: IRSourceLocation | undefined): string {
+  return loc ? `\u0001${loc.cellHash}:${loc.bitOffset}:${loc.bitLength}\u0001` : '';
+}
+
+export function formatLocation(loc: IRSourceLocation): string {
+  return `@${loc.cellHash.slice(0, COMMENT_HASH_LENGTH)}:${loc.bitOffset}+${loc.bitLength}`;
+}
+
+const parseMarkers = (line: string): IRSourceLocation[] =>
+  Array.from(line.matchAll(MARKER), (m) => ({ cellHash: m[1], bitOffset: Number(m[2]), bitLength: Number(m[3]) }));
+
+// Markers become trailing comments on the lines carrying them
+export function markersToComments(text: string): string {
+  return text.split('\n').map((line) => {
+    const locs = parseMarkers(line);
+    if (locs.length === 0) return line;
+    return `${line.replace(MARKER, '').trimEnd()} // ${locs.map(formatLocation).join(' ')}`;
+  }).join('\n');
+}
+
+// Markers are removed from the text and collected into a source map
+export function extractSourceMap(text: string): { text: string; sourceMap: SourceMap } {
+  const mappings: SourceMapEntry[] = [];
+  const lines = text.split('\n').map((line, i) => {
+    const locs = parseMarkers(line);
+    if (locs.length === 0) return line;
+    for (const loc of locs) mappings.push({ line: i + 1, ...loc });
+    return line.replace(MARKER, '').trimEnd();
+  });
+  return { text: lines.join('\n'), sourceMap: { version: 1, mappings } };
+}
+
+export function sourceMapToJSON(map: SourceMap): string {
+  return JSON.stringify(map, null, 2);
+}
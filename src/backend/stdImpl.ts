@@ -1,9 +1,13 @@
 // Stdlib-friendly printers for TVM instructions.
 // Registers inline and statement printers to render IR closer to FunC stdlib API.
 
-import { printIR } from "./printer";
+import { methodDisplayName, printIR } from "./printer";
 import { registerInlinePrinter, registerInlinePrinterPrefix, registerStmtPrinter } from "./printer";
+import type { InlinePrinter } from "./printer";
 import type { IRFunction, IRInputArg, IRValueRef, IROpPrim } from "../core/ir";
+import type { Continuation } from "../gen/tvm-spec";
+import { loopBranch, tryBranch } from "../frontend/lifter/stackEffects";
+import { exitCodeName } from "../core/exitCodes";
 
 // Helpers
 const comma = (xs: string[]) => xs.join(", ");
@@ -434,20 +438,24 @@ export function registerPrinters() {
     return result;
   });
 
-  // Exceptions (throw/throw_if/etc.)
-  registerInlinePrinter('THROW', (_st, ctx) => `throw(${ctx.op('n')})`);
-  registerInlinePrinter('THROW_SHORT', (_st, ctx) => `throw(${ctx.op('n')})`);
+  // Exceptions (throw/throw_if/etc.); constant codes print their registered names
+  const code = (ctx: Parameters<InlinePrinter>[1]) => {
+    const n = ctx.opNum('n');
+    return (n === undefined ? undefined : exitCodeName(n)) ?? ctx.op('n');
+  };
+  registerInlinePrinter('THROW', (_st, ctx) => `throw(${code(ctx)})`);
+  registerInlinePrinter('THROW_SHORT', (_st, ctx) => `throw(${code(ctx)})`);
   registerInlinePrinter('THROWANY', (_st, ctx) => `throw(${ctx.in('n')})`);
-  registerInlinePrinter('THROWIF', (_st, ctx) => `throw_if(${ctx.op('n')}, ${ctx.in('f')})`);
-  registerInlinePrinter('THROWIF_SHORT', (_st, ctx) => `throw_if(${ctx.op('n')}, ${ctx.in('f')})`);
+  registerInlinePrinter('THROWIF', (_st, ctx) => `throw_if(${code(ctx)}, ${ctx.in('f')})`);
+  registerInlinePrinter('THROWIF_SHORT', (_st, ctx) => `throw_if(${code(ctx)}, ${ctx.in('f')})`);
   registerInlinePrinter('THROWANYIF', (_st, ctx) => `throw_if(${ctx.in('n')}, ${ctx.in('f')})`);
-  registerInlinePrinter('THROWIFNOT', (_st, ctx) => `throw_unless(${ctx.op('n')}, ${ctx.in('f')})`);
-  registerInlinePrinter('THROWIFNOT_SHORT', (_st, ctx) => `throw_unless(${ctx.op('n')}, ${ctx.in('f')})`);
+  registerInlinePrinter('THROWIFNOT', (_st, ctx) => `throw_unless(${code(ctx)}, ${ctx.in('f')})`);
+  registerInlinePrinter('THROWIFNOT_SHORT', (_st, ctx) => `throw_unless(${code(ctx)}, ${ctx.in('f')})`);
   registerInlinePrinter('THROWANYIFNOT', (_st, ctx) => `throw_unless(${ctx.in('n')}, ${ctx.in('f')})`);
-  registerInlinePrinter('THROWARG', (_st, ctx) => `throw_arg(${ctx.in('x')}, ${ctx.op('n')})`);
-  registerInlinePrinter('THROWARG_SHORT', (_st, ctx) => `throw_arg(${ctx.in('x')}, ${ctx.op('n')})`);
-  registerInlinePrinter('THROWARGIF', (_st, ctx) => `throw_arg_if(${ctx.in('x')}, ${ctx.op('n')}, ${ctx.in('f')})`);
-  registerInlinePrinter('THROWARGIFNOT', (_st, ctx) => `throw_arg_unless(${ctx.in('x')}, ${ctx.op('n')}, ${ctx.in('f')})`);
+  registerInlinePrinter('THROWARG', (_st, ctx) => `throw_arg(${ctx.in('x')}, ${code(ctx)})`);
+  registerInlinePrinter('THROWARG_SHORT', (_st, ctx) => `throw_arg(${ctx.in('x')}, ${code(ctx)})`);
+  registerInlinePrinter('THROWARGIF', (_st, ctx) => `throw_arg_if(${ctx.in('x')}, ${code(ctx)}, ${ctx.in('f')})`);
+  registerInlinePrinter('THROWARGIFNOT', (_st, ctx) => `throw_arg_unless(${ctx.in('x')}, ${code(ctx)}, ${ctx.in('f')})`);
   registerInlinePrinter('THROWARGANY', (_st, ctx) => `throw_arg(${ctx.in('x')}, ${ctx.in('n')})`);
   registerInlinePrinter('THROWARGANYIF', (_st, ctx) => `throw_arg_if(${ctx.in('x')}, ${ctx.in('n')}, ${ctx.in('f')})`);
   registerInlinePrinter('THROWARGANYIFNOT', (_st, ctx) => `throw_arg_unless(${ctx.in('x')}, ${ctx.in('n')}, ${ctx.in('f')})`);
@@ -553,29 +561,46 @@ export function registerPrinters() {
     return outLines.map(l => `    ${l.trimEnd()}`).join('\n');
   };
 
-  const emitIfBlock = (st: IROpPrim, cond: string, thenCont: { label: string; fn?: IRFunction }, elseCont?: { label: string; fn?: IRFunction }, opts?: { terminate?: boolean }) => {
-    const outNames = st.outputs.map(o => o.value.id);
-    // THEN branch
-    let thenBlock = '/* missing continuation */';
-    if (thenCont.fn) {
-      const rename = buildArgRenameMap(st, thenCont.label, thenCont.fn);
-      const renamed = cloneWithIdRemap(thenCont.fn, rename);
-      thenBlock = renderContAsBlock(renamed, outNames);
+  // Assignments to the merged outputs on one path, from the phi nodes of the statement
+  // (continuation results and inputs the path leaves untouched); IR without phi nodes
+  // assigns the continuation results in order
+  const pathAssignments = (st: IROpPrim, ctx: { in: (name: string) => string }, path: string, cont: IRFunction | undefined): string[] => {
+    if (!st.phis) {
+      return cont ? st.outputs.slice(0, cont.result.length).map((o, i) => `${o.value.id} = ${cont.result[i].id};`) : [];
+    }
+    const lines: string[] = [];
+    for (const phi of st.phis) {
+      const source = phi.sources.find(s => s.path === path);
+      if (!source) continue;
+      const rhs = 'result' in source ? cont?.result[source.result]?.id : ctx.in(source.input);
+      if (rhs !== undefined && rhs !== phi.output) lines.push(`${phi.output} = ${rhs};`);
+    }
+    return lines;
+  };
+
+  const renderPath = (st: IROpPrim, ctx: { in: (name: string) => string }, branch: { label: string; fn?: IRFunction }): string => {
+    if (!branch.fn) return '/* missing continuation */';
+    let renamed = cloneWithIdRemap(branch.fn, buildArgRenameMap(st, branch.label, branch.fn));
+    // Results computed in the continuation are written straight into the merged outputs
+    const merged = (st.phis ?? []).flatMap(phi => phi.sources.flatMap(s => s.path === branch.label && 'result' in s ? [{ output: phi.output, id: renamed.result[s.result]?.id }] : []));
+    for (const { output, id } of merged) {
+      if (!id || merged.filter(m => m.id === id).length > 1) continue;
+      if (!renamed.body.some(b => b.outputs.some(o => o.value.id === id))) continue;
+      renamed = { ...renamed, body: renamed.body.map(b => renameValue(b, id, output)), result: renamed.result.map(r => r.id === id ? { ...r, id: output } : r) };
     }
+    const assignments = pathAssignments(st, ctx, branch.label, renamed).map(l => `    ${l}`);
+    return [renderContAsBlock(renamed, null), ...assignments].filter(Boolean).join('\n');
+  };
+
+  // Merged outputs are assigned at the end of every branch; when the continuation is
+  // skipped (IF without else) an else branch assigns the values left on the stack
+  const emitIfBlock = (st: IROpPrim, ctx: { in: (name: string) => string }, cond: string, thenCont: { label: string; fn?: IRFunction }, elseCont?: { label: string; fn?: IRFunction }, opts?: { terminate?: boolean }) => {
+    let thenBlock = renderPath(st, ctx, thenCont);
     if (opts?.terminate) {
       thenBlock = thenBlock ? `${thenBlock}\n    return` : '    return';
     }
-    // ELSE branch
-    let elseBlock: string | null = null;
-    if (elseCont) {
-      if (elseCont.fn) {
-        const rename2 = buildArgRenameMap(st, elseCont.label, elseCont.fn);
-        const renamed2 = cloneWithIdRemap(elseCont.fn, rename2);
-        elseBlock = renderContAsBlock(renamed2, outNames);
-      } else {
-        elseBlock = '/* missing continuation */';
-      }
-    }
+    const skipped = pathAssignments(st, ctx, 'skip', undefined).map(l => `    ${l}`).join('\n');
+    const elseBlock = elseCont ? renderPath(st, ctx, elseCont) : skipped || null;
     if (elseBlock != null) {
       return [`if (${cond}) {\n${thenBlock}\n} else {\n${elseBlock}\n}`];
     } else {
@@ -588,80 +613,241 @@ export function registerPrinters() {
     const f = ctx.in('f');
     const c = getContinuationFromInputOrOperand(st, 'c');
     const c2 = getContinuationFromInputOrOperand(st, 'c2');
-    return emitIfBlock(st, f, { label: 'c', fn: c }, { label: 'c2', fn: c2 });
+    return emitIfBlock(st, ctx, f, { label: 'c', fn: c }, { label: 'c2', fn: c2 });
   });
 
   registerStmtPrinter('IF', (st, ctx) => {
     const f = ctx.in('f');
     const c = getContinuationFromInputOrOperand(st, 'c');
-    return emitIfBlock(st, f, { label: 'c', fn: c });
+    return emitIfBlock(st, ctx, f, { label: 'c', fn: c });
   });
 
   registerStmtPrinter('IFNOT', (st, ctx) => {
     const f = ctx.in('f');
     const c = getContinuationFromInputOrOperand(st, 'c');
-    return emitIfBlock(st, `!(${f})`, { label: 'c', fn: c });
+    return emitIfBlock(st, ctx, `!(${f})`, { label: 'c', fn: c });
   });
 
   // Reference variants
   registerStmtPrinter('IFREF', (st, ctx) => {
     const f = ctx.in('f');
     const c = getContinuationFromInputOrOperand(st, 'c');
-    return emitIfBlock(st, f, { label: 'c', fn: c });
+    return emitIfBlock(st, ctx, f, { label: 'c', fn: c });
   });
 
   registerStmtPrinter('IFNOTREF', (st, ctx) => {
     const f = ctx.in('f');
     const c = getContinuationFromInputOrOperand(st, 'c');
-    return emitIfBlock(st, `!(${f})`, { label: 'c', fn: c });
+    return emitIfBlock(st, ctx, `!(${f})`, { label: 'c', fn: c });
   });
 
   registerStmtPrinter('IFELSEREF', (st, ctx) => {
     const f = ctx.in('f');
     const c = getContinuationFromInputOrOperand(st, 'c');
     const c2 = getContinuationFromInputOrOperand(st, 'c2');
-    return emitIfBlock(st, f, { label: 'c', fn: c }, { label: 'c2', fn: c2 });
+    return emitIfBlock(st, ctx, f, { label: 'c', fn: c }, { label: 'c2', fn: c2 });
   });
 
   registerStmtPrinter('IFREFELSE', (st, ctx) => {
     const f = ctx.in('f');
     const c = getContinuationFromInputOrOperand(st, 'c');
     const c2 = getContinuationFromInputOrOperand(st, 'c2');
-    return emitIfBlock(st, f, { label: 'c', fn: c }, { label: 'c2', fn: c2 });
+    return emitIfBlock(st, ctx, f, { label: 'c', fn: c }, { label: 'c2', fn: c2 });
   });
 
   registerStmtPrinter('IFREFELSEREF', (st, ctx) => {
     const f = ctx.in('f');
     const c1 = getContinuationFromInputOrOperand(st, 'c1');
     const c2 = getContinuationFromInputOrOperand(st, 'c2');
-    return emitIfBlock(st, f, { label: 'c1', fn: c1 }, { label: 'c2', fn: c2 });
+    return emitIfBlock(st, ctx, f, { label: 'c1', fn: c1 }, { label: 'c2', fn: c2 });
   });
 
   // Jump variants (no merge of results; only then-branch present)
   registerStmtPrinter('IFJMP', (st, ctx) => {
     const f = ctx.in('f');
     const c = getContinuationFromInputOrOperand(st, 'c');
-    return emitIfBlock(st, f, { label: 'c', fn: c }, undefined, { terminate: true });
+    return emitIfBlock(st, ctx, f, { label: 'c', fn: c }, undefined, { terminate: true });
   });
 
   registerStmtPrinter('IFNOTJMP', (st, ctx) => {
     const f = ctx.in('f');
     const c = getContinuationFromInputOrOperand(st, 'c');
-    return emitIfBlock(st, `!(${f})`, { label: 'c', fn: c }, undefined, { terminate: true });
+    return emitIfBlock(st, ctx, `!(${f})`, { label: 'c', fn: c }, undefined, { terminate: true });
   });
 
   registerStmtPrinter('IFJMPREF', (st, ctx) => {
     const f = ctx.in('f');
     const c = getContinuationFromInputOrOperand(st, 'c');
-    return emitIfBlock(st, f, { label: 'c', fn: c }, undefined, { terminate: true });
+    return emitIfBlock(st, ctx, f, { label: 'c', fn: c }, undefined, { terminate: true });
   });
 
   registerStmtPrinter('IFNOTJMPREF', (st, ctx) => {
     const f = ctx.in('f');
     const c = getContinuationFromInputOrOperand(st, 'c');
-    return emitIfBlock(st, `!(${f})`, { label: 'c', fn: c }, undefined, { terminate: true });
+    return emitIfBlock(st, ctx, `!(${f})`, { label: 'c', fn: c }, undefined, { terminate: true });
   });
 
+  // Loops (REPEAT/UNTIL/WHILE/AGAIN with their *END and *BRK forms). Loop variables are the
+  // statement outputs: they start from the `loop_<i>` inputs, body arguments are renamed to
+  // them and body results are assigned back at the end of every iteration.
+  const loopPart = (st: IROpPrim, part: Continuation): IRFunction | undefined => {
+    if (part.type === 'cc') return getContinuationFromInputOrOperand(st, 'body');
+    return part.type === 'variable' ? getContinuationFromInputOrOperand(st, part.var_name) : undefined;
+  };
+
+  const readsAny = (st: IROpPrim, ids: Set<string>): boolean => st.inputs.some(({ value }) =>
+    (value as any).kind === 'inline' ? readsAny((value as any).op as IROpPrim, ids) : ids.has((value as IRValueRef).id));
+
+  // Body of one loop part; with `withFlag` its top result is the loop condition, which is
+  // folded into an expression when the last statement computes nothing else
+  const renameValue = (st: IROpPrim, from: string, to: string): IROpPrim => ({
+    ...st,
+    inputs: st.inputs.map(({ name, value }) => ({
+      name,
+      value: (value as any).kind === 'inline'
+        ? { kind: 'inline', op: renameValue((value as any).op as IROpPrim, from, to) } as IRInputArg
+        : (value as IRValueRef).id === from ? { ...(value as IRValueRef), id: to } : value,
+    })),
+    outputs: st.outputs.map(o => o.value.id === from ? { name: o.name, value: { ...o.value, id: to } } : o),
+  });
+
+  const renderLoopPart = (st: IROpPrim, cont: IRFunction | undefined, withFlag: boolean): { block: string; flag?: IRInputArg } => {
+    if (!cont) return { block: '    /* missing continuation */' };
+    const vars = st.outputs.map(o => o.value.id).slice(st.outputs.length - cont.args.length);
+    const renamed = cloneWithIdRemap(cont, new Map(cont.args.map((a, i) => [a.id, vars[i]])));
+    let body = renamed.body;
+    let flag: IRValueRef | IRInputArg | undefined = withFlag ? renamed.result[renamed.result.length - 1] : undefined;
+    const results = renamed.result.slice(0, cont.args.length);
+    // A result computed in the body is written straight into its loop variable when
+    // nothing reads the old value of that variable afterwards
+    results.forEach((r, i) => {
+      const def = body.findIndex(b => b.outputs.some(o => o.value.id === r.id));
+      if (r.id === vars[i] || def < 0 || results.some((x, j) => j !== i && x.id === r.id)) return;
+      if (body.slice(def + 1).some(b => readsAny(b, new Set([vars[i]])))) return;
+      body = body.map(b => renameValue(b, r.id, vars[i]));
+      if (flag && (flag as IRValueRef).id === r.id) flag = { ...(flag as IRValueRef), id: vars[i] };
+      results[i] = { ...r, id: vars[i] };
+    });
+    const last = body[body.length - 1];
+    if (flag && last && last.outputs.length === 1 && last.outputs[0].value.id === (flag as IRValueRef).id) {
+      const id = last.outputs[0].value.id;
+      const used = results.some(r => r.id === id) || body.some(b => b.inputs.some(i => (i.value as any).kind !== 'inline' && (i.value as IRValueRef).id === id));
+      // The condition is evaluated after the loop variables are assigned
+      const reassigned = new Set(vars.filter((v, i) => results[i].id !== v));
+      if (!used && !readsAny(last, reassigned)) {
+        flag = { kind: 'inline', op: last };
+        body = body.slice(0, -1);
+      }
+    }
+    const lines = [renderContAsBlock({ ...renamed, body, result: [] }, null)].filter(Boolean);
+    results.forEach((r, i) => { if (r.id !== vars[i]) lines.push(`    ${vars[i]} = ${r.id};`); });
+    return { block: lines.join('\n'), flag };
+  };
+
+  const braces = (head: string, block: string) => block ? `${head} {\n${block}\n}` : `${head} {\n}`;
+
+  const emitLoop = (st: IROpPrim, ctx: { formatInputArg: (a: IRInputArg) => string; in: (name: string) => string }): string[] | null => {
+    const loop = loopBranch(st.spec);
+    if (!loop) return null;
+    const init = st.outputs.flatMap((o, i) => {
+      const from = st.inputs.find(inp => inp.name === `loop_${i}`)?.value;
+      if (!from || ((from as any).kind !== 'inline' && (from as IRValueRef).id === o.value.id)) return [];
+      return [`${o.value.id} = ${ctx.formatInputArg(from)}`];
+    });
+    switch (loop.name) {
+      case 'repeat': {
+        const { block } = renderLoopPart(st, loopPart(st, loop.args.body), false);
+        return [...init, braces(`repeat (${ctx.in(loop.args.count)})`, block)];
+      }
+      case 'again': {
+        const { block } = renderLoopPart(st, loopPart(st, loop.args.body), false);
+        return [...init, braces('while (true)', block)];
+      }
+      case 'until': {
+        const { block, flag } = renderLoopPart(st, loopPart(st, loop.args.body), true);
+        return [...init, `${braces('do', block)} until (${flag ? ctx.formatInputArg(flag) : '/* missing condition */'});`];
+      }
+      case 'while': {
+        const cond = renderLoopPart(st, loopPart(st, loop.args.cond), true);
+        const { block } = renderLoopPart(st, loopPart(st, loop.args.body), false);
+        const flag = cond.flag ? ctx.formatInputArg(cond.flag) : '/* missing condition */';
+        if (!cond.block) return [...init, braces(`while (${flag})`, block)];
+        // The condition needs statements of its own: evaluate it at the top of an endless loop
+        const exit = `    if (!(${flag})) {\n        break;\n    }`;
+        return [...init, braces('while (true)', [cond.block, exit, block].filter(Boolean).join('\n'))];
+      }
+    }
+    return null;
+  };
+
+  for (const loop of ['REPEAT', 'UNTIL', 'WHILE', 'AGAIN']) {
+    for (const suffix of ['', 'END', 'BRK', 'ENDBRK']) registerStmtPrinter(loop + suffix, emitLoop);
+  }
+
+  // TRY/TRYARGS (see analyzeTry): the body and the handler both end by assigning the
+  // statement outputs from what they leave on the stack
+  const emitTry = (st: IROpPrim, ctx: { formatInputArg: (a: IRInputArg) => string }): string[] | null => {
+    const t = tryBranch(st.spec);
+    if (!t) return null;
+    const part = (c: Continuation) => c.type === 'variable' ? getContinuationFromInputOrOperand(st, c.var_name) : undefined;
+    const outs = st.outputs.map(o => o.value.id);
+    const pre: string[] = [];
+    // Inlined inputs are evaluated once before the statement
+    const evaluated = (prefix: string) => st.inputs.filter(i => new RegExp(`^${prefix}_\\d+$`).test(i.name)).map(({ value }) => {
+      if ((value as any).kind !== 'inline') return (value as IRValueRef).id;
+      const op = (value as any).op as IROpPrim;
+      const id = op.outputs[0]?.value.id ?? `${prefix}_${pre.length}`;
+      pre.push(`${id} = ${ctx.formatInputArg(value)}`);
+      return id;
+    });
+    const carried = evaluated('try');
+    // Values saved in the handler's stack
+    const caught = evaluated('catch');
+    // Arguments of a part are the top of `stack`; what it leaves is assigned to the outputs
+    const renderPart = (fn: IRFunction | undefined, stack: string[]): string => {
+      if (!fn) return '    /* missing continuation */';
+      const below = stack.slice(0, stack.length - fn.args.length);
+      const renamed = cloneWithIdRemap(fn, new Map(fn.args.map((a, i) => [a.id, stack[below.length + i]])));
+      const left = [...below, ...renamed.result.map(r => r.id)].slice(-outs.length || Infinity);
+      // Results computed in the part are written straight into the outputs
+      let body = renamed.body;
+      left.forEach((id, i) => {
+        if (left.indexOf(id) !== i || left.lastIndexOf(id) !== i) return;
+        if (!body.some(b => b.outputs.some(o => o.value.id === id))) return;
+        body = body.map(b => renameValue(b, id, outs[i]));
+        left[i] = outs[i];
+      });
+      const lines = [renderContAsBlock({ ...renamed, body, result: [] }, null)].filter(Boolean);
+      outs.forEach((o, i) => { if (left[i] !== o) lines.push(`    ${o} = ${left[i]};`); });
+      return lines.join('\n');
+    };
+    const handler = part(t.handler);
+    // Exception argument and code: the handler's own names unless a saved value has them,
+    // `_` when unused
+    const h = handler?.args ?? [];
+    const own = (i: number, fallback: string) => i >= 0 && !caught.includes(h[i].id) ? h[i].id : fallback;
+    const code = own(h.length - 1, 'exc_code');
+    const arg = own(h.length - 2, 'exc_arg');
+    const bodyBlock = renderPart(part(t.body), carried);
+    const handlerBlock = renderPart(handler, [...caught, arg, code]);
+    const param = (name: string) => new RegExp(`\\b${name}\\b`).test(handlerBlock) ? name : '_';
+    return [...pre, `try {\n${bodyBlock}\n} catch (${param(arg)}, ${param(code)}) {\n${handlerBlock}\n}`];
+  };
+  registerStmtPrinter('TRY', emitTry);
+  registerStmtPrinter('TRYARGS', emitTry);
+
+  // Calls into other methods resolved by the interprocedural step (st.callee is set);
+  // unresolved calls keep default formatting since their stack effect is unknown
+  const printDictCall = (st: IROpPrim, args: string[]) => {
+    if (!st.callee) return undefined;
+    return `call ${methodDisplayName(st.callee.methodId)}(${comma(args)})`;
+  };
+  registerInlinePrinter('CALLDICT', (st, ctx) => printDictCall(st, st.inputs.map(i => ctx.formatInputArg(i.value))));
+  registerInlinePrinter('CALLDICT_LONG', (st, ctx) => printDictCall(st, st.inputs.map(i => ctx.formatInputArg(i.value))));
+  // A method ending in JMPDICT returns what the callee returns (`return f(...)`, see printer.ts);
+  // inside continuations the callee returns to whatever ran them, just as after a call
+  registerInlinePrinter('JMPDICT', (st, ctx) => printDictCall(st, st.inputs.map(i => ctx.formatInputArg(i.value))));
+
   // Globals aliases
   registerInlinePrinter('GETGLOB', (_st, ctx) => {
     const k = ctx.opNum('k');
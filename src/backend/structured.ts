@@ -0,0 +1,707 @@
+// Structured source rendering shared by the FunC and Tolk backends. A dialect gives the
+// syntax of declarations, branches, loops and calls; this module walks the IR: phi outputs
+// are declared before `if`, loop variables before the loop, every path assigns them at its
+// end, and instructions without an expression of their own are called through `asm`
+// functions declared once per Asm.fif form.
+
+import type { IRFunction, IRInlineExpr, IRInputArg, IROperandValue, IROpPrim, IRType, IRValueDef, IRValueRef } from "../core/ir";
+import type { Continuation } from "../gen/tvm-spec";
+import { continuationOf } from "../analysis/cfg";
+import { LOOP_REST_OPERAND, loopBranch, tryBranch } from "../frontend/lifter/stackEffects";
+import { effectOf } from "../opt/effects";
+import { applyDisplayHintsBigInt, applyDisplayHintsNumber } from "./displayHints";
+import { fiftInstruction } from "./fift";
+import { inlineContext } from "./printer";
+import type { InlinePrinter } from "./printer";
+
+// Extension point: source expressions per instruction mnemonic. `results` lists the output
+// names in the order the call returns them when it differs from the stack order (FunC
+// `load_uint` gives the remaining slice first); `mutates` names an input the call modifies
+// in place (Tolk `s.loadUint(8)`), its new value being the output of the same name or
+// with `2` appended (`s2`).
+export type SourcePrinter = { print: InlinePrinter; results?: string[]; mutates?: string };
+
+export class SourcePrinters {
+  private byMnemonic = new Map<string, SourcePrinter>();
+  private byPrefix: Array<{ prefix: string; printer: SourcePrinter }> = [];
+
+  register(mnemonic: string, printer: SourcePrinter) {
+    this.byMnemonic.set(mnemonic, printer);
+  }
+
+  registerPrefix(prefix: string, printer: SourcePrinter) {
+    this.byPrefix.push({ prefix, printer });
+  }
+
+  get(mnemonic: string): SourcePrinter | undefined {
+    return this.byMnemonic.get(mnemonic) ?? this.byPrefix.find(({ prefix }) => mnemonic.startsWith(prefix))?.printer;
+  }
+}
+
+// Precedence of calls and identifiers: never wrapped in parentheses
+export const CALL_PRECEDENCE = 100;
+
+// An `asm` function as the dialect declares it: parameters with the receiver first,
+// `reorder` giving the stack order of the parameters when the receiver moved
+export type AsmSignature = {
+  name: string;
+  params: Array<{ name: string; type: string }>;
+  self: boolean;
+  reorder?: string[];
+  results: string[];
+  typeVars: string[];
+  impure: boolean;
+  body: string;
+};
+
+// A value on the left-hand side of an assignment, declared by it unless `declared`
+export type TargetPart = { id: string; type?: string; declared: boolean };
+
+export type Dialect = {
+  printers: SourcePrinters;
+  precedence: (mnemonic: string) => number;
+  // Type of values, undefined when unknown or ambiguous
+  typeName: (types: IRType[] | undefined) => string | undefined;
+  // Stdlib name of an instruction by its Asm.fif form; `self` is the input printed as the
+  // receiver of a method call and `builtin` functions are not declared
+  stdlibName: (body: string) => { name: string; self?: string; builtin?: boolean } | undefined;
+  functionName: (methodId: number) => string;
+  asmFunction: (sig: AsmSignature) => string;
+  target: (parts: Array<TargetPart | null>) => string;
+  // Declaration of a value assigned later on every path
+  uninitialized: (id: string, type: string | undefined, decls: AsmDeclarations) => string;
+  nullValue: (decls: AsmDeclarations) => string;
+  cast: (expr: string, type: string, decls: AsmDeclarations) => string;
+  ifHead: (cond: string, negate: boolean, atomic: boolean) => string;
+  untilTail: (flag: string, atomic: boolean) => string;
+  catchHead: (arg: string, code: string) => string;
+  returnStatement: (values: string[]) => string;
+  comment: (text: string) => string;
+  // Whether values declared in a `do` body are out of scope in its condition
+  scopedUntil?: boolean;
+  // Jumps on the equality of one value with constants, as one statement
+  match?: (subject: string, arms: Array<{ value: string; body: string[] }>) => string[];
+};
+
+export const tensor = (xs: string[]) => xs.length === 1 ? xs[0] : `(${xs.join(', ')})`;
+export const indent = (lines: string[]) => lines.map((l) => `    ${l}`);
+export const braces = (head: string, body: string[], tail = '}') => [`${head} {`, ...indent(body), tail];
+
+// Values a statement leaves on the stack as one tensor (bottom first): the IR outputs
+// found in each slot (the first names it, the others are aliases) and, for conditional
+// outputs, the Asm.fif word padding the shorter arm with nulls (`NULLSWAPIFNOT`)
+type Slot = { types: IRType[] | undefined; outputs: IRValueDef[] };
+type Shape = { slots: Slot[]; pad?: string };
+
+function outputShape(st: IROpPrim): Shape | null {
+  const entries = st.spec.value_flow?.outputs?.stack ?? [];
+  const byName = (name: string) => st.outputs.find((o) => o.name === name)?.value;
+  const ci = entries.findIndex((e) => e.type === 'conditional');
+  if (ci < 0) {
+    if (entries.some((e) => e.type !== 'simple' && e.type !== 'const')) return null;
+    if (entries.length !== st.outputs.length) return null;
+    return {
+      slots: entries.map((e, i) => ({
+        types: e.type === 'simple' ? e.value_types : e.type === 'const' ? [e.value_type] : undefined,
+        outputs: [st.outputs[i].value],
+      })) as Slot[],
+    };
+  }
+  const cond = entries[ci];
+  const flag = entries[ci + 1];
+  if (cond.type !== 'conditional' || ci !== entries.length - 2 || flag?.type !== 'simple') return null;
+  const prefix = entries.slice(0, ci);
+  if (prefix.some((e) => e.type !== 'simple')) return null;
+  const arms = [...cond.match.map((m) => ({ value: m.value, stack: m.stack })), ...(cond.else ? [{ value: undefined, stack: cond.else }] : [])];
+  if (arms.length !== 2 || arms.some((a) => a.stack.some((e) => e.type !== 'simple'))) return null;
+  const lens = arms.map((a) => a.stack.length);
+  const width = Math.max(...lens);
+  const short = lens[0] < lens[1] ? 0 : lens[1] < lens[0] ? 1 : -1;
+  let pad: string | undefined;
+  if (short >= 0) {
+    const missing = width - lens[short];
+    if (missing > 2 || lens[short] > 1) return null;
+    // The arm a flag value selects: the other match value, or nonzero for `else`
+    const shortValue = arms[short].value ?? (arms[1 - short].value === 0 ? -1 : 0);
+    pad = `${lens[short] === 0 ? 'NULLSWAP' : 'NULLROTR'}${shortValue === 0 ? 'IFNOT' : 'IF'}${missing === 2 ? '2' : ''}`;
+  }
+
+  const slots: Slot[] = prefix.map((e) => ({ types: (e as any).value_types, outputs: [] }));
+  prefix.forEach((e, i) => { const v = byName((e as any).name); if (v) slots[i].outputs.push(v); });
+  const armSlots: Slot[] = Array.from({ length: width }, () => ({ types: [] as IRType[], outputs: [] }));
+  // Arm entries by their depth from the top of the stack
+  const slotOf = (arm: number, index: number) => width - lens[arm] + index;
+  arms.forEach((a, arm) => a.stack.forEach((e, i) => {
+    const types = armSlots[slotOf(arm, i)].types!;
+    for (const t of (e as any).value_types ?? []) if (!types.includes(t)) types.push(t);
+  }));
+  if (pad) armSlots.slice(0, width - lens[short]).forEach((s) => s.types!.push('Null'));
+
+  const known = new Set([...prefix.map((e) => (e as any).name), flag.name]);
+  const armOutputs = st.outputs.filter((o) => !known.has(o.name));
+  const condOutputs = armOutputs.filter((o) => o.name.startsWith('__cond'));
+  if (condOutputs.length) {
+    // Merged at once (arms alike or padded, see padded()): in stack order
+    if (condOutputs.length !== armOutputs.length || condOutputs.length > width) return null;
+    condOutputs.forEach((o, i) => armSlots[width - condOutputs.length + i].outputs.push(o.value));
+  } else {
+    for (const o of armOutputs) {
+      const at = (arm: number, name: string) => {
+        const i = arms[arm].stack.findIndex((e) => (e as any).name === name);
+        return i < 0 ? undefined : slotOf(arm, i);
+      };
+      // Arm values are named after their spec entry, with the arm index appended on a clash
+      const exact = [0, 1].map((arm) => at(arm, o.name)).filter((s): s is number => s !== undefined);
+      let slot: number | undefined;
+      if (exact.length && exact.every((s) => s === exact[0])) slot = exact[0];
+      else if (exact.length === 2) {
+        const suffixed = [0, 1].find((arm) => byName(`${o.name}${arm}`));
+        if (suffixed === undefined) return null;
+        slot = at(1 - suffixed, o.name);
+      } else {
+        const m = /^(.*?)(\d+)$/.exec(o.name);
+        if (m && Number(m[2]) < 2) slot = at(Number(m[2]), m[1]);
+      }
+      if (slot === undefined) return null;
+      armSlots[slot].outputs.push(o.value);
+    }
+  }
+  const flagOut = byName(flag.name);
+  return { slots: [...slots, ...armSlots, { types: flag.value_types, outputs: flagOut ? [flagOut] : [] }], pad };
+}
+
+// `asm` functions for instructions without an expression in the dialect, declared once per
+// Asm.fif form
+type AsmFunction = { name: string; params: string[]; self?: string; shape: Shape; decl: string };
+
+export class AsmDeclarations {
+  private byBody = new Map<string, AsmFunction>();
+  private names = new Set<string>();
+
+  constructor(private dialect: Dialect) {}
+
+  declare(st: IROpPrim): AsmFunction | null {
+    const fift = fiftInstruction(st.spec, st.operands);
+    if (fift === null) return null;
+    const shape = outputShape(st);
+    if (!shape) return null;
+    const body = shape.pad ? `${fift} ${shape.pad}` : fift;
+    const existing = this.byBody.get(body);
+    if (existing) return existing;
+
+    const inputs = (st.spec.value_flow?.inputs?.stack ?? []).filter((e) => e.type === 'simple') as Array<{ name: string; value_types?: IRType[] }>;
+    // IR inputs come in the order they were popped; parameters follow the spec
+    if (inputs.length !== st.inputs.length || inputs.some((e) => !st.inputs.some((i) => i.name === e.name))) return null;
+    const known = this.dialect.stdlibName(body);
+    const name = known?.builtin ? known.name : this.unique(known?.name ?? this.nameOf(st));
+    const vars: string[] = [];
+    const typeOf = (types: IRType[] | undefined) => {
+      const t = this.dialect.typeName(types);
+      if (t !== undefined) return t;
+      vars.push(`X${vars.length}`);
+      return vars[vars.length - 1];
+    };
+    const self = known?.self && inputs.some((e) => e.name === known.self) ? known.self : undefined;
+    const ordered = self ? [inputs.find((e) => e.name === self)!, ...inputs.filter((e) => e.name !== self)] : inputs;
+    const reorder = self && ordered.some((e, i) => e !== inputs[i]) ? inputs.map((e) => paramName(e.name)) : undefined;
+    const params = ordered.map((e) => ({ name: paramName(e.name), type: typeOf(e.value_types) }));
+    const results = shape.slots.map((s) => typeOf(s.types));
+    const decl = known?.builtin ? '' : this.dialect.asmFunction({
+      name, params, self: !!self, reorder, results, typeVars: vars, impure: effectOf(st.spec) !== 'pure', body,
+    });
+    const fn = { name, params: ordered.map((e) => e.name), self, shape, decl };
+    this.byBody.set(body, fn);
+    return fn;
+  }
+
+  // Helper function declared once under `key` (or the first of `keys` already declared)
+  helper(keys: string[], name: string, decl: (name: string) => string): string {
+    const fn = keys.map((k) => this.byBody.get(k)).find((f) => f !== undefined);
+    if (fn) return fn.name;
+    const unique = this.unique(name);
+    this.byBody.set(keys[0], { name: unique, params: [], shape: { slots: [] }, decl: decl(unique) });
+    return unique;
+  }
+
+  // Function running instructions left undecompiled at the end of a function
+  tail(fnName: string, words: string[], args: number): string {
+    const name = this.unique(`${fnName}_tail`);
+    const typeVars = Array.from({ length: args }, (_, i) => `X${i}`);
+    const body = words.join(' ');
+    const decl = this.dialect.asmFunction({
+      name, params: typeVars.map((type, i) => ({ name: `a${i}`, type })), self: false, results: [], typeVars, impure: true, body,
+    });
+    this.byBody.set(`${name} ${body}`, { name, params: [], shape: { slots: [] }, decl });
+    return name;
+  }
+
+  declarations(): string[] {
+    return [...this.byBody.values()].map((f) => f.decl).filter((d) => d !== '');
+  }
+
+  private nameOf(st: IROpPrim): string {
+    const parts = [st.mnemonic.toLowerCase().replace(/[^a-z0-9]+/g, '_')];
+    for (const { value } of st.operands) {
+      if (value.kind !== 'int' && value.kind !== 'bigint') return `tvm_${parts[0]}`;
+      parts.push(value.value < 0 ? `m${-value.value}` : String(value.value));
+    }
+    return `tvm_${parts.join('_')}`;
+  }
+
+  private unique(name: string): string {
+    let n = name;
+    for (let i = 2; this.names.has(n); i++) n = `${name}_${i}`;
+    this.names.add(n);
+    return n;
+  }
+}
+
+const paramName = (name: string) => /^[a-z_]\w*$/i.test(name) ? name : `x_${name.replace(/\W/g, '')}`;
+
+// IF/IFELSE family: flag test, continuations run by the branches (by operand or input
+// name) and whether they leave the function (`IFJMP`)
+type Conditional = { negate?: boolean; then: string; else?: string; jump?: boolean };
+const CONDITIONALS: Record<string, Conditional> = {
+  IF: { then: 'c' }, IFREF: { then: 'c' }, IFNOT: { negate: true, then: 'c' }, IFNOTREF: { negate: true, then: 'c' },
+  IFELSE: { then: 'c', else: 'c2' }, IFELSEREF: { then: 'c', else: 'c2' }, IFREFELSE: { then: 'c', else: 'c2' }, IFREFELSEREF: { then: 'c1', else: 'c2' },
+  IFJMP: { then: 'c', jump: true }, IFJMPREF: { then: 'c', jump: true }, IFNOTJMP: { negate: true, then: 'c', jump: true }, IFNOTJMPREF: { negate: true, then: 'c', jump: true },
+};
+
+// Value ids of a continuation mapped to the expressions of the code running it
+type Scope = Map<string, string>;
+type Block = { scope: Scope; declared: Set<string> };
+
+const isInline = (a: IRInputArg | undefined): a is IRInlineExpr => (a as any)?.kind === 'inline';
+
+// Uses of every value in a function and its continuations, and the values statements define
+function valueUses(fn: IRFunction): { uses: Map<string, number>; defined: Set<string> } {
+  const uses = new Map<string, number>();
+  const defined = new Set<string>();
+  const use = (id: string) => uses.set(id, (uses.get(id) ?? 0) + 1);
+  const visitOp = (st: IROpPrim, nested: boolean) => {
+    if (!nested) for (const o of st.outputs) defined.add(o.value.id);
+    for (const { value } of st.inputs) isInline(value) ? visitOp(value.op, true) : use(value.id);
+    for (const { value } of st.operands) if (value.kind === 'cont') visitFn(value.value);
+  };
+  const visitFn = (f: IRFunction) => {
+    for (const st of f.body) visitOp(st, false);
+    for (const r of f.result) use(r.id);
+  };
+  visitFn(fn);
+  return { uses, defined };
+}
+
+// A padding word (NULLSWAPIFNOT) applied to the conditional outputs of the instruction
+// computed in its input, as that instruction leaving the padded values and its flag:
+// the pair is called through one `asm` function
+function padded(st: IROpPrim): IROpPrim | undefined {
+  if (!/^NULL(SWAP|ROTR)IF(NOT)?2?$/.test(st.mnemonic)) return undefined;
+  const x = st.inputs.find((i) => i.name === 'x')?.value;
+  if (!isInline(x)) return undefined;
+  const entries = x.op.spec.value_flow?.outputs?.stack ?? [];
+  const ci = entries.findIndex((e) => e.type === 'conditional');
+  const flag = entries[ci + 1];
+  if (ci < 0 || flag?.type !== 'simple') return undefined;
+  const prefix = new Set(entries.slice(0, ci).map((e) => (e as any).name));
+  const outputs = st.outputs.map((o) => o.name === 'x' ? { name: flag.name, value: o.value } : o);
+  return { ...x.op, outputs: [...x.op.outputs.filter((o) => prefix.has(o.name)), ...outputs] };
+}
+
+// FunC `try` saves c1, c3, c4, c5 and c7 in the handler, adds the values it needs
+// (SETCONTVARARGS) and composes the body with c1; statements computing nothing but the
+// continuations of TRY are printed as the `try` itself
+const TRY_PLUMBING = ['PUSHCTR', 'SETCONTCTR', 'COMPOSALT', 'SETCONTVARARGS'];
+
+function tryPlumbing(fn: IRFunction, uses: Map<string, number>): Set<IROpPrim> {
+  const statements: IROpPrim[] = [];
+  const visit = (f: IRFunction) => f.body.forEach((st) => {
+    statements.push(st);
+    const ops = [st, ...st.inputs.map((i) => i.value).filter(isInline).map((a) => a.op)];
+    for (const op of ops) for (const { value } of op.operands) if (value.kind === 'cont') visit(value.value);
+  });
+  visit(fn);
+  const plumbing = new Set<IROpPrim>();
+  const accepted = new Map<string, number>();
+  const accept = (a: IRInputArg) => { if (!isInline(a)) accepted.set(a.id, (accepted.get(a.id) ?? 0) + 1); };
+  for (const st of statements) {
+    if (tryBranch(st.spec)) st.inputs.filter((i) => i.name === 'c' || i.name === 'c2').forEach((i) => accept(i.value));
+  }
+  for (let changed = true; changed;) {
+    changed = false;
+    for (const st of statements) {
+      if (plumbing.has(st) || !TRY_PLUMBING.includes(st.mnemonic) || !st.outputs.length) continue;
+      if (!st.outputs.every((o) => (accepted.get(o.value.id) ?? 0) === (uses.get(o.value.id) ?? 0))) continue;
+      plumbing.add(st);
+      st.inputs.forEach((i) => accept(i.value));
+      changed = true;
+    }
+  }
+  return plumbing;
+}
+
+export function renderFunction(fn: IRFunction, name: string, dialect: Dialect, decls: AsmDeclarations, methods: Map<number, IRFunction>): { body: string[]; returns: boolean } {
+  const aliases = new Map<string, string>();
+  const { uses, defined } = valueUses(fn);
+  const plumbing = tryPlumbing(fn, uses);
+  let fresh = 0;
+  let failed: string | null = null;
+
+  const ref = (id: string, b: Block) => b.scope.get(id) ?? aliases.get(id) ?? id;
+  const inputOf = (st: IROpPrim, name: string) => st.inputs.find((i) => i.name === name)?.value;
+  const arg = (a: IRInputArg, b: Block): string => isInline(a) ? expression(a.op, b) : ref(a.id, b);
+  const atomic = (a: IRInputArg) => !isInline(a) || dialect.precedence(a.op.mnemonic) >= CALL_PRECEDENCE;
+
+  const operand = (st: IROpPrim) => (v: IROperandValue): string => {
+    const name = st.operands.find((o) => o.value === v)?.name;
+    const spec: any = st.spec.bytecode.operands?.find((o) => o.name === name);
+    if (v.kind === 'int' || v.kind === 'bigint') {
+      const adj = v.kind === 'int' ? applyDisplayHintsNumber(v.value, spec?.display_hints) : applyDisplayHintsBigInt(v.value, spec?.display_hints);
+      return String(adj.value);
+    }
+    failed = failed ?? `${st.mnemonic} operand ${name}`;
+    return name ?? '?';
+  };
+  const context = (st: IROpPrim, b: Block) => inlineContext(st, {
+    formatInlineOperand: operand(st),
+    formatInputArg: (a) => arg(a, b),
+    formatInlineOp: (op) => expression(op, b),
+    precedenceOf: dialect.precedence,
+  });
+
+  const declaration = (v: IRValueDef, b: Block): TargetPart => {
+    const declared = b.declared.has(v.id);
+    b.declared.add(v.id);
+    return { id: v.id, type: dialect.typeName(v.types), declared };
+  };
+  // Left-hand side of an assignment filling `slots`; values not declared yet are declared in it
+  const target = (slots: Slot[], b: Block): string => dialect.target(slots.map(({ outputs: [v, ...same] }) => {
+    if (!v) return null;
+    for (const s of same) aliases.set(s.id, v.id);
+    return declaration(v, b);
+  }));
+  const single = (v: IRValueDef, b: Block) => dialect.target([declaration(v, b)]);
+
+  // A statement-level call modifying an input in place: a value used nowhere else is
+  // modified as is, anything else is copied to the output first (once the call is printed)
+  const mutated = (st: IROpPrim, input: string) => st.outputs.find((o) => o.name === input || o.name === `${input}2`);
+  const mutation = (st: IROpPrim, input: string, b: Block): { st: IROpPrim; commit: () => string[] } => {
+    const a = inputOf(st, input);
+    const result = mutated(st, input)?.value;
+    if (!a || !result) return { st, commit: () => [] };
+    if (!isInline(a) && uses.get(a.id) === 1 && defined.has(a.id) && !b.scope.has(a.id)) {
+      return { st, commit: () => { aliases.set(result.id, ref(a.id, b)); return []; } };
+    }
+    const copy: IRValueRef = { id: result.id, types: result.types };
+    return {
+      st: { ...st, inputs: st.inputs.map((i) => i.name === input ? { name: i.name, value: copy } : i) },
+      commit: () => [`${single(result, b)} = ${arg(a, b)};`],
+    };
+  };
+
+  // The call (or operator expression) computing `st`, with the tensor its result fills;
+  // `out` receives the lines a statement-level call needs before it
+  const call = (st: IROpPrim, b: Block, out?: string[]): { text: string; slots: Slot[] } => {
+    const pair = padded(st);
+    if (pair) {
+      // The instruction alone pads the shorter arm the way the pair does
+      if (outputShape(pair)?.pad !== st.mnemonic) failed = failed ?? st.mnemonic;
+      return call(pair, b, out);
+    }
+    const printer = dialect.printers.get(st.mnemonic);
+    if (printer) {
+      const inPlace = printer.mutates && out ? mutation(st, printer.mutates, b) : { st, commit: () => [] };
+      const text = printer.print(inPlace.st, context(inPlace.st, b));
+      if (text != null) {
+        out?.push(...inPlace.commit());
+        const skip = printer.mutates && out ? mutated(st, printer.mutates) : undefined;
+        const named = printer.results ? printer.results.map((n) => st.outputs.find((o) => o.name === n)).filter((o) => o !== undefined) : st.outputs;
+        const outputs = named.filter((o) => o !== skip);
+        return { text, slots: outputs.map((o) => ({ types: o!.value.types, outputs: [o!.value] })) };
+      }
+    }
+    const slots = st.outputs.map((o) => ({ types: o.value.types, outputs: [o.value] }));
+    if (st.callee) {
+      const args = st.inputs.filter((i) => /^arg\d+$/.test(i.name)).map((i) => arg(i.value, b));
+      if (!methods.has(st.callee.methodId)) failed = failed ?? `${st.mnemonic} of a missing method`;
+      return { text: `${dialect.functionName(st.callee.methodId)}(${args.join(', ')})`, slots };
+    }
+    // Inputs first, so that functions are declared before the ones calling them
+    const texts = new Map(st.inputs.map((i) => [i.name, arg(i.value, b)]));
+    const asm = (st.spec.control_flow?.branches ?? []).length ? null : decls.declare(st);
+    if (!asm) {
+      failed = failed ?? st.mnemonic;
+      return { text: st.mnemonic, slots };
+    }
+    const args = asm.params.map((p) => {
+      const text = texts.get(p)!;
+      return asm.self === p && !atomic(inputOf(st, p)!) ? `(${text})` : text;
+    });
+    const text = asm.self ? `${args[0]}.${asm.name}(${args.slice(1).join(', ')})` : `${asm.name}(${args.join(', ')})`;
+    return { text, slots: asm.shape.slots };
+  };
+  const expression = (st: IROpPrim, b: Block) => call(st, b).text;
+
+  // Outputs of a compound statement, declared before it and assigned on every path
+  const predeclare = (st: IROpPrim, b: Block): string[] => st.outputs
+    .filter((o) => !b.declared.has(o.value.id))
+    .map((o) => {
+      const { id, type } = declaration(o.value, b);
+      return dialect.uninitialized(id, type, decls);
+    });
+  // `targets = values` without overwriting a value before it is read
+  const assign = (targets: string[], values: string[]): string[] => {
+    const pairs = targets.map((t, i) => [t, values[i]]).filter(([t, v]) => v !== undefined && t !== v);
+    if (!pairs.length) return [];
+    return [`${tensor(pairs.map(([t]) => t))} = ${tensor(pairs.map(([, v]) => v))};`];
+  };
+  // Inline inputs handed to continuations are evaluated once, before the statement
+  const evaluated = (st: IROpPrim, names: string[], b: Block, out: string[]): Map<string, string> => {
+    const values = new Map<string, string>();
+    for (const name of names) {
+      const a = inputOf(st, name);
+      if (!a) continue;
+      if (!isInline(a)) { values.set(name, ref(a.id, b)); continue; }
+      const { text } = call(a.op, b);
+      const v = a.op.outputs[0]?.value ?? { id: `tmp${fresh++}` };
+      out.push(`${single(v, b)} = ${text};`);
+      values.set(name, v.id);
+    }
+    return values;
+  };
+  const child = (b: Block, scope: Scope): Block => ({ scope, declared: new Set(b.declared) });
+
+  // Statements of a continuation run with its arguments bound to `args`
+  const run = (cont: IRFunction, args: string[], b: Block): { block: Block; lines: string[] } => {
+    const inner = child(b, new Map(cont.args.map((a, i) => [a.id, args[i]])));
+    const lines: string[] = [];
+    statements(cont.body, inner, lines);
+    if (cont.decompileError) lines.push(dialect.comment(`decompilation error: ${cont.decompileError.split('\n')[0]}`));
+    return { block: inner, lines };
+  };
+
+  // The flag and paths of a conditional; inputs are evaluated into `out`
+  const branches = (st: IROpPrim, kind: Conditional, b: Block, out: string[]) => {
+    const flag = inputOf(st, 'f');
+    const labels = [kind.then, ...(kind.else ? [kind.else] : [])];
+    const conts = labels.map((l) => continuationOf(st, l));
+    if (!flag || conts.some((c) => !c)) { failed = failed ?? st.mnemonic; return null; }
+    const names = conts.flatMap((c, i) => c!.args.map((a) => `${labels[i]}_${a.id}`));
+    const values = evaluated(st, [...names, ...st.inputs.filter((i) => i.name.startsWith('phi_')).map((i) => i.name)], b, out);
+    const cond = arg(flag, b);
+    out.push(...predeclare(st, b));
+    const outs = st.outputs.map((o) => o.value.id);
+    // Values every path assigns to the outputs
+    const sources = (path: string, cont: IRFunction | undefined, inner: Block | undefined): string[] => {
+      if (!st.phis) return cont && inner ? cont.result.map((r) => ref(r.id, inner)) : [];
+      return st.phis.map((phi) => {
+        const s = phi.sources.find((x) => x.path === path);
+        if (!s) return phi.output;
+        if ('input' in s) return values.get(s.input) ?? arg(inputOf(st, s.input)!, b);
+        return cont && inner && cont.result[s.result] ? ref(cont.result[s.result].id, inner) : phi.output;
+      });
+    };
+    const path = (label: string, cont: IRFunction) => {
+      const { block, lines } = run(cont, cont.args.map((a) => values.get(`${label}_${a.id}`) ?? a.id), b);
+      if (kind.jump) return [...lines, dialect.returnStatement(cont.result.map((r) => ref(r.id, block)))];
+      return [...lines, ...assign(outs, sources(label, cont, block).slice(0, outs.length))];
+    };
+    const then = path(labels[0], conts[0]!);
+    const otherwise = kind.else ? path(labels[1], conts[1]!) : assign(outs, sources('skip', undefined, undefined));
+    return { head: dialect.ifHead(cond, !!kind.negate, atomic(flag)), then, otherwise };
+  };
+
+  const conditional = (st: IROpPrim, kind: Conditional, b: Block, out: string[]) => {
+    const paths = branches(st, kind, b, out);
+    if (!paths) return;
+    const { head, then, otherwise } = paths;
+    if (!otherwise.length) out.push(...braces(head, then));
+    else out.push(...braces(head, then, '} else {'), ...indent(otherwise), '}');
+  };
+
+  const loop = (st: IROpPrim, b: Block, out: string[]) => {
+    const l = loopBranch(st.spec)!;
+    const initial = evaluated(st, st.outputs.map((_, i) => `loop_${i}`), b, out);
+    const vars = st.outputs.map((o) => o.value.id);
+    st.outputs.forEach((o, i) => {
+      const from = initial.get(`loop_${i}`);
+      if (from === o.value.id) return;
+      out.push(`${single(o.value, b)} = ${from ?? dialect.nullValue(decls)};`);
+    });
+    const part = (c: Continuation) => c.type === 'cc' ? continuationOf(st, LOOP_REST_OPERAND) : c.type === 'variable' ? continuationOf(st, c.var_name) : undefined;
+    const flagVar = (id: string, b: Block) => single({ id, types: ['Integer'] }, b);
+    // One iteration of a part on the trailing loop variables, with its flag when it has one
+    const iteration = (c: Continuation, flagged: boolean) => {
+      const cont = part(c);
+      if (!cont) { failed = failed ?? st.mnemonic; return { lines: [], flag: '' }; }
+      const mine = vars.slice(vars.length - cont.args.length);
+      const { block, lines } = run(cont, mine, b);
+      const results = cont.result.slice(0, cont.args.length).map((r) => ref(r.id, block));
+      let flag = flagged ? ref(cont.result[cont.result.length - 1].id, block) : '';
+      if (flag && mine.includes(flag) && results.some((r, i) => r !== mine[i])) {
+        // The flag is a loop variable about to change: keep the value it has now
+        const saved = `cond${fresh++}`;
+        lines.push(`${flagVar(saved, block)} = ${flag};`);
+        flag = saved;
+      }
+      return { lines: [...lines, ...assign(mine, results)], flag, cont, block };
+    };
+    switch (l.name) {
+      case 'repeat': {
+        const count = arg(inputOf(st, l.args.count)!, b);
+        out.push(...braces(`repeat (${count})`, iteration(l.args.body, false).lines));
+        return;
+      }
+      case 'again':
+        out.push(...braces('while (true)', iteration(l.args.body, false).lines));
+        return;
+      case 'until': {
+        const cont = part(l.args.body);
+        const flagId = cont?.result[cont.result.length - 1]?.id;
+        const flagDef = flagId ? cont!.body.flatMap((s) => s.outputs).find((o) => o.value.id === flagId) : undefined;
+        if (dialect.scopedUntil && flagDef && !b.declared.has(flagDef.value.id)) {
+          // Declared before the loop, so that the condition sees it
+          const { id, type } = declaration(flagDef.value, b);
+          out.push(dialect.uninitialized(id, type, decls));
+        }
+        const body = iteration(l.args.body, true);
+        out.push(...braces('do', body.lines, dialect.untilTail(body.flag, true)));
+        return;
+      }
+      case 'while': {
+        const body = iteration(l.args.body, false).lines;
+        const cond = part(l.args.cond);
+        // A condition computed by a single expression from the loop variables goes in `while (...)`
+        const [only] = cond?.body ?? [];
+        const flagId = cond?.result[cond.result.length - 1]?.id;
+        if (cond && cond.body.length === 1 && only.outputs.length === 1 && only.outputs[0].value.id === flagId &&
+            cond.result.slice(0, cond.args.length).every((r, i) => r.id === cond.args[i].id)) {
+          const scope = child(b, new Map(cond.args.map((a, i) => [a.id, vars[vars.length - cond.args.length + i]])));
+          out.push(...braces(`while (${expression(only, scope)})`, body));
+          return;
+        }
+        // Otherwise the condition is computed before the loop and again after every iteration
+        const first = iteration(l.args.cond, true);
+        const again = iteration(l.args.cond, true);
+        const flag = `cond${fresh++}`;
+        out.push(...first.lines, `${flagVar(flag, b)} = ${first.flag};`);
+        out.push(...braces(`while (${flag})`, [...body, ...again.lines, `${flag} = ${again.flag};`]));
+        return;
+      }
+    }
+  };
+
+  const tryCatch = (st: IROpPrim, b: Block, out: string[]) => {
+    const t = tryBranch(st.spec)!;
+    const names = st.inputs.filter((i) => /^try_\d+$/.test(i.name)).map((i) => i.name);
+    // Values saved in the handler's stack
+    const saved = st.inputs.filter((i) => /^catch_\d+$/.test(i.name)).map((i) => i.name);
+    const values = evaluated(st, [...names, ...saved], b, out);
+    const carried = names.map((n) => values.get(n)!);
+    const caught = saved.map((n) => values.get(n)!);
+    out.push(...predeclare(st, b));
+    const outs = st.outputs.map((o) => o.value.id);
+    const part = (c: Continuation, stack: string[]) => {
+      const cont = c.type === 'variable' ? continuationOf(st, c.var_name) : undefined;
+      if (!cont) { failed = failed ?? st.mnemonic; return []; }
+      const below = stack.slice(0, stack.length - cont.args.length);
+      const { block, lines } = run(cont, stack.slice(below.length), b);
+      const left = outs.length ? [...below, ...cont.result.map((r) => ref(r.id, block))].slice(-outs.length) : [];
+      return [...lines, ...assign(outs, left)];
+    };
+    const n = fresh++;
+    const [excArg, excCode] = [`exc_arg${n}`, `exc_code${n}`];
+    const body = part(t.body, carried);
+    // The exception argument has no type until it is cast to the one the handler reads
+    const handlerArgs = t.handler.type === 'variable' ? continuationOf(st, t.handler.var_name)?.args ?? [] : [];
+    const argType = handlerArgs.length >= 2 ? dialect.typeName(handlerArgs[handlerArgs.length - 2].types) : undefined;
+    const thrown = argType === undefined ? excArg : dialect.cast(excArg, argType, decls);
+    const handler = part(t.handler, [...caught, thrown, excCode]);
+    out.push(...braces('try', body, dialect.catchHead(excArg, excCode)), ...indent(handler), '}');
+  };
+
+  const statement = (st: IROpPrim, b: Block, out: string[]) => {
+    if (st.mnemonic.startsWith('PUSHCONT') || plumbing.has(st)) return; // printed where it runs
+    const before = failed;
+    failed = null;
+    const lines: string[] = [];
+    const kind = CONDITIONALS[st.mnemonic];
+    if (kind) conditional(st, kind, b, lines);
+    else if (loopBranch(st.spec)) loop(st, b, lines);
+    else if (tryBranch(st.spec)) tryCatch(st, b, lines);
+    else {
+      const { text, slots } = call(st, b, lines);
+      lines.push(slots.some((s) => s.outputs.length) ? `${target(slots, b)} = ${text};` : `${text};`);
+    }
+    if (failed) out.push(dialect.comment(`unsupported: ${failed}`));
+    else out.push(...lines);
+    failed = before;
+  };
+
+  // `x == <constant>` tested by a jump: the tested value and the constant
+  const equality = (st: IROpPrim, b: Block): { subject: string; value: string } | null => {
+    const kind = CONDITIONALS[st.mnemonic];
+    const flag = inputOf(st, 'f');
+    if (!kind?.jump || kind.negate || st.outputs.length || !isInline(flag)) return null;
+    const test = flag.op;
+    const [x, y] = [inputOf(test, 'x'), inputOf(test, 'y')];
+    if (test.mnemonic === 'EQINT' && x && !isInline(x)) {
+      const c = test.operands.find((o) => o.name === 'y')?.value;
+      return c ? { subject: ref(x.id, b), value: operand(test)(c) } : null;
+    }
+    if (test.mnemonic !== 'EQUAL' || !x || !y) return null;
+    const constant = (a: IRInputArg) => isInline(a) && a.op.mnemonic.startsWith('PUSHINT') && !a.op.inputs.length;
+    const [subject, value] = constant(y) ? [x, y] : constant(x) ? [y, x] : [];
+    return subject && value && !isInline(subject) ? { subject: ref(subject.id, b), value: expression((value as IRInlineExpr).op, b) } : null;
+  };
+  // Consecutive jumps comparing one value with different constants, from `body[start]`
+  const dispatch = (body: IROpPrim[], start: number, b: Block, out: string[]): number => {
+    const jumps: Array<{ st: IROpPrim; value: string }> = [];
+    let subject: string | undefined;
+    let end = start;
+    for (let i = start; i < body.length; i++) {
+      if (body[i].mnemonic.startsWith('PUSHCONT')) continue;
+      const test = equality(body[i], b);
+      if (!test || (subject !== undefined && test.subject !== subject) || jumps.some((j) => j.value === test.value)) break;
+      subject = test.subject;
+      jumps.push({ st: body[i], value: test.value });
+      end = i + 1;
+    }
+    if (jumps.length < 2 || subject === undefined) return start;
+    const declared = new Set(b.declared);
+    const before = failed;
+    failed = null;
+    const lines: string[] = [];
+    const arms = jumps.map(({ st, value }) => ({ value, body: branches(st, CONDITIONALS[st.mnemonic], b, lines)?.then ?? [] }));
+    const ok = !failed;
+    failed = before;
+    if (!ok) {
+      b.declared.clear();
+      declared.forEach((id) => b.declared.add(id));
+      return start;
+    }
+    out.push(...lines, ...dialect.match!(subject, arms));
+    return end;
+  };
+
+  const statements = (body: IROpPrim[], b: Block, out: string[]) => {
+    for (let i = 0; i < body.length; i++) {
+      const next = dialect.match ? dispatch(body, i, b, out) : i;
+      if (next > i) i = next - 1;
+      else statement(body[i], b, out);
+    }
+  };
+
+  const top: Block = { scope: new Map(), declared: new Set(fn.args.map((a) => a.id)) };
+  const body: string[] = [];
+  statements(fn.body, top, body);
+  if (fn.decompileError) body.push(dialect.comment(`decompilation error: ${fn.decompileError.split('\n')[0]}`));
+  const results = fn.result.map((r) => ref(r.id, top));
+  const words = (fn.asmTail ?? []).map((i) => fiftInstruction(i.spec, i.operands));
+  if (words.length) {
+    if (words.some((w) => w === null)) body.push(dialect.comment('unsupported: instructions after the decompiled code'));
+    else body.push(`${decls.tail(name, words as string[], results.length)}(${results.join(', ')});`);
+    return { body, returns: false };
+  }
+  if (results.length) body.push(dialect.returnStatement(results));
+  return { body, returns: true };
+}
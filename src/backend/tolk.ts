@@ -0,0 +1,238 @@
+// Tolk backend: renders a decompiled program as Tolk source (`decompile --format tolk`).
+// Operators and standard library functions are printed as such, with methods on slices and
+// builders (`s.loadUint(8)`, `b.storeRef(c)`); every other instruction is called through an
+// `asm` function declared at the top of the file. Slice loads and builder stores modify
+// their receiver in place, so a value still used elsewhere is copied first. Control flow
+// is rendered by `structured.ts`, with jumps on one value compared to constants as `match`.
+
+import type { IRFunction, IRInlineExpr, IRType } from "../core/ir";
+import type { Program } from "../core/program";
+import { inferTypes, tolkTypeName } from "../analysis/types";
+import { methodIdFromName } from "../core/methodNames";
+import { methodDisplayName } from "./printer";
+import type { InlineContext, InlinePrinter } from "./printer";
+import { AsmDeclarations, CALL_PRECEDENCE, SourcePrinters, braces, renderFunction, tensor } from "./structured";
+import type { Dialect } from "./structured";
+
+// Extension point: Tolk expressions per instruction mnemonic. `mutates` names the input a
+// method modifies in place (the slice of `loadUint`, the builder of `storeUint`).
+const tolkPrinters = new SourcePrinters();
+
+export function registerTolkPrinter(mnemonic: string, print: InlinePrinter, mutates?: string) {
+  tolkPrinters.register(mnemonic, { print, mutates });
+}
+
+export function registerTolkPrinterPrefix(prefix: string, print: InlinePrinter, mutates?: string) {
+  tolkPrinters.registerPrefix(prefix, { print, mutates });
+}
+
+// Tolk operator precedence (higher binds tighter), as in C
+function tolkPrecedence(m: string): number {
+  if (m === 'OR') return 1;
+  if (m === 'XOR') return 2;
+  if (m === 'AND') return 3;
+  if (['EQUAL', 'NEQ', 'EQINT', 'NEQINT', 'ISNULL'].includes(m)) return 4;
+  if (['LESS', 'LEQ', 'GREATER', 'GEQ', 'CMP', 'LESSINT', 'GTINT'].includes(m)) return 5;
+  if (['LSHIFT', 'RSHIFT', 'RSHIFTR', 'RSHIFTC', 'LSHIFT_VAR', 'RSHIFT_VAR', 'RSHIFTR_VAR', 'RSHIFTC_VAR'].includes(m)) return 6;
+  if (['ADD', 'SUB', 'INC', 'DEC', 'ADDCONST'].includes(m)) return 7;
+  if (['MUL', 'DIV', 'MOD', 'MULCONST'].includes(m)) return 8;
+  if (m === 'NEGATE' || m === 'NOT') return 9;
+  return CALL_PRECEDENCE;
+}
+
+// Standard library functions of instructions, keyed by their Asm.fif form; `self` is the
+// input printed as the receiver of a method call (`c.beginParse()`)
+const STDLIB: Record<string, { name: string; self?: string }> = {
+  'NEWC': { name: 'beginCell' },
+  'ENDC': { name: 'endCell', self: 'b' },
+  'CTOS': { name: 'beginParse', self: 'c' },
+  'ENDS': { name: 'assertEnd', self: 's' },
+  'PLDREF': { name: 'preloadRef', self: 's' },
+  'SBITS': { name: 'remainingBitsCount', self: 's' },
+  'SREFS': { name: 'remainingRefsCount', self: 's' },
+  'SEMPTY': { name: 'isEmpty', self: 's' },
+  'SDEMPTY': { name: 'isEndOfBits', self: 's' },
+  'BBITS': { name: 'bitsCount', self: 'b' },
+  'BREFS': { name: 'refsCount', self: 'b' },
+  'HASHCU': { name: 'hash', self: 'c' },
+  'HASHSU': { name: 'hash', self: 's' },
+  'SHA256U': { name: 'bitsHash', self: 's' },
+  'CHKSIGNU': { name: 'isSignatureValid' },
+  'CHKSIGNS': { name: 'isSliceSignatureValid' },
+  'NEWDICT': { name: 'createEmptyDict' },
+  'ACCEPT': { name: 'acceptExternalMessage' },
+  'SETGASLIMIT': { name: 'setGasLimit' },
+  'COMMIT': { name: 'commitContractDataAndActions' },
+  'NOW': { name: 'blockchain.now' },
+  'LTIME': { name: 'blockchain.logicalTime' },
+  'BLOCKLT': { name: 'blockchain.currentBlockLogicalTime' },
+  'CONFIGOPTPARAM': { name: 'blockchain.configParam' },
+  'MYADDR': { name: 'contract.getAddress' },
+  'c4 PUSHCTR': { name: 'contract.getData' },
+  'c4 POPCTR': { name: 'contract.setData' },
+  'SETCODE': { name: 'contract.setCodePostponed' },
+  'SENDRAWMSG': { name: 'sendRawMessage' },
+  'RAWRESERVE': { name: 'reserveToncoinsOnBalance' },
+  'RANDU256': { name: 'random.uint256' },
+  'RAND': { name: 'random.range' },
+  'ADDRAND': { name: 'random.initializeBy' },
+  'ABS': { name: 'abs' },
+  'MIN': { name: 'min' },
+  'MAX': { name: 'max' },
+  'MINMAX': { name: 'minMax' },
+};
+
+// Receivers by method id; other methods keep their names
+const RECEIVERS: Record<number, string> = {
+  0: 'onInternalMessage', [-1]: 'onExternalMessage', [-2]: 'onRunTickTock', [-3]: 'onSplitPrepare', [-4]: 'onSplitInstall',
+};
+
+function tolkFunctionName(methodId: number): string {
+  const name = RECEIVERS[methodId] ?? methodDisplayName(methodId).replace(/\W/g, '_');
+  return /^\d/.test(name) ? `_${name}` : name;
+}
+
+const typeOrUnknown = (type: string | undefined) => type ?? 'unknown';
+const returnType = (types: string[]) => types.length === 0 ? 'void' : tensor(types);
+// Logical negation of a condition, in parentheses unless it is a name or a call
+const not = (cond: string, atomic: boolean) => atomic ? `!${cond}` : `!(${cond})`;
+
+const TOLK: Dialect = {
+  printers: tolkPrinters,
+  precedence: tolkPrecedence,
+  typeName: (types: IRType[] | undefined) => tolkTypeName(types),
+  stdlibName: (body) => STDLIB[body] && { ...STDLIB[body], builtin: true },
+  functionName: tolkFunctionName,
+  asmFunction: ({ name, params, self, reorder, results, typeVars, body }) => {
+    const generics = typeVars.length ? `<${typeVars.join(', ')}>` : '';
+    const args = params.map((p, i) => self && i === 0 ? 'self' : `${p.name}: ${p.type}`).join(', ');
+    const fnName = self ? `${params[0].type}.${name}` : name;
+    return `fun ${fnName}${generics}(${args}): ${returnType(results)} asm${reorder ? `(${reorder.join(' ')})` : ''} "${body}";`;
+  },
+  target: (parts) => {
+    const names = parts.map((p) => p?.id ?? '_');
+    if (parts.every((p) => !p || p.declared)) return tensor(names);
+    if (parts.every((p) => !p || !p.declared)) return `var ${tensor(names)}`;
+    return tensor(parts.map((p) => !p ? '_' : p.declared ? p.id : `var ${p.id}`));
+  },
+  uninitialized: (id, type) => `var ${id}: ${typeOrUnknown(type)};`,
+  nullValue: () => 'null',
+  cast: (expr, type) => `(${expr} as ${type})`,
+  ifHead: (cond, negate, atomic) => `if (${negate ? not(cond, atomic) : cond})`,
+  untilTail: (flag, atomic) => `} while (${not(flag, atomic)});`,
+  catchHead: (arg, code) => `} catch (${code}, ${arg}) {`,
+  returnStatement: (values) => values.length ? `return ${tensor(values)};` : 'return;',
+  comment: (text) => `// ${text}`,
+  scopedUntil: true,
+  match: (subject, arms) => braces(`match (${subject})`, arms.flatMap((a) => braces(`${a.value} =>`, a.body))),
+};
+
+// Tolk source of a program: `asm` declarations, then the methods (get-methods by their
+// names, with `@method_id` when the name does not give the id). Types come from
+// `inferTypes`, which annotates the program in place.
+export function printTolkProgram(p: Program): string {
+  inferTypes(p);
+  const decls = new AsmDeclarations(TOLK);
+  const methods = p.kind === 'multi' ? p.methods : new Map<number, IRFunction>();
+  const bodies: string[] = [];
+  const emit = (fn: IRFunction, name: string, methodId: number | null) => {
+    const { body, returns } = renderFunction(fn, name, TOLK, decls, methods);
+    const params = fn.args.map((a) => `${a.id}: ${typeOrUnknown(tolkTypeName(a.types))}`);
+    const ret = returns ? returnType(fn.result.map((r) => typeOrUnknown(tolkTypeName(r.types)))) : 'void';
+    const get = methodId !== null && methodId >= 0x10000;
+    if (get && methodIdFromName(name) !== methodId) bodies.push(`@method_id(${methodId})`);
+    bodies.push(...braces(`${get ? 'get ' : ''}fun ${name}(${params.join(', ')}): ${ret}`, body), '');
+  };
+  if (p.kind === 'single') emit(p.entry, tolkFunctionName(0), null);
+  else {
+    if (p.entry) bodies.push('// root code outside the method dictionary is not printed', '');
+    for (const id of Array.from(p.methods.keys()).sort((a, b) => a - b)) emit(p.methods.get(id)!, tolkFunctionName(id), id);
+  }
+  const asm = decls.declarations();
+  return [...asm, ...(asm.length ? [''] : []), ...bodies].join('\n');
+}
+
+function registerTolkPrinters() {
+  const binary = (op: string): InlinePrinter => (_st, ctx) => `${ctx.inP('x', 'left')} ${op} ${ctx.inP('y', 'right')}`;
+  const operators: Record<string, string> = {
+    ADD: '+', SUB: '-', MUL: '*', DIV: '/', MOD: '%', AND: '&', OR: '|', XOR: '^',
+    LSHIFT_VAR: '<<', RSHIFT_VAR: '>>', RSHIFTR_VAR: '~>>', RSHIFTC_VAR: '^>>',
+    LESS: '<', LEQ: '<=', GREATER: '>', GEQ: '>=', EQUAL: '==', NEQ: '!=', CMP: '<=>',
+  };
+  for (const [m, op] of Object.entries(operators)) registerTolkPrinter(m, binary(op));
+  // Operator with a constant operand: `x + 5`, `x - 5` for a negative addend
+  const constant = (op: string, name: string): InlinePrinter => (_st, ctx) => {
+    const c = ctx.opInt(name);
+    if (c === undefined) return null;
+    if (op === '+' && c < 0) return `${ctx.inP('x', 'left')} - ${-c}`;
+    return `${ctx.inP('x', 'left')} ${op} ${ctx.op(name)}`;
+  };
+  registerTolkPrinter('ADDCONST', constant('+', 'c'));
+  registerTolkPrinter('MULCONST', constant('*', 'c'));
+  registerTolkPrinter('LSHIFT', constant('<<', 'c'));
+  registerTolkPrinter('RSHIFT', constant('>>', 'c'));
+  registerTolkPrinter('RSHIFTR', constant('~>>', 'c'));
+  registerTolkPrinter('RSHIFTC', constant('^>>', 'c'));
+  registerTolkPrinter('EQINT', constant('==', 'y'));
+  registerTolkPrinter('NEQINT', constant('!=', 'y'));
+  registerTolkPrinter('LESSINT', constant('<', 'y'));
+  registerTolkPrinter('GTINT', constant('>', 'y'));
+  registerTolkPrinter('INC', (_st, ctx) => `${ctx.inP('x', 'left')} + 1`);
+  registerTolkPrinter('DEC', (_st, ctx) => `${ctx.inP('x', 'left')} - 1`);
+  registerTolkPrinter('NEGATE', (_st, ctx) => `-${ctx.inP('x')}`);
+  registerTolkPrinter('NOT', (_st, ctx) => `~${ctx.inP('x')}`);
+  registerTolkPrinterPrefix('PUSHINT_', (_st, ctx) => ctx.op('x') || ctx.op('i') || null);
+  registerTolkPrinter('NULL', () => 'null');
+  registerTolkPrinter('PUSHNULL', () => 'null');
+  registerTolkPrinter('DIVMOD', (_st, ctx) => `divMod(${ctx.in('x')}, ${ctx.in('y')})`);
+  registerTolkPrinter('MULDIV', (_st, ctx) => `mulDivFloor(${ctx.in('x')}, ${ctx.in('y')}, ${ctx.in('z')})`);
+  registerTolkPrinter('MULDIVR', (_st, ctx) => `mulDivRound(${ctx.in('x')}, ${ctx.in('y')}, ${ctx.in('z')})`);
+
+  // Receiver of a method call, in parentheses unless it is a name or a call
+  const receiver = (ctx: InlineContext, name: string) => {
+    const a = ctx.inRaw(name);
+    return a && (a as any).kind === 'inline' && tolkPrecedence((a as IRInlineExpr).op.mnemonic) < CALL_PRECEDENCE ? `(${ctx.in(name)})` : ctx.in(name);
+  };
+  registerTolkPrinter('ISNULL', (st, ctx) => st.inputs[0] ? `${receiver(ctx, st.inputs[0].name)} == null` : null);
+  // `self.name(args)` over the named inputs and operands (`#c`), when the instruction has them all
+  const method = (self: string, name: string, ...args: string[]): InlinePrinter => (st, ctx) => {
+    const has = (a: string) => a.startsWith('#') ? st.operands.some((o) => o.name === a.slice(1)) : st.inputs.some((i) => i.name === a);
+    if (![self, ...args].every(has)) return null;
+    const texts = args.map((a) => a.startsWith('#') ? ctx.op(a.slice(1)) : ctx.in(a));
+    return `${receiver(ctx, self)}.${name}(${texts.join(', ')})`;
+  };
+  registerTolkPrinter('LDU', method('s', 'loadUint', '#c'), 's');
+  registerTolkPrinter('LDI', method('s', 'loadInt', '#c'), 's');
+  registerTolkPrinter('LDREF', method('s', 'loadRef'), 's');
+  registerTolkPrinter('LDGRAMS', method('s', 'loadCoins'), 's');
+  registerTolkPrinter('LDDICT', method('s', 'loadDict'), 's');
+  registerTolkPrinter('PLDU', method('s', 'preloadUint', '#c'));
+  registerTolkPrinter('PLDI', method('s', 'preloadInt', '#c'));
+  registerTolkPrinter('STU', method('b', 'storeUint', 'x', '#c'), 'b');
+  registerTolkPrinter('STI', method('b', 'storeInt', 'x', '#c'), 'b');
+  registerTolkPrinter('STREF', method('b', 'storeRef', 'c'), 'b');
+  registerTolkPrinter('STSLICER', method('b', 'storeSlice', 's'), 'b');
+  registerTolkPrinter('STGRAMS', method('b', 'storeCoins', 'x'), 'b');
+  registerTolkPrinter('STDICT', method('b', 'storeDict', 'D'), 'b');
+
+  // Exceptions with numeric codes; conditional throws as `assert`
+  const code = (ctx: InlineContext) => String(ctx.opInt('n') ?? ctx.in('n'));
+  const flag = (ctx: InlineContext) => {
+    const a = ctx.inRaw('f');
+    return !a || (a as any).kind !== 'inline' || tolkPrecedence((a as IRInlineExpr).op.mnemonic) >= CALL_PRECEDENCE;
+  };
+  const assertion = (negate: boolean, thrown: (ctx: InlineContext) => string): InlinePrinter => (_st, ctx) =>
+    `assert(${negate ? not(ctx.in('f'), flag(ctx)) : ctx.in('f')}, ${thrown(ctx)})`;
+  for (const suffix of ['', '_SHORT']) {
+    registerTolkPrinter(`THROW${suffix}`, (_st, ctx) => `throw ${code(ctx)}`);
+    registerTolkPrinter(`THROWIF${suffix}`, assertion(true, code));
+    registerTolkPrinter(`THROWIFNOT${suffix}`, assertion(false, code));
+  }
+  registerTolkPrinter('THROWANY', (_st, ctx) => `throw ${ctx.in('n')}`);
+  registerTolkPrinter('THROWANYIF', assertion(true, (ctx) => ctx.in('n')));
+  registerTolkPrinter('THROWANYIFNOT', assertion(false, (ctx) => ctx.in('n')));
+  registerTolkPrinter('THROWARG', (_st, ctx) => `throw (${code(ctx)}, ${ctx.in('x')})`);
+  registerTolkPrinter('THROWARGANY', (_st, ctx) => `throw (${ctx.in('n')}, ${ctx.in('x')})`);
+}
+
+registerTolkPrinters();
@@ -0,0 +1,101 @@
+import fs from "fs";
+import path from "path";
+import { BOC, Bit, Builder, Cell, Slice } from "ton3-core";
+import { cp0 } from "../tvm-spec";
+import type { Instruction } from "../gen/tvm-spec";
+import { OpcodeParser, prefixToBin } from "../disasm";
+
+// Opcode decoder benchmark over a directory of BOC files (test_contracts/ by default).
+// Every cell is decoded as code until the first decoding error; the prefix lookup at
+// each decoded position is then timed for the trie decoder and for the original
+// linear scan (kept here as a reference implementation).
+//
+//   npm run bench [-- <dir> [iterations]]
+
+type Sample = { bits: Bit[]; slice: Slice };
+
+// Reference: try every prefix length, recomputing the longest prefix each step
+// and rebuilding a slice for every range check, as the decoder used to.
+const linearMap = new Map(cp0.instructions.map((insn) => [prefixToBin(insn.bytecode.prefix), insn]));
+const linearLongest = () => Math.max(...cp0.instructions.map((insn) => prefixToBin(insn.bytecode.prefix).length));
+
+function linearLookup(slice: Slice): Instruction | undefined {
+    for (let bits = 1; bits <= linearLongest(); bits++) {
+        if (bits > slice.bits.length) return undefined;
+        const prefix = slice.preloadBits(bits).join("");
+        const instruction = linearMap.get(prefix);
+        if (instruction == undefined) continue;
+        const rangeCheck = instruction.bytecode.operands_range_check;
+        if (rangeCheck != undefined) {
+            const operands = new Builder().storeBits(slice.bits).storeRefs(slice.refs).cell().slice().skipBits(prefix.length).loadUint(rangeCheck.length);
+            if (operands < rangeCheck.from || operands > rangeCheck.to) continue;
+        }
+        return instruction;
+    }
+    return undefined;
+}
+
+function collectCells(roots: Cell[]): Cell[] {
+    const seen = new Set<string>();
+    const out: Cell[] = [];
+    const work = [...roots];
+    while (work.length > 0) {
+        const cell = work.pop()!;
+        const hash = cell.hash();
+        if (seen.has(hash)) continue;
+        seen.add(hash);
+        out.push(cell);
+        work.push(...cell.refs);
+    }
+    return out;
+}
+
+// Decodes each cell as code and records the bits at every instruction start
+function collectSamples(cells: Cell[]): Sample[] {
+    const window = OpcodeParser.lookupWindow();
+    const samples: Sample[] = [];
+    for (const cell of cells) {
+        const slice = cell.slice();
+        while (slice.bits.length > 0) {
+            const bits = slice.preloadBits(Math.min(window, slice.bits.length));
+            const at = new Builder().storeBits(slice.bits).storeRefs(slice.refs).cell().slice();
+            try {
+                OpcodeParser.nextInstruction(slice);
+            } catch (_) {
+                break;
+            }
+            samples.push({ bits, slice: at });
+        }
+    }
+    return samples;
+}
+
+function time(label: string, iterations: number, run: () => void): number {
+    run(); // warm-up
+    const start = process.hrtime.bigint();
+    for (let i = 0; i < iterations; i++) run();
+    const ms = Number(process.hrtime.bigint() - start) / 1e6;
+    console.log(`${label.padEnd(16)} ${ms.toFixed(1).padStart(10)} ms`);
+    return ms;
+}
+
+function main() {
+    const dir = process.argv[2] ?? path.join(__dirname, "../../test_contracts");
+    const iterations = Number(process.argv[3] ?? 20);
+    const files = fs.readdirSync(dir).filter((f) => f.endsWith(".boc"));
+    const cells = collectCells(files.flatMap((f) => BOC.from(new Uint8Array(fs.readFileSync(path.join(dir, f)))).root));
+    const samples = collectSamples(cells);
+    console.log(`${files.length} files, ${cells.length} cells, ${samples.length} instructions, ${iterations} iterations`);
+
+    let mismatches = 0;
+    for (const s of samples) {
+        if (OpcodeParser.matchPrefix(s.bits)?.instruction !== linearLookup(s.slice)) mismatches++;
+    }
+    if (mismatches > 0) console.log(`warning: ${mismatches} lookups differ from the linear scan`);
+
+    const trie = time("trie", iterations, () => samples.forEach((s) => OpcodeParser.matchPrefix(s.bits)));
+    const linear = time("linear scan", iterations, () => samples.forEach((s) => linearLookup(s.slice)));
+    console.log(`speedup          ${(linear / trie).toFixed(1).padStart(10)}x`);
+}
+
+main();
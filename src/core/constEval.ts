@@ -0,0 +1,117 @@
+import type { Instruction } from "../gen/tvm-spec";
+import type { IROperands } from "./ir";
+import { applyDisplayHintsBigInt } from "../backend/displayHints";
+
+// Evaluation of integer instructions on constant inputs with TVM semantics: integers are
+// 257-bit signed, results out of range raise an overflow at run time and are not folded,
+// division rounds to -infinity, comparisons give -1 (true) or 0 (false).
+// Shared by the constant folding pass and the lifter (constant PICK/ROLLX/BLKSWX indexes).
+
+export const TVM_INT_MIN = -(1n << 256n);
+export const TVM_INT_MAX = (1n << 256n) - 1n;
+
+const bool = (b: boolean) => b ? -1n : 0n;
+
+const floorDiv = (x: bigint, y: bigint): bigint => {
+  const q = x / y;
+  return (x % y !== 0n && (x < 0n) !== (y < 0n)) ? q - 1n : q;
+};
+
+// Shift amounts and POW2 exponents outside 0..1023 raise a range check error
+const shiftAmount = (y: bigint): bigint | undefined => y >= 0n && y <= 1023n ? y : undefined;
+
+type Eval = (args: bigint[], imm: bigint | undefined) => bigint | bigint[] | undefined;
+
+// Pure integer instructions; `args` are the stack inputs deepest first, `imm` the
+// immediate operand with display hints applied
+const PURE: Record<string, Eval> = {
+  ADD: ([x, y]) => x + y,
+  SUB: ([x, y]) => x - y,
+  SUBR: ([x, y]) => y - x,
+  MUL: ([x, y]) => x * y,
+  NEGATE: ([x]) => -x,
+  INC: ([x]) => x + 1n,
+  DEC: ([x]) => x - 1n,
+  ADDCONST: ([x], c) => c === undefined ? undefined : x + c,
+  MULCONST: ([x], c) => c === undefined ? undefined : x * c,
+  DIV: ([x, y]) => y === 0n ? undefined : floorDiv(x, y),
+  MOD: ([x, y]) => y === 0n ? undefined : x - floorDiv(x, y) * y,
+  DIVMOD: ([x, y]) => y === 0n ? undefined : [floorDiv(x, y), x - floorDiv(x, y) * y],
+  LSHIFT_VAR: ([x, y]) => shiftAmount(y) === undefined ? undefined : x << y,
+  RSHIFT_VAR: ([x, y]) => shiftAmount(y) === undefined ? undefined : x >> y,
+  LSHIFT: ([x], c) => c === undefined ? undefined : x << c,
+  RSHIFT: ([x], c) => c === undefined ? undefined : x >> c,
+  POW2: ([y]) => shiftAmount(y) === undefined ? undefined : 1n << y,
+  AND: ([x, y]) => x & y,
+  OR: ([x, y]) => x | y,
+  XOR: ([x, y]) => x ^ y,
+  NOT: ([x]) => ~x,
+  ABS: ([x]) => x < 0n ? -x : x,
+  MIN: ([x, y]) => x < y ? x : y,
+  MAX: ([x, y]) => x > y ? x : y,
+  SGN: ([x]) => x > 0n ? 1n : x < 0n ? -1n : 0n,
+  LESS: ([x, y]) => bool(x < y),
+  LEQ: ([x, y]) => bool(x <= y),
+  GREATER: ([x, y]) => bool(x > y),
+  GEQ: ([x, y]) => bool(x >= y),
+  EQUAL: ([x, y]) => bool(x === y),
+  NEQ: ([x, y]) => bool(x !== y),
+  CMP: ([x, y]) => x < y ? -1n : x > y ? 1n : 0n,
+  EQINT: ([x], y) => y === undefined ? undefined : bool(x === y),
+  NEQINT: ([x], y) => y === undefined ? undefined : bool(x !== y),
+  LESSINT: ([x], y) => y === undefined ? undefined : bool(x < y),
+  GTINT: ([x], y) => y === undefined ? undefined : bool(x > y),
+  ISZERO: ([x]) => bool(x === 0n),
+  ISNEG: ([x]) => bool(x < 0n),
+  ISPOS: ([x]) => bool(x > 0n),
+  ISNNEG: ([x]) => bool(x >= 0n),
+  ISNPOS: ([x]) => bool(x <= 0n),
+};
+
+// Constant pushers of `const_int`, keyed by mnemonic prefix
+const CONSTANTS: Array<[string, (imm: bigint) => bigint]> = [
+  ['PUSHINT', (x) => x],
+  ['PUSHPOW2DEC', (x) => (1n << x) - 1n],
+  ['PUSHNEGPOW2', (x) => -(1n << x)],
+  ['PUSHPOW2', (x) => 1n << x],
+];
+
+const inRange = (v: bigint) => v >= TVM_INT_MIN && v <= TVM_INT_MAX;
+
+// First integer operand, as Asm.fif shows it (PUSHINT_4 sign, `+1` offsets of shifts, ...)
+function immediate(spec: Instruction, operands: Record<string, unknown>): bigint | undefined {
+  for (const op of spec.bytecode?.operands ?? []) {
+    const raw = operands[op.name];
+    if (typeof raw !== 'number' && typeof raw !== 'bigint') continue;
+    return applyDisplayHintsBigInt(BigInt(raw), (op as any).display_hints).value;
+  }
+  return undefined;
+}
+
+// Raw operand values of a lifted instruction
+export function operandValues(operands: IROperands): Record<string, unknown> {
+  return Object.fromEntries(operands.map(({ name, value }) => [name, value.kind === 'int' || value.kind === 'bigint' ? value.value : undefined]));
+}
+
+// Value pushed by an integer constant instruction
+export function constantValue(spec: Instruction, operands: Record<string, unknown>): bigint | undefined {
+  if (spec.doc?.category !== 'const_int') return undefined;
+  const imm = immediate(spec, operands);
+  const push = CONSTANTS.find(([prefix]) => spec.mnemonic.startsWith(prefix))?.[1];
+  return imm === undefined || !push ? undefined : push(imm);
+}
+
+export function isPureIntOp(spec: Instruction): boolean {
+  return Object.prototype.hasOwnProperty.call(PURE, spec.mnemonic);
+}
+
+// Outputs (in spec order) of a pure integer instruction on constant inputs (deepest
+// first), or undefined when it is not foldable or would fail at run time
+export function evaluatePure(spec: Instruction, operands: Record<string, unknown>, args: bigint[]): bigint[] | undefined {
+  const run = PURE[spec.mnemonic];
+  if (!run || args.length !== (spec.value_flow?.inputs?.stack?.length ?? 0)) return undefined;
+  const out = run(args, immediate(spec, operands));
+  if (out === undefined) return undefined;
+  const values = Array.isArray(out) ? out : [out];
+  return values.every(inRange) ? values : undefined;
+}
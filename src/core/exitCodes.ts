@@ -0,0 +1,38 @@
+// Exit code naming service: user-supplied names for the codes contracts throw,
+// used by the printer in `throw*` calls and by the exit-code catalogue.
+
+const exitCodeNames = new Map<number, string>();
+
+export class ExitCodeNameListError extends Error {
+  public line: number;
+
+  public constructor(line: number, text: string) {
+    super(`Invalid exit code name at line ${line}: ${text}`);
+    this.name = "ExitCodeNameListError";
+    this.line = line;
+  }
+}
+
+// Adds names for codes; a later name for the same code replaces the earlier one
+export function registerExitCodeNames(names: ReadonlyMap<number, string> | ReadonlyArray<[number, string]>) {
+  for (const [code, name] of names) exitCodeNames.set(code, name);
+}
+
+// Parses a code list: `<code> <name>` or `<code> = <name>` per line, `#` starts a comment.
+// Codes are decimal or 0x-hex, names are identifiers.
+export function parseExitCodeNameList(text: string): Map<number, string> {
+  const names = new Map<number, string>();
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.replace(/#.*$/, '').trim();
+    if (line.length === 0) return;
+    const m = /^(-?(?:0x[0-9a-fA-F]+|\d+))\s*(?:=\s*|\s)\s*([A-Za-z_][A-Za-z0-9_]*)$/.exec(line);
+    if (!m) throw new ExitCodeNameListError(i + 1, line);
+    const code = m[1].startsWith('-') ? -Number(m[1].slice(1)) : Number(m[1]);
+    names.set(code, m[2]);
+  });
+  return names;
+}
+
+export function exitCodeName(code: number): string | undefined {
+  return exitCodeNames.get(code);
+}
@@ -44,6 +44,28 @@ export type IRInputs = Array<{ name: string; value: IRInputArg }>;
 
 export type IROutputs = Array<{ name: string; value: IRValueDef }>;
 
+// Where an instruction was decoded from: hash of the cell holding it (hex),
+// bit offset inside that cell and encoded length in bits
+export type IRSourceLocation = {
+  cellHash: string;
+  bitOffset: number;
+  bitLength: number;
+};
+
+// Where a merged value comes from on one path through a branching statement: `path` is the
+// continuation that ran (its input or operand name, e.g. `c`, `c2`) or `skip` when none did;
+// the value is a result of that continuation (counted from the bottom) or an input of the
+// statement, for values the path leaves untouched
+export type IRPhiSource =
+  | { path: string; result: number }
+  | { path: string; input: string };
+
+// SSA phi node: output `output` of the statement takes the value of the path that ran
+export type IRPhi = {
+  output: IRValueId;
+  sources: IRPhiSource[];
+};
+
 export type IROpPrim = {
   kind: 'prim';
   spec: Instruction;
@@ -51,6 +73,11 @@ export type IROpPrim = {
   inputs: IRInputs;
   operands: IROperands;
   outputs: IROutputs;
+  // Set on IF/IFELSE and friends that leave values on the stack: one per output
+  phis?: IRPhi[];
+  // Set on CALLDICT/JMPDICT whose target method was resolved; inputs/outputs follow callee arity
+  callee?: { methodId: number };
+  loc?: IRSourceLocation;
 };
 
 export type IRStmt = IROpPrim;
@@ -61,7 +88,7 @@ export type IRFunction = {
   args: IRValueDef[];
   body: IRStmt[];
   result: IRValueRef[];
-  asmTail?: { spec: Instruction; operands: IROperands }[];
+  asmTail?: { spec: Instruction; operands: IROperands; loc?: IRSourceLocation }[];
   tailSliceInfo?: string;
   decompileError?: string | null;
   disassembleError?: string | null;
@@ -0,0 +1,85 @@
+// Method naming service: maps method ids back to names.
+// Get-method ids are derived from names as `(crc16(name) & 0xffff) | 0x10000`
+// (CRC-16/XMODEM over the UTF-8 name), so a list of candidate names is
+// enough to recover them. Special ids of receivers are fixed.
+
+const SPECIAL_METHODS: ReadonlyArray<[number, string]> = [
+  [0, 'recv_internal'],
+  [-1, 'recv_external'],
+  [-2, 'run_ticktock'],
+  [-3, 'split_prepare'],
+  [-4, 'split_install'],
+];
+
+// Well-known get-method names of wallets, jettons, NFTs, DNS and other standard contracts
+const BUNDLED_METHOD_NAMES: readonly string[] = [
+  // wallets
+  'seqno', 'get_public_key', 'get_subwallet_id', 'get_plugin_list', 'is_plugin_installed',
+  'get_extensions', 'get_is_signature_allowed', 'get_wallet_id',
+  // jettons (TEP-74/89)
+  'get_jetton_data', 'get_wallet_address', 'get_wallet_data', 'get_status',
+  // NFTs (TEP-62/66) and sales
+  'get_nft_data', 'get_collection_data', 'get_nft_address_by_index', 'get_nft_content',
+  'royalty_params', 'get_static_data', 'get_authority_address', 'get_revoked_time',
+  'get_editor', 'get_sale_data', 'get_offer_data',
+  // DNS and telemint
+  'dnsresolve', 'get_domain', 'get_full_domain', 'get_last_fill_up_time', 'get_auction_info',
+  'get_telemint_token_name', 'get_telemint_auction_state', 'get_telemint_auction_config',
+  // subscriptions, storage, multisig, vesting
+  'get_subscription_data', 'get_storage_params', 'get_storage_contract_address',
+  'get_storage_contract_data', 'get_multisig_data', 'get_order_estimate', 'get_vesting_data',
+  'get_lockup_data', 'get_locker_data', 'get_bill_address', 'get_bill_data',
+  // staking and pools
+  'get_pool_data', 'get_pool_full_data', 'get_nominator_data', 'list_nominators', 'list_votes',
+  'get_staking_status', 'get_params', 'get_router_data', 'get_lp_account_address',
+  'get_lp_account_data', 'get_pool_address', 'get_expected_outputs', 'get_vault_address',
+  // misc
+  'get_version', 'get_owner', 'get_balance', 'get_contract_state', 'get_code_hash',
+];
+
+const methodNames = new Map<number, string>();
+
+const utf8 = new TextEncoder();
+
+// CRC-16/XMODEM: poly 0x1021, init 0, no reflection
+export function crc16(data: Uint8Array): number {
+  let crc = 0;
+  for (const byte of data) {
+    crc ^= byte << 8;
+    for (let i = 0; i < 8; i++) {
+      crc = (crc & 0x8000) ? ((crc << 1) ^ 0x1021) : (crc << 1);
+      crc &= 0xffff;
+    }
+  }
+  return crc;
+}
+
+export function methodIdFromName(name: string): number {
+  const special = SPECIAL_METHODS.find(([, n]) => n === name);
+  if (special) return special[0];
+  return (crc16(utf8.encode(name)) & 0xffff) | 0x10000;
+}
+
+// Adds candidate names (e.g. a user word list); they replace bundled or earlier names on collision
+export function registerMethodNames(names: readonly string[]) {
+  for (const name of names) methodNames.set(methodIdFromName(name), name);
+}
+
+// Parses a word list: one name per line, `#` starts a comment
+export function parseMethodNameList(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((l) => l.replace(/#.*$/, '').trim())
+    .filter((l) => l.length > 0);
+}
+
+export function methodNameFromId(id: number): string | undefined {
+  return methodNames.get(id);
+}
+
+for (const [id, name] of SPECIAL_METHODS) methodNames.set(id, name);
+// Among bundled names the first one listed wins on collision
+for (const name of BUNDLED_METHOD_NAMES) {
+  const id = methodIdFromName(name);
+  if (!methodNames.has(id)) methodNames.set(id, name);
+}
@@ -1,16 +1,29 @@
+import type { Cell } from "ton3-core";
 import type { IRFunction } from "./ir";
 
 // Program representation for frontend output and backend input
 // - A contract can be either a single entry function or a map of methods
+// - `layout` names the detected method dispatch layout; `entry` holds root code
+//   that runs before the method lookup (absent for plain dispatchers)
+// - `storage` keeps persistent data/libraries when code was loaded from a StateInit or Account
+
+export type ContractStorage = {
+  data: Cell | null;
+  libraries: Cell | null;
+};
 
 export type SingleFunctionProgram = {
   kind: 'single';
   entry: IRFunction;
+  storage?: ContractStorage;
 };
 
 export type MultiFunctionProgram = {
   kind: 'multi';
   methods: Map<number, IRFunction>;
+  layout?: string;
+  entry?: IRFunction;
+  storage?: ContractStorage;
 };
 
 export type Program = SingleFunctionProgram | MultiFunctionProgram;
@@ -0,0 +1,382 @@
+import { BOC, Builder, Cell } from "ton3-core";
+import type { Instruction } from "../gen/tvm-spec";
+import type {
+  IRFunction, IRInputArg, IROperands, IROperandValue, IROpPrim, IROutputs, IRPhi, IRSourceLocation, IRType, IRValueDef, IRValueRef,
+} from "./ir";
+import type { Program } from "./program";
+import { findInstruction } from "../disasm";
+
+// Versioned JSON form of lifted IR, for saving, diffing and external tools.
+// - instruction specs are referenced by mnemonic and looked up again on load
+// - slices and cells are single-root BOCs in base64, bigints are decimal strings
+// - `cont_map` operands and method maps are objects keyed by the decimal key
+// - a continuation reachable from several places (PUSHCONT operand and the
+//   `continuation` of the values it flows into) is written once with `$id`
+//   and referred to as `{ "$ref": n }` elsewhere, so loading restores sharing
+
+export const IR_JSON_FORMAT = 'tvm-spec-ir';
+export const IR_JSON_VERSION = 1;
+
+export type IRJsonValueDef = { id: string; types?: IRType[] };
+
+export type IRJsonValueRef = IRJsonValueDef & { continuation?: IRJsonFunctionOrRef };
+
+export type IRJsonInput = IRJsonValueRef | { inline: IRJsonOp };
+
+export type IRJsonOperand =
+  | { kind: 'int'; value: number }
+  | { kind: 'bigint'; value: string }
+  | { kind: 'bool'; value: boolean }
+  | { kind: 'slice'; value: string }
+  | { kind: 'cell'; value: string }
+  | { kind: 'cont'; value: IRJsonFunctionOrRef }
+  | { kind: 'cont_map'; value: { [key: string]: IRJsonFunctionOrRef } }
+  | { kind: 'other'; value: string }; // not restorable: kept as text
+
+export type IRJsonOp = {
+  mnemonic: string;
+  spec?: string; // spec mnemonic when it differs from `mnemonic`
+  inputs: Array<{ name: string; value: IRJsonInput }>;
+  operands: Array<{ name: string; value: IRJsonOperand }>;
+  outputs: Array<{ name: string; value: IRJsonValueDef }>;
+  phis?: IRPhi[];
+  callee?: { methodId: number };
+  loc?: IRSourceLocation;
+};
+
+export type IRJsonFunction = {
+  $id: number;
+  name?: string;
+  args: IRJsonValueDef[];
+  body: IRJsonOp[];
+  result: IRJsonValueRef[];
+  asmTail?: Array<{ spec: string; operands: IRJsonOp['operands']; loc?: IRSourceLocation }>;
+  tailSliceInfo?: string;
+  decompileError?: string | null;
+  disassembleError?: string | null;
+};
+
+export type IRJsonFunctionOrRef = IRJsonFunction | { $ref: number };
+
+export type IRJsonProgram =
+  | { kind: 'single'; entry: IRJsonFunctionOrRef; storage?: IRJsonStorage }
+  | { kind: 'multi'; methods: { [id: string]: IRJsonFunctionOrRef }; layout?: string; entry?: IRJsonFunctionOrRef; storage?: IRJsonStorage };
+
+export type IRJsonStorage = { data: string | null; libraries: string | null };
+
+export type IRJsonDocument =
+  | { format: typeof IR_JSON_FORMAT; version: number; program: IRJsonProgram }
+  | { format: typeof IR_JSON_FORMAT; version: number; function: IRJsonFunctionOrRef };
+
+export class IRFormatError extends Error {
+  public constructor(message: string) {
+    super(`Invalid IR JSON: ${message}`);
+    this.name = "IRFormatError";
+  }
+}
+
+// Looks up instruction specs by mnemonic when loading; defaults to the registered code pages
+export type SpecResolver = (mnemonic: string) => Instruction | undefined;
+
+const cellToBase64 = (cell: Cell) => new BOC([cell]).toString('base64');
+
+function cellFromBase64(text: string): Cell {
+  try {
+    return BOC.from(text).root[0];
+  } catch (e) {
+    throw new IRFormatError(`bad BOC ${JSON.stringify(text)} (${e})`);
+  }
+}
+
+// --- Writing ---
+
+class Writer {
+  private ids = new Map<IRFunction, number>();
+
+  fn(fn: IRFunction): IRJsonFunctionOrRef {
+    const known = this.ids.get(fn);
+    if (known !== undefined) return { $ref: known };
+    const $id = this.ids.size;
+    this.ids.set(fn, $id);
+    const out: IRJsonFunction = {
+      $id,
+      ...(fn.name !== undefined ? { name: fn.name } : {}),
+      args: fn.args.map((a) => this.def(a)),
+      body: fn.body.map((st) => this.op(st)),
+      result: fn.result.map((r) => this.ref(r)),
+    };
+    if (fn.asmTail) out.asmTail = fn.asmTail.map(({ spec, operands, loc }) => ({ spec: spec.mnemonic, operands: this.operands(operands), ...(loc ? { loc } : {}) }));
+    if (fn.tailSliceInfo !== undefined) out.tailSliceInfo = fn.tailSliceInfo;
+    if (fn.decompileError !== undefined) out.decompileError = fn.decompileError;
+    if (fn.disassembleError !== undefined) out.disassembleError = fn.disassembleError;
+    return out;
+  }
+
+  private def(v: IRValueDef): IRJsonValueDef {
+    return v.types ? { id: v.id, types: v.types } : { id: v.id };
+  }
+
+  private ref(v: IRValueRef): IRJsonValueRef {
+    const out: IRJsonValueRef = this.def(v);
+    if (v.continuationMeta) out.continuation = this.fn(v.continuationMeta.continuation);
+    return out;
+  }
+
+  private input(a: IRInputArg): IRJsonInput {
+    return (a as any).kind === 'inline' ? { inline: this.op((a as any).op as IROpPrim) } : this.ref(a as IRValueRef);
+  }
+
+  private op(st: IROpPrim): IRJsonOp {
+    const out: IRJsonOp = {
+      mnemonic: st.mnemonic,
+      ...(st.spec.mnemonic !== st.mnemonic ? { spec: st.spec.mnemonic } : {}),
+      inputs: st.inputs.map(({ name, value }) => ({ name, value: this.input(value) })),
+      operands: this.operands(st.operands),
+      outputs: st.outputs.map(({ name, value }) => ({ name, value: this.def(value) })),
+    };
+    if (st.phis) out.phis = st.phis.map(({ output, sources }) => ({ output, sources: sources.map((s) => ({ ...s })) }));
+    if (st.callee) out.callee = { methodId: st.callee.methodId };
+    if (st.loc) out.loc = st.loc;
+    return out;
+  }
+
+  private operands(ops: IROperands): IRJsonOp['operands'] {
+    return ops.map(({ name, value }) => ({ name, value: this.operand(value) }));
+  }
+
+  private operand(v: IROperandValue): IRJsonOperand {
+    switch (v.kind) {
+      case 'int':
+      case 'bool': return v;
+      case 'bigint': return { kind: 'bigint', value: v.value.toString() };
+      case 'slice': return { kind: 'slice', value: cellToBase64(new Builder().storeSlice(v.value).cell()) };
+      case 'cell': return { kind: 'cell', value: cellToBase64(v.value) };
+      case 'cont': return { kind: 'cont', value: this.fn(v.value) };
+      case 'cont_map': {
+        const value: { [key: string]: IRJsonFunctionOrRef } = {};
+        v.value.forEach((fn, k) => { value[String(k)] = this.fn(fn); });
+        return { kind: 'cont_map', value };
+      }
+      case 'other': return { kind: 'other', value: String(v.value) };
+    }
+  }
+}
+
+// --- Reading ---
+
+class Reader {
+  private fns = new Map<number, IRFunction>();
+  // `$ref`s are resolved once the whole document is read: a continuation may be
+  // referenced before the place it is written at
+  private fixups: Array<() => void> = [];
+  private specs = new Map<string, Instruction>();
+
+  constructor(private resolveSpec: SpecResolver) {}
+
+  finish() {
+    for (const fixup of this.fixups) fixup();
+    this.fixups = [];
+  }
+
+  // Calls `set` with the function, now or after the document is read
+  fn(j: IRJsonFunctionOrRef, set: (fn: IRFunction) => void) {
+    if ('$ref' in j) {
+      this.fixups.push(() => {
+        const fn = this.fns.get(j.$ref);
+        if (!fn) throw new IRFormatError(`dangling $ref ${j.$ref}`);
+        set(fn);
+      });
+      return;
+    }
+    const fn: IRFunction = {
+      kind: 'function',
+      ...(j.name !== undefined ? { name: j.name } : {}),
+      args: j.args.map((a) => this.def(a)),
+      body: [],
+      result: [],
+    };
+    if (this.fns.has(j.$id)) throw new IRFormatError(`duplicate $id ${j.$id}`);
+    this.fns.set(j.$id, fn);
+    fn.body = j.body.map((op) => this.op(op));
+    fn.result = j.result.map((r) => this.ref(r));
+    if (j.asmTail) fn.asmTail = j.asmTail.map(({ spec, operands, loc }) => ({ spec: this.spec(spec), operands: this.operands(operands), ...(loc ? { loc } : {}) }));
+    if (j.tailSliceInfo !== undefined) fn.tailSliceInfo = j.tailSliceInfo;
+    if (j.decompileError !== undefined) fn.decompileError = j.decompileError;
+    if (j.disassembleError !== undefined) fn.disassembleError = j.disassembleError;
+    set(fn);
+  }
+
+  private spec(mnemonic: string): Instruction {
+    let spec = this.specs.get(mnemonic);
+    if (!spec) {
+      spec = this.resolveSpec(mnemonic);
+      if (!spec) throw new IRFormatError(`unknown instruction ${mnemonic}`);
+      this.specs.set(mnemonic, spec);
+    }
+    return spec;
+  }
+
+  private def(j: IRJsonValueDef): IRValueDef {
+    return j.types ? { id: j.id, types: j.types } : { id: j.id };
+  }
+
+  private ref(j: IRJsonValueRef): IRValueRef {
+    const out: IRValueRef = this.def(j);
+    if (j.continuation) this.fn(j.continuation, (fn) => { out.continuationMeta = { continuation: fn }; });
+    return out;
+  }
+
+  private input(j: IRJsonInput): IRInputArg {
+    return 'inline' in j ? { kind: 'inline', op: this.op(j.inline) } : this.ref(j);
+  }
+
+  private op(j: IRJsonOp): IROpPrim {
+    const outputs: IROutputs = j.outputs.map(({ name, value }) => ({ name, value: this.def(value) }));
+    const op: IROpPrim = {
+      kind: 'prim',
+      spec: this.spec(j.spec ?? j.mnemonic),
+      mnemonic: j.mnemonic,
+      inputs: j.inputs.map(({ name, value }) => ({ name, value: this.input(value) })),
+      operands: this.operands(j.operands),
+      outputs,
+    };
+    if (j.phis) op.phis = j.phis.map(({ output, sources }) => ({ output, sources: sources.map((s) => ({ ...s })) }));
+    if (j.callee) op.callee = { methodId: j.callee.methodId };
+    if (j.loc) op.loc = j.loc;
+    return op;
+  }
+
+  // Entries are added once every value is read, continuations included
+  private operands(ops: IRJsonOp['operands']): IROperands {
+    const out: IROperands = [];
+    const values: Array<IROperandValue | undefined> = ops.map(() => undefined);
+    let pending = ops.length;
+    ops.forEach(({ value }, i) => this.operand(value, (v) => {
+      values[i] = v;
+      if (--pending === 0) ops.forEach(({ name }, n) => out.push({ name, value: values[n]! }));
+    }));
+    return out;
+  }
+
+  // Fills `m` with the functions keyed by id, in document order even when some resolve later
+  fnMap(j: { [id: string]: IRJsonFunctionOrRef }, m: Map<number, IRFunction>) {
+    const keys = Object.keys(j);
+    const slots: Array<IRFunction | undefined> = keys.map(() => undefined);
+    let pending = keys.length;
+    keys.forEach((k, i) => this.fn(j[k], (fn) => {
+      slots[i] = fn;
+      if (--pending === 0) keys.forEach((key, n) => m.set(Number(key), slots[n]!));
+    }));
+  }
+
+  private operand(j: IRJsonOperand, set: (v: IROperandValue) => void) {
+    switch (j.kind) {
+      case 'int':
+      case 'bool': return set({ ...j });
+      case 'bigint': return set({ kind: 'bigint', value: BigInt(j.value) });
+      case 'slice': return set({ kind: 'slice', value: cellFromBase64(j.value).slice() });
+      case 'cell': return set({ kind: 'cell', value: cellFromBase64(j.value) });
+      case 'cont': return this.fn(j.value, (fn) => set({ kind: 'cont', value: fn }));
+      case 'cont_map': {
+        const m = new Map<number, IRFunction>();
+        this.fnMap(j.value, m);
+        return set({ kind: 'cont_map', value: m });
+      }
+      case 'other': return set({ kind: 'other', value: j.value });
+      default: throw new IRFormatError(`unknown operand kind ${(j as any).kind}`);
+    }
+  }
+}
+
+// --- Public API ---
+
+function storageToJSON(s: Program['storage']): IRJsonStorage | undefined {
+  if (!s) return undefined;
+  return { data: s.data ? cellToBase64(s.data) : null, libraries: s.libraries ? cellToBase64(s.libraries) : null };
+}
+
+export function serializeProgram(p: Program): IRJsonDocument {
+  const w = new Writer();
+  const storage = storageToJSON(p.storage);
+  let program: IRJsonProgram;
+  if (p.kind === 'single') {
+    program = { kind: 'single', entry: w.fn(p.entry), ...(storage ? { storage } : {}) };
+  } else {
+    const entry = p.entry ? w.fn(p.entry) : undefined;
+    const methods: { [id: string]: IRJsonFunctionOrRef } = {};
+    for (const id of Array.from(p.methods.keys()).sort((a, b) => a - b)) methods[String(id)] = w.fn(p.methods.get(id)!);
+    program = {
+      kind: 'multi',
+      methods,
+      ...(p.layout !== undefined ? { layout: p.layout } : {}),
+      ...(entry ? { entry } : {}),
+      ...(storage ? { storage } : {}),
+    };
+  }
+  return { format: IR_JSON_FORMAT, version: IR_JSON_VERSION, program };
+}
+
+export function serializeFunction(fn: IRFunction): IRJsonDocument {
+  return { format: IR_JSON_FORMAT, version: IR_JSON_VERSION, function: new Writer().fn(fn) };
+}
+
+// Documents come from outside (parsed JSON), so even their header is checked
+function checkDocument(doc: unknown): void {
+  if (typeof doc !== 'object' || doc === null || !('format' in doc) || doc.format !== IR_JSON_FORMAT) {
+    throw new IRFormatError(`expected format "${IR_JSON_FORMAT}"`);
+  }
+  const version = 'version' in doc ? doc.version : undefined;
+  if (version !== IR_JSON_VERSION) throw new IRFormatError(`unsupported version ${version} (expected ${IR_JSON_VERSION})`);
+}
+
+export function deserializeProgram(doc: IRJsonDocument, resolveSpec: SpecResolver = findInstruction): Program {
+  checkDocument(doc);
+  if (!('program' in doc)) throw new IRFormatError('document holds a function, not a program');
+  const r = new Reader(resolveSpec);
+  const j = doc.program;
+  const storage = j.storage
+    ? { data: j.storage.data ? cellFromBase64(j.storage.data) : null, libraries: j.storage.libraries ? cellFromBase64(j.storage.libraries) : null }
+    : undefined;
+  let program: Program | undefined;
+  if (j.kind === 'single') {
+    r.fn(j.entry, (entry) => { program = { kind: 'single', entry, ...(storage ? { storage } : {}) }; });
+  } else if (j.kind === 'multi') {
+    const multi: Program = {
+      kind: 'multi',
+      methods: new Map(),
+      ...(j.layout !== undefined ? { layout: j.layout } : {}),
+      ...(storage ? { storage } : {}),
+    };
+    if (j.entry) r.fn(j.entry, (fn) => { multi.entry = fn; });
+    r.fnMap(j.methods, multi.methods);
+    program = multi;
+  } else {
+    throw new IRFormatError(`unknown program kind ${(j as any).kind}`);
+  }
+  r.finish();
+  return program!;
+}
+
+export function deserializeFunction(doc: IRJsonDocument, resolveSpec: SpecResolver = findInstruction): IRFunction {
+  checkDocument(doc);
+  if (!('function' in doc)) throw new IRFormatError('document holds a program, not a function');
+  const r = new Reader(resolveSpec);
+  let out: IRFunction | undefined;
+  r.fn(doc.function, (fn) => { out = fn; });
+  r.finish();
+  return out!;
+}
+
+export function programToJSON(p: Program): string {
+  return JSON.stringify(serializeProgram(p), null, 2);
+}
+
+export function programFromJSON(text: string, resolveSpec: SpecResolver = findInstruction): Program {
+  let doc: IRJsonDocument;
+  try {
+    doc = JSON.parse(text);
+  } catch (e) {
+    throw new IRFormatError(String(e));
+  }
+  return deserializeProgram(doc, resolveSpec);
+}
@@ -1,37 +1,134 @@
 import type { Program } from "./core/program";
-import { defaultPipeline } from "./middle/pipeline";
-import { printProgram } from "./backend/printer";
-import { liftSliceToIR } from "./frontend/lifter";
-import { loadEntrySlice, tryDecodeFunctionDictFromRoot } from "./frontend/loader";
+import { DEFAULT_PASSES, Pipeline, pipelineFromPasses } from "./middle/pipeline";
+import { PrintOptions, printProgram, printProgramWithSourceMap } from "./backend/printer";
+import type { SourceMap } from "./backend/sourceMap";
+import { printFuncProgram } from "./backend/func";
+import { printTolkProgram } from "./backend/tolk";
+import { FiftListingOptions, printFiftCode, printFiftMethod, printFiftProgram } from "./backend/fift";
+import type { IRFunction } from "./core/ir";
+import { CallTarget, CallTargetResolver, liftSliceToIR } from "./frontend/lifter";
+import { BocStringFormat, cloneSlice, LoadedContract, loadContractFile, loadContractFromBytes, loadContractFromString } from "./frontend/loader";
+import { detectMethodDictLayout } from "./frontend/layouts";
 import { Slice } from "ton3-core";
 
+// Upper bound on re-lifting rounds while propagating callee arities through call chains
+const MAX_CALL_RESOLUTION_ROUNDS = 8;
+
+export type DecompilerOptions = {
+  // Target TVM global version: instructions with a later `since_version` are rejected
+  globalVersion?: number;
+  // Middle-end passes by registered name, in order (default: DEFAULT_PASSES; [] prints lifted IR as is)
+  passes?: readonly string[];
+};
+
 export class Decompiler {
+  private options: DecompilerOptions;
+  private pipeline: Pipeline;
+
+  constructor(options: DecompilerOptions = {}) {
+    this.options = options;
+    // Built up front so that unknown pass names fail before any work is done
+    this.pipeline = pipelineFromPasses(options.passes ?? DEFAULT_PASSES);
+  }
+
   decompileSlice(root: Slice): Program {
-    const dict = tryDecodeFunctionDictFromRoot(root);
-    if (dict) {
-      const methods = new Map<number, ReturnType<typeof liftSliceToIR>>();
-      dict.forEach((contSlice, id) => {
-        const ir = liftSliceToIR(contSlice);
+    const layout = detectMethodDictLayout(root);
+    if (layout) {
+      const { codePage } = layout;
+      const { globalVersion } = this.options;
+      const resolveCall = this.resolveMethodArities(layout.methods, codePage);
+      const methods = new Map<number, IRFunction>();
+      layout.methods.forEach((contSlice, id) => {
+        const ir = liftSliceToIR(cloneSlice(contSlice), { resolveCall, codePage, globalVersion }, layout.origins.methods.get(id));
         methods.set(id, this.runMiddle(ir));
       });
-      return { kind: 'multi', methods };
+      const entryOrigin = layout.origins.entry ?? undefined;
+      const entry = layout.entry ? { ...this.runMiddle(liftSliceToIR(layout.entry, { resolveCall, codePage, globalVersion }, entryOrigin)), name: 'main' } : undefined;
+      return { kind: 'multi', methods, layout: layout.layout, entry };
     } else {
-      const ir = liftSliceToIR(root);
+      const ir = liftSliceToIR(root, { globalVersion: this.options.globalVersion });
       return { kind: 'single', entry: this.runMiddle(ir) };
     }
   }
 
+  // Decompiles contract code and keeps data/libraries of StateInit/Account next to the program
+  decompileContract(contract: LoadedContract): Program {
+    const program = this.decompileSlice(contract.code);
+    if (contract.kind === 'code') return program;
+    return { ...program, storage: { data: contract.data, libraries: contract.libraries } };
+  }
+
+  // Fift-asm listing of raw code (every instruction, no lifting or passes)
+  disassembleSlice(root: Slice, opts: FiftListingOptions = {}): string {
+    const layout = detectMethodDictLayout(root);
+    return layout ? printFiftProgram(layout, opts) : printFiftCode(root, opts);
+  }
+
+  // Listing of one method (`null`: root entry code, the whole root without a method
+  // dictionary); null when there is no such method
+  disassembleMethod(root: Slice, methodId: number | null, opts: FiftListingOptions = {}): string | null {
+    const layout = detectMethodDictLayout(root);
+    if (!layout) return methodId === null ? printFiftCode(root, opts) : null;
+    return printFiftMethod(layout, methodId, opts);
+  }
+
   decompileFile(path: string): Program {
-    const root = loadEntrySlice(path);
-    return this.decompileSlice(root);
+    return this.decompileContract(loadContractFile(path));
+  }
+
+  // In-memory entry points: do not require Node's fs, usable in browsers/sandboxes
+  decompileBytes(bytes: Uint8Array): Program {
+    return this.decompileContract(loadContractFromBytes(bytes));
+  }
+
+  decompileString(input: string, format: BocStringFormat): Program {
+    return this.decompileContract(loadContractFromString(input, format));
+  }
+
+  // Interprocedural step: lift every method, record its args/result arity and re-lift
+  // with that arity applied to CALLDICT/JMPDICT until arities stop changing.
+  // Methods that failed to decompile are left unresolved.
+  private resolveMethodArities(slices: Map<number, Slice>, codePage: number): CallTargetResolver {
+    const { globalVersion } = this.options;
+    let arities = new Map<number, CallTarget>();
+    for (let round = 0; round < MAX_CALL_RESOLUTION_ROUNDS; round++) {
+      const known = arities;
+      const next = new Map<number, CallTarget>();
+      slices.forEach((contSlice, id) => {
+        const ir = liftSliceToIR(cloneSlice(contSlice), { resolveCall: (m) => known.get(m), codePage, globalVersion });
+        if (ir.decompileError == null) next.set(id, { args: ir.args.length, results: ir.result.length });
+      });
+      const stable = next.size === known.size && [...next].every(([id, t]) => {
+        const prev = known.get(id);
+        return prev !== undefined && prev.args === t.args && prev.results === t.results;
+      });
+      arities = next;
+      if (stable) break;
+    }
+    const resolved = arities;
+    return (m) => resolved.get(m);
+  }
+
+  private runMiddle(fn: IRFunction) {
+    return this.pipeline.run(fn);
+  }
+
+  format(p: Program, opts: PrintOptions = {}): string {
+    return printProgram(p, opts);
+  }
+
+  // Pseudo-code plus the bytecode location of every printed instruction by output line
+  formatWithSourceMap(p: Program, opts: Pick<PrintOptions, 'types'> = {}): { text: string; sourceMap: SourceMap } {
+    return printProgramWithSourceMap(p, opts);
   }
 
-  private runMiddle(fn: ReturnType<typeof liftSliceToIR>) {
-    const pipeline = defaultPipeline();
-    return pipeline.run(fn);
+  // FunC source that compiles back to a contract with the same methods
+  formatFunc(p: Program): string {
+    return printFuncProgram(p);
   }
 
-  format(p: Program): string {
-    return printProgram(p);
+  // Tolk source of the program, with the same structure as the FunC one
+  formatTolk(p: Program): string {
+    return printTolkProgram(p);
   }
 }
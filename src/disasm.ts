@@ -1,5 +1,5 @@
 import { cp0 } from "./tvm-spec";
-import { Instruction, Operand } from "./gen/tvm-spec";
+import { Instruction, Operand, Schema } from "./gen/tvm-spec";
 import { Bit, Builder, Slice } from "ton3-core";
 
 export type VarMap = { [key: string]: any };
@@ -14,7 +14,7 @@ let intToBin = (n: number, size: number) => {
 
 let bitsToStr = (bits: Bit[]) => bits.map(x => x.toString()).join('');
 
-let prefixToBin = (prefix: string) => {
+export let prefixToBin = (prefix: string) => {
     let completionTag = prefix.endsWith('_');
     if (completionTag) {
         prefix.slice(0, -1);
@@ -34,8 +34,121 @@ let removeCompletionTag = (bits: Bit[]) => {
     return bits.slice(0, newLength);
 };
 
+export class UnknownCodePageError extends Error {
+    public codePage: number;
+
+    public constructor(codePage: number) {
+        super(`Unknown code page ${codePage}; register its instruction table with registerCodePage()`);
+        this.name = "UnknownCodePageError";
+        this.codePage = codePage;
+    }
+}
+
+export class UnsupportedInstructionError extends Error {
+    public mnemonic: string;
+    public sinceVersion: number;
+    public globalVersion: number;
+
+    public constructor(instruction: Instruction, globalVersion: number) {
+        super(`${instruction.mnemonic} requires TVM global version ${instruction.since_version}, target is ${globalVersion}`);
+        this.name = "UnsupportedInstructionError";
+        this.mnemonic = instruction.mnemonic;
+        this.sinceVersion = instruction.since_version;
+        this.globalVersion = globalVersion;
+    }
+}
+
+// Code page registry: code page number -> instruction table (cp0 is built in)
+const codePages = new Map<number, Schema>([[0, cp0]]);
+
+// Registers (or replaces) the instruction table used to decode code page `id`
+export function registerCodePage(id: number, schema: Schema) {
+    codePages.set(id, schema);
+    OpcodeParser.resetCache(id);
+}
+
+export function hasCodePage(id: number): boolean {
+    return codePages.has(id);
+}
+
+export function getCodePage(id: number): Schema {
+    const schema = codePages.get(id);
+    if (schema == undefined) {
+        throw new UnknownCodePageError(id);
+    }
+    return schema;
+}
+
+// Instruction by mnemonic from the registered code pages, cp0 first
+export function findInstruction(mnemonic: string): Instruction | undefined {
+    for (const schema of codePages.values()) {
+        const instruction = schema.instructions.find((i) => i.mnemonic === mnemonic);
+        if (instruction != undefined) return instruction;
+    }
+    return undefined;
+}
+
+// Code page selected by a SETCP-family instruction, or undefined when it is
+// chosen at runtime (SETCPX) or the instruction is not a code page switch.
+export function codePageSwitch(spec: Instruction, operands: VarMap): number | undefined {
+    if (spec.mnemonic === 'SETCP') return operands['n'];
+    if (spec.mnemonic === 'SETCP_SPECIAL') {
+        const z = operands['z'];
+        return typeof z === 'number' ? z - 16 : undefined;
+    }
+    return undefined;
+}
+
+// Binary trie over opcode prefixes. Instructions sharing a prefix and told apart
+// by `operands_range_check` sit in the same node as separate leaves.
+type PrefixTrieNode = {
+    next: [PrefixTrieNode | undefined, PrefixTrieNode | undefined];
+    leaves: Instruction[];
+};
+
+type PrefixTrie = {
+    root: PrefixTrieNode;
+    window: number; // bits needed to resolve any prefix together with its range check
+};
+
+let buildPrefixTrie = (instructions: Instruction[]): PrefixTrie => {
+    const root: PrefixTrieNode = { next: [undefined, undefined], leaves: [] };
+    let window = 0;
+    for (const insn of instructions) {
+        const prefix = prefixToBin(insn.bytecode.prefix);
+        let node = root;
+        for (const c of prefix) {
+            const bit = c == "1" ? 1 : 0;
+            node = node.next[bit] ?? (node.next[bit] = { next: [undefined, undefined], leaves: [] });
+        }
+        node.leaves.push(insn);
+        window = Math.max(window, prefix.length + (insn.bytecode.operands_range_check?.length ?? 0));
+    }
+    return { root, window };
+};
+
+let bitsToUint = (bits: Bit[], from: number, length: number) => {
+    let n = 0;
+    for (let i = from; i < from + length; i++) {
+        n = n * 2 + bits[i];
+    }
+    return n;
+};
+
+export type PrefixMatch = {
+    instruction: Instruction;
+    length: number; // prefix length in bits
+};
+
+export type DecodedInstruction = {
+    instruction: Instruction;
+    operands: VarMap;
+    bitLength: number; // encoded length in bits (refs not counted)
+    dataOffsets: { [name: string]: number }; // subslice operands: where their bits start, from the instruction start
+};
+
 export class OpcodeParser {
-    private static _map: Map<string, Instruction>
+    private static _tries = new Map<number, PrefixTrie>();
 
     private static loadOperand(operand: Operand, slice: Slice) {
         if (operand.type == "uint") {
@@ -61,47 +174,84 @@ export class OpcodeParser {
         }
     }
 
-    private static getMap() {
-        return this._map || (this._map = new Map(cp0.instructions.map(insn => [prefixToBin(insn.bytecode.prefix), insn])))
+    public static resetCache(codePage: number) {
+        this._tries.delete(codePage);
+    }
+
+    private static getTrie(codePage: number) {
+        let trie = this._tries.get(codePage);
+        if (trie == undefined) {
+            trie = buildPrefixTrie(getCodePage(codePage).instructions);
+            this._tries.set(codePage, trie);
+        }
+        return trie;
     }
 
-    private static getLongestPrefixLength() {
-        return Math.max(...cp0.instructions.map(insn => prefixToBin(insn.bytecode.prefix).length));
+    // Number of leading bits `matchPrefix` may look at
+    public static lookupWindow(codePage: number = 0) {
+        return this.getTrie(codePage).window;
     }
 
-    private static loadPrefix(slice: Slice): Instruction {
-        for (let bits = 1; bits <= this.getLongestPrefixLength(); bits++) {
-            let prefix = bitsToStr(slice.preloadBits(bits));
-            let instruction = this.getMap().get(prefix);
-            if (instruction == undefined) continue;
-            let rangeCheck = instruction.bytecode.operands_range_check;
-            if (rangeCheck != undefined) {
-                let operands = new Builder().storeBits(slice.bits).storeRefs(slice.refs).cell().slice().skipBits(prefix.length).loadUint(rangeCheck.length);
-                if (operands < rangeCheck.from || operands > rangeCheck.to) {
-                    continue;
+    // Finds the shortest prefix of `bits` naming an instruction whose range check (if any) passes
+    public static matchPrefix(bits: Bit[], codePage: number = 0): PrefixMatch | undefined {
+        let node: PrefixTrieNode | undefined = this.getTrie(codePage).root;
+        for (let depth = 0; node != undefined; depth++) {
+            for (const instruction of node.leaves) {
+                const rangeCheck = instruction.bytecode.operands_range_check;
+                if (rangeCheck != undefined) {
+                    if (depth + rangeCheck.length > bits.length) continue;
+                    const operands = bitsToUint(bits, depth, rangeCheck.length);
+                    if (operands < rangeCheck.from || operands > rangeCheck.to) continue;
                 }
+                return { instruction, length: depth };
             }
-            slice.skipBits(bits);
-            return instruction
+            if (depth >= bits.length) break;
+            node = node.next[bits[depth]];
         }
-        throw new Error("Prefix not found");
+        return undefined;
     }
 
-    public static nextInstruction(slice: Slice): [Instruction, VarMap] {
+    private static loadPrefix(slice: Slice, codePage: number): Instruction {
+        const window = Math.min(this.lookupWindow(codePage), slice.bits.length);
+        const match = this.matchPrefix(slice.preloadBits(window), codePage);
+        if (match == undefined) {
+            throw new Error("Prefix not found");
+        }
+        slice.skipBits(match.length);
+        return match.instruction;
+    }
+
+    // With `globalVersion` set, instructions introduced in a later TVM version are rejected
+    public static nextInstruction(slice: Slice, codePage: number = 0, globalVersion?: number): [Instruction, VarMap] {
+        const decoded = this.decodeInstruction(slice, codePage, globalVersion);
+        return [decoded.instruction, decoded.operands];
+    }
+
+    // Same as nextInstruction, also reporting where the instruction and its inline slices lie
+    public static decodeInstruction(slice: Slice, codePage: number = 0, globalVersion?: number): DecodedInstruction {
+        const start = slice.bits.length;
         let instruction;
         try {
-            instruction = this.loadPrefix(slice);
+            instruction = this.loadPrefix(slice, codePage);
         } catch (e) {
+            if (e instanceof UnknownCodePageError) throw e;
             throw new Error("OpcodeParser: prefix load error", { cause: e })
         }
+        if (globalVersion != undefined && instruction.since_version > globalVersion) {
+            throw new UnsupportedInstructionError(instruction, globalVersion);
+        }
         let operands: VarMap = {}
+        let dataOffsets: { [name: string]: number } = {}
         for (let operand of instruction.bytecode.operands ?? []) {
+            if (operand.type == "subslice") {
+                dataOffsets[operand.name] = start - slice.bits.length + (operand.refs_length_var_size ?? 0) + (operand.bits_length_var_size ?? 0);
+            }
             try {
                 operands[operand.name] = this.loadOperand(operand, slice)
             } catch (e) {
                 throw new Error(`OpcodeParser: bad operand ${operand.name} for instruction ${instruction.mnemonic} (${e})`, { cause: e })
             }
         }
-        return [instruction, operands]
+        return { instruction, operands, bitLength: start - slice.bits.length, dataOffsets }
     }
 }
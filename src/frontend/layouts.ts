@@ -0,0 +1,291 @@
+import { Bit, Builder, Slice } from "ton3-core";
+import { bitsToIntUint } from "ton3-core/dist/utils/numbers";
+import { codePageSwitch, OpcodeParser, VarMap } from "../disasm";
+import type { Instruction } from "../gen/tvm-spec";
+import { cellOrigin, SliceOrigin } from "./origin";
+
+// Method dictionary layout detection for contract roots.
+// A detector inspects the root code slice and, if it recognizes the dispatch
+// prologue, returns the method map plus any extra root code that is not part
+// of the dispatch itself (kept as a separate entry function).
+
+export type MethodDictLayout = {
+  layout: string;               // name of the detector that matched
+  methods: Map<number, Slice>;  // methodId -> continuation body
+  entry: Slice | null;          // extra root code executed before the dictionary lookup
+  codePage: number;             // code page active at the lookup (methods and entry decode in it)
+  // Where method bodies and entry start in the contract code (cells they are cut from);
+  // bodies missing here are treated as whole cells of their own
+  origins: { methods: Map<number, SliceOrigin>; entry: SliceOrigin | null };
+};
+
+// What the detectors sharing `dispatchWithPrologue` found; they add their own name
+type DetectedDispatch = {
+  methods: Map<number, Slice>;
+  entry: Slice | null;
+  codePage: number;
+  origins: { methods: Map<number, SliceOrigin>; entry: SliceOrigin | null };
+};
+
+export type LayoutDetector = {
+  name: string;
+  detect: (root: Slice) => MethodDictLayout | null;
+};
+
+const builtinDetectors: LayoutDetector[] = [];
+const userDetectors: LayoutDetector[] = [];
+
+// User-registered detectors are tried before the builtin ones, in registration order
+export function registerLayoutDetector(detector: LayoutDetector) {
+  userDetectors.push(detector);
+}
+
+export function detectMethodDictLayout(root: Slice): MethodDictLayout | null {
+  for (const d of [...userDetectors, ...builtinDetectors]) {
+    try {
+      const res = d.detect(root);
+      if (res) return res;
+    } catch (_) {
+      continue;
+    }
+  }
+  return null;
+}
+
+// --- Root instruction scanning helpers ---
+
+type RootInsn = {
+  spec: Instruction;
+  operands: VarMap;
+  bitStart: number;
+  refStart: number;
+  dataOffsets: { [name: string]: number };
+};
+
+type RootScan = {
+  insns: RootInsn[];
+  bitEnd: number;
+  refEnd: number;
+  codePage: number; // code page after the last decoded instruction
+  cellHash: string;
+};
+
+// Decodes instructions of the root cell only (does not follow trailing refs),
+// following SETCP code page switches.
+function scanRoot(root: Slice): RootScan {
+  const sc = cloneRange(root, 0, root.bits.length, 0, root.refs.length);
+  const insns: RootInsn[] = [];
+  const pos = () => ({ bits: root.bits.length - sc.bits.length, refs: root.refs.length - sc.refs.length });
+  let codePage = 0;
+  while (sc.bits.length > 0) {
+    const start = pos();
+    const { instruction: spec, operands, dataOffsets } = OpcodeParser.decodeInstruction(sc, codePage);
+    insns.push({ spec, operands, bitStart: start.bits, refStart: start.refs, dataOffsets });
+    codePage = codePageSwitch(spec, operands) ?? codePage;
+  }
+  const end = pos();
+  return { insns, bitEnd: end.bits, refEnd: end.refs, codePage, cellHash: cellOrigin(root).cellHash };
+}
+
+function cloneRange(s: Slice, bitFrom: number, bitTo: number, refFrom: number, refTo: number): Slice {
+  return new Builder().storeBits(s.bits.slice(bitFrom, bitTo)).storeRefs(s.refs.slice(refFrom, refTo)).cell().slice();
+}
+
+// Code between instruction `from` (inclusive) and `to` (exclusive) as a standalone slice
+function rangeOf(root: Slice, scan: RootScan, from: number, to: number): Slice {
+  const a = scan.insns[from];
+  const b = to < scan.insns.length ? scan.insns[to] : undefined;
+  return cloneRange(root, a.bitStart, b ? b.bitStart : scan.bitEnd, a.refStart, b ? b.refStart : scan.refEnd);
+}
+
+const rangeOrigin = (scan: RootScan, from: number): SliceOrigin => ({ cellHash: scan.cellHash, bitOffset: scan.insns[from].bitStart });
+
+const isDictJump = (m: string) => m === 'DICTIGETJMP' || m === 'DICTIGETJMPZ' || m === 'DICTUGETJMP' || m === 'DICTUGETJMPZ';
+const isThrow = (m: string) => m === 'THROWARG' || m === 'THROW' || m === 'THROW_SHORT';
+
+type MethodDict = {
+  methods: Map<number, Slice>;
+  origins: Map<number, SliceOrigin>;
+};
+
+// Walks the dictionary cells directly (rather than through Hashmap.parse) to keep
+// track of the leaf cell and label length in front of every method body
+function parseMethodDict(lookup: string, n: number, d: Slice): MethodDict {
+  const keyType = lookup.startsWith('DICTU') ? 'uint' : 'int';
+  const dict: MethodDict = { methods: new Map(), origins: new Map() };
+  const walk = (edge: Slice, cellHash: string, key: Bit[]) => {
+    const start = edge.bits.length;
+    key = key.concat(loadLabel(edge, n - key.length));
+    if (key.length === n) {
+      const methodId = bitsToIntUint(key, { type: keyType }) as number;
+      dict.methods.set(methodId, cloneRange(edge, 0, edge.bits.length, 0, edge.refs.length));
+      dict.origins.set(methodId, { cellHash, bitOffset: start - edge.bits.length });
+      return;
+    }
+    for (const bit of [0, 1] as Bit[]) {
+      const fork = edge.loadRef();
+      walk(fork.slice(), fork.hash(), key.concat(bit));
+    }
+  };
+  walk(cloneRange(d, 0, d.bits.length, 0, d.refs.length), cellOrigin(d).cellHash, []);
+  return dict;
+}
+
+// HashmapLabel: hml_short$0, hml_long$10 or hml_same$11 with at most m bits
+function loadLabel(edge: Slice, m: number): Bit[] {
+  const lenBits = Math.ceil(Math.log2(m + 1));
+  const loadLength = () => (lenBits === 0 ? 0 : edge.loadUint(lenBits));
+  if (edge.loadBit() === 0) {
+    let len = 0;
+    while (edge.loadBit() === 1) len++;
+    return edge.loadBits(len);
+  }
+  if (edge.loadBit() === 0) {
+    return edge.loadBits(loadLength());
+  }
+  const v = edge.loadBit();
+  return new Array(loadLength()).fill(v);
+}
+
+// Splits root into: optional SETCP, prologue, DICTPUSHCONST, DICT*GETJMP*, optional THROW* epilogue
+type RootDispatch = {
+  scan: RootScan;
+  prologueFrom: number; // index of first prologue instruction (after SETCP)
+  dictAt: number;       // index of DICTPUSHCONST
+  lookup: string;       // mnemonic of the dictionary jump
+  dict: MethodDict;
+};
+
+function parseRootDispatch(root: Slice): RootDispatch | null {
+  const scan = scanRoot(root);
+  const { insns } = scan;
+  const prologueFrom = insns.length > 0 && insns[0].spec.mnemonic === 'SETCP' ? 1 : 0;
+  const dictAt = insns.findIndex((x) => x.spec.mnemonic === 'DICTPUSHCONST');
+  if (dictAt < prologueFrom || dictAt + 1 >= insns.length) return null;
+  const lookup = insns[dictAt + 1].spec.mnemonic;
+  if (!isDictJump(lookup)) return null;
+  // Only a single throw (or nothing) may follow the lookup
+  const tail = insns.slice(dictAt + 2);
+  if (tail.length > 1 || (tail.length === 1 && !isThrow(tail[0].spec.mnemonic))) return null;
+  const ops = insns[dictAt].operands;
+  const dict = parseMethodDict(lookup, ops['n'], ops['d']);
+  return { scan, prologueFrom, dictAt, lookup, dict };
+}
+
+// Drops a leading DROP of the method id left on stack by inline dispatch checks
+function stripLeadingDrop(s: Slice, origin: SliceOrigin, codePage: number): { body: Slice; origin: SliceOrigin } {
+  const sc = cloneRange(s, 0, s.bits.length, 0, s.refs.length);
+  const [spec] = OpcodeParser.nextInstruction(sc, codePage);
+  if (spec.mnemonic !== 'DROP') return { body: s, origin };
+  return { body: sc, origin: { ...origin, bitOffset: origin.bitOffset + s.bits.length - sc.bits.length } };
+}
+
+// Recognizes `DUP; [EQINT n]; (PUSHCONT c; IF[NOT]JMP | IF[NOT]JMPREF c)` id checks.
+// Returns the matched method and the index of the next instruction, or null.
+function matchInlineCheck(scan: RootScan, at: number): { id: number; body: Slice; origin: SliceOrigin; next: number } | null {
+  const { insns, codePage } = scan;
+  if (insns[at]?.spec.mnemonic !== 'DUP') return null;
+  let i = at + 1;
+  let id = 0;
+  let expectNot = true;
+  if (insns[i]?.spec.mnemonic === 'EQINT') {
+    id = insns[i].operands['y'];
+    expectNot = false;
+    i++;
+  }
+  const ins = insns[i];
+  if (!ins) return null;
+  const jmp = expectNot ? 'IFNOTJMP' : 'IFJMP';
+  if (ins.spec.mnemonic === jmp + 'REF') {
+    const c: Slice = ins.operands['c'];
+    return { id, ...stripLeadingDrop(c, cellOrigin(c), codePage), next: i + 1 };
+  }
+  if (ins.spec.mnemonic.startsWith('PUSHCONT') && insns[i + 1]?.spec.mnemonic === jmp) {
+    const origin = { cellHash: scan.cellHash, bitOffset: ins.bitStart + ins.dataOffsets['s'] };
+    return { id, ...stripLeadingDrop(ins.operands['s'], origin, codePage), next: i + 2 };
+  }
+  return null;
+}
+
+// Dictionary methods plus the prologue (if any) as entry
+function dispatchWithPrologue(root: Slice, r: RootDispatch): DetectedDispatch {
+  const hasEntry = r.prologueFrom < r.dictAt;
+  return {
+    methods: r.dict.methods,
+    entry: hasEntry ? rangeOf(root, r.scan, r.prologueFrom, r.dictAt) : null,
+    codePage: r.scan.codePage,
+    origins: { methods: r.dict.origins, entry: hasEntry ? rangeOrigin(r.scan, r.prologueFrom) : null },
+  };
+}
+
+function registerBuiltinLayoutDetectors() {
+  // Classic FunC: SETCP; DICTPUSHCONST; DICTIGETJMPZ; THROWARG with nothing else in root
+  builtinDetectors.push({
+    name: 'func',
+    detect: (root) => {
+      const r = parseRootDispatch(root);
+      if (!r || r.prologueFrom !== 1 || r.dictAt !== 1) return null;
+      const insns = r.scan.insns;
+      if (r.lookup !== 'DICTIGETJMPZ' || insns.length !== 4 || insns[3].spec.mnemonic !== 'THROWARG') return null;
+      return { layout: 'func', methods: r.dict.methods, entry: null, codePage: r.scan.codePage, origins: { methods: r.dict.origins, entry: null } };
+    },
+  });
+
+  // Inline dispatch: id checks (recv_internal/recv_external and friends) jump directly
+  // to inlined bodies before the dictionary lookup, as emitted by newer FunC and Tact.
+  // Unrecognized code left in the prologue is kept as entry.
+  builtinDetectors.push({
+    name: 'inline-dispatch',
+    detect: (root) => {
+      const r = parseRootDispatch(root);
+      if (!r) return null;
+      const insns = r.scan.insns;
+      let i = r.prologueFrom;
+      let matched = 0;
+      const methods = new Map(r.dict.methods);
+      const origins = new Map(r.dict.origins);
+      for (let guard = 0; guard < insns.length && i < r.dictAt; guard++) {
+        const m = matchInlineCheck(r.scan, i);
+        if (!m) break;
+        if (!methods.has(m.id)) {
+          methods.set(m.id, m.body);
+          origins.set(m.id, m.origin);
+        }
+        matched++;
+        i = m.next;
+      }
+      if (matched === 0) return null;
+      const hasEntry = i < r.dictAt;
+      const entry = hasEntry ? rangeOf(root, r.scan, i, r.dictAt) : null;
+      return {
+        layout: 'inline-dispatch', methods, entry, codePage: r.scan.codePage,
+        origins: { methods: origins, entry: hasEntry ? rangeOrigin(r.scan, i) : null },
+      };
+    },
+  });
+
+  // Classic FunC dispatch with extra code before the lookup (kept as entry function)
+  builtinDetectors.push({
+    name: 'func-prologue',
+    detect: (root) => {
+      const r = parseRootDispatch(root);
+      if (!r || r.lookup !== 'DICTIGETJMPZ') return null;
+      const insns = r.scan.insns;
+      if (insns.length !== r.dictAt + 3 || insns[r.dictAt + 2].spec.mnemonic !== 'THROWARG') return null;
+      return { layout: 'func-prologue', ...dispatchWithPrologue(root, r) };
+    },
+  });
+
+  // Any other dictionary jump: hand-written Fift with unsigned keys (DICTUGETJMP*),
+  // non-Z lookups or a different fallback throw. Prologue is kept as entry function.
+  builtinDetectors.push({
+    name: 'fift',
+    detect: (root) => {
+      const r = parseRootDispatch(root);
+      if (!r) return null;
+      return { layout: 'fift', ...dispatchWithPrologue(root, r) };
+    },
+  });
+}
+
+registerBuiltinLayoutDetectors();
@@ -1,29 +1,54 @@
 import { Slice } from "ton3-core";
-import type { IRFunction, IROperands, IROpPrim, IRValueRef } from "../core/ir";
-import { OpcodeParser, VarMap } from "../disasm";
+import type { IRFunction, IROperands, IROpPrim, IRSourceLocation, IRValueRef } from "../core/ir";
+import { codePageSwitch, hasCodePage, OpcodeParser, UnknownCodePageError, VarMap } from "../disasm";
 import { GuardUnresolvedError, Stack, StackUnderflowError, StackVariable } from "../stackAnalysis";
-import { buildOp } from "./lifter/stackEffects";
+import { buildOp, CallTargetResolver, isDictJump, LOOP_REST_OPERAND, loopBranch } from "./lifter/stackEffects";
 import { convertOperands } from "./lifter/operands";
+import { cellOrigin, SliceOrigin } from "./origin";
 
-// Public API: lift a raw code slice to IRFunction
-export function liftSliceToIR(slice: Slice): IRFunction { return lift(slice); }
+export type { CallTarget, CallTargetResolver } from "./lifter/stackEffects";
+
+// Options shared by a function and all continuations lifted inside it
+export type LiftContext = {
+  // Arity oracle for CALLDICT/JMPDICT targets; calls stay opaque when absent or unresolved
+  resolveCall?: CallTargetResolver;
+  // Code page the slice starts in (0 when absent); SETCP switches it for the rest of the slice
+  codePage?: number;
+  // Target TVM global version; newer instructions stop disassembly with an error
+  globalVersion?: number;
+};
+
+// Public API: lift a raw code slice to IRFunction.
+// `origin` places the slice in the contract code for instruction locations; by default
+// the slice is taken to be a whole cell.
+export function liftSliceToIR(slice: Slice, ctx: LiftContext = {}, origin: SliceOrigin = cellOrigin(slice)): IRFunction {
+  return lift(slice, [], ctx, origin);
+}
 
 // Internal: integrated continuation + disassembly logic encapsulated within lifter.
 // No external exports from here besides liftSliceToIR.
 
-function lift(slice: Slice, initialStack: StackVariable[] = []): IRFunction {
+function lift(slice: Slice, initialStack: StackVariable[], ctx: LiftContext, origin: SliceOrigin): IRFunction {
   const body: IROpPrim[] = [];
   let stack = new Stack(initialStack);
   const args: StackVariable[] = [];
   let decompileError: any = null;
   let disassembleError: any = null;
-  const asmTail: { spec: any; operands: IROperands }[] = [];
+  const asmTail: { spec: any; operands: IROperands; loc: IRSourceLocation }[] = [];
+  let codePage = ctx.codePage ?? 0;
+  // Length of the current slice when it started (at origin.bitOffset in its cell)
+  let sliceStart = slice.bits.length;
 
   while (slice.bits.length > 0) {
     let spec: any;
     let operands: VarMap;
+    let loc: IRSourceLocation;
     try {
-      [spec, operands] = OpcodeParser.nextInstruction(slice);
+      const bitOffset = origin.bitOffset + sliceStart - slice.bits.length;
+      const decoded = OpcodeParser.decodeInstruction(slice, codePage, ctx.globalVersion);
+      spec = decoded.instruction;
+      operands = decoded.operands;
+      loc = { cellHash: origin.cellHash, bitOffset, bitLength: decoded.bitLength };
       // Lift inline continuation operands using spec display_hints instead of hardcoded list
       const bytecodeOps: any[] = spec?.bytecode?.operands ?? [];
       for (const opSpec of bytecodeOps) {
@@ -33,7 +58,10 @@ function lift(slice: Slice, initialStack: StackVariable[] = []): IRFunction {
         const operandName: string = opSpec.name;
         const opVal = (operands as any)[operandName];
         if (opVal instanceof Slice) {
-          (operands as any)[operandName] = lift(opVal as Slice);
+          // Inline continuations live in the current cell, ref ones span their own cell
+          const dataOffset = decoded.dataOffsets[operandName];
+          const contOrigin = dataOffset !== undefined ? { cellHash: origin.cellHash, bitOffset: bitOffset + dataOffset } : cellOrigin(opVal);
+          (operands as any)[operandName] = lift(opVal as Slice, [], { ...ctx, codePage }, contOrigin);
         }
       }
     } catch (e) {
@@ -41,12 +69,23 @@ function lift(slice: Slice, initialStack: StackVariable[] = []): IRFunction {
       break;
     }
 
+    // REPEATEND and friends loop over the rest of the current continuation
+    const loop = loopBranch(spec);
+    const restIsBody = loop && (loop.args.body.type === 'cc' || (loop.name === 'while' && loop.args.cond.type === 'cc'));
+    if (restIsBody) {
+      const restOrigin = { cellHash: origin.cellHash, bitOffset: loc.bitOffset + loc.bitLength };
+      (operands as any)[LOOP_REST_OPERAND] = lift(slice, [], { ...ctx, codePage }, restOrigin);
+    }
+
     if (decompileError == null) {
       for (let t = 0; ; t++) {
         try {
           const stack2 = stack.copy();
-          const op = buildOp(spec, operands, stack2);
-          if (op) body.push(op);
+          const op = buildOp(spec, operands, stack2, ctx.resolveCall);
+          if (op) {
+            op.loc = loc;
+            body.push(op);
+          }
           stack = stack2;
           break;
         } catch (e) {
@@ -66,11 +105,33 @@ function lift(slice: Slice, initialStack: StackVariable[] = []): IRFunction {
     }
 
     if (decompileError != null) {
-      asmTail.push({ spec, operands: convertOperands(operands) });
+      asmTail.push({ spec, operands: convertOperands(operands), loc });
+    }
+
+    // The loop body took the rest of the code
+    if (restIsBody) break;
+    // Tail jump into another method: the rest of the code is never reached
+    if (isDictJump(spec)) break;
+
+    // Code page switches affect decoding of everything that follows
+    if (spec.mnemonic === 'SETCPX') {
+      disassembleError = new Error("SETCPX selects code page at runtime; cannot decode the rest statically");
+      break;
+    }
+    const nextCodePage = codePageSwitch(spec, operands);
+    if (nextCodePage !== undefined) {
+      if (!hasCodePage(nextCodePage)) {
+        disassembleError = new UnknownCodePageError(nextCodePage);
+        break;
+      }
+      codePage = nextCodePage;
     }
 
     while (slice.bits.length == 0 && slice.refs.length > 0) {
-      slice = slice.loadRef().slice();
+      const next = slice.loadRef();
+      slice = next.slice();
+      origin = { cellHash: next.hash(), bitOffset: 0 };
+      sliceStart = slice.bits.length;
     }
   }
 
@@ -1,8 +1,9 @@
-import type { Instruction } from "../../gen/tvm-spec";
+import type { Continuation, Instruction } from "../../gen/tvm-spec";
 import type { VarMap } from "../../disasm";
-import { Stack, StackVariable } from "../../stackAnalysis";
-import { IRValueRef, type IRFunction, type IRInputs, type IROperands, type IROpPrim, type IROutputs, type IRValueDef } from "../../core/ir";
+import { GuardUnresolvedError, Stack, StackVariable } from "../../stackAnalysis";
+import { IRValueRef, type IRFunction, type IRInputs, type IROperands, type IROpPrim, type IROutputs, type IRPhi, type IRPhiSource, type IRType, type IRValueDef } from "../../core/ir";
 import { convertOperands } from "./operands";
+import { constantValue, evaluatePure, isPureIntOp } from "../../core/constEval";
 
 function isStackOp(spec: Instruction): boolean {
   return ["stack_basic", "stack_complex"].includes(spec.doc.category);
@@ -14,10 +15,12 @@ function collectStackInputs(spec: Instruction, operands: VarMap, stack: Stack):
     throw new Error(`Unconstrained stack input while parsing ${spec.mnemonic}`);
   }
   const stackInputs: IRInputs = [];
+  const popped = new Map<string, StackVariable>();
   // Inputs described deepest->top in spec; we pop from top
   for (const input of spec.value_flow.inputs.stack.slice().reverse()) {
     if (input.type === 'simple') {
       const v = stack.pop();
+      popped.set(input.name, v);
       stackInputs.push({ name: input.name, value: { id: v.name, types: input.value_types, continuationMeta: v.continuationMeta } });
     } else if (input.type === 'array') {
       const lenVar = input.length_var as string;
@@ -25,6 +28,10 @@ function collectStackInputs(spec: Instruction, operands: VarMap, stack: Stack):
       if (Object.prototype.hasOwnProperty.call(operands, lenVar)) {
         const v = operands[lenVar];
         if (typeof v === 'number') count = v as number;
+      } else {
+        // A length taken from the stack (SETCONTVARARGS) must be a known constant
+        const v = popped.get(lenVar)?.constValue;
+        if (v !== undefined && v >= 0n && v <= 255n) count = Number(v);
       }
       if (count == null) throw new Error(`not supported dynamic array length '${lenVar}' while parsing ${spec.mnemonic}`);
       let idx = 0;
@@ -50,6 +57,19 @@ function collectStackInputs(spec: Instruction, operands: VarMap, stack: Stack):
   return stackInputs;
 }
 
+// Values of conditional output arms become outputs of the instruction producing them once a
+// branch on the guard flag makes their arm reachable (see analyzeFlagBranches)
+type ArmOutput = { outputs: IROutputs; name: string; arm: number; types?: IRType[]; flag: string };
+const armOutputs = new WeakMap<StackVariable, ArmOutput>();
+
+function defineArmOutput(v: StackVariable) {
+  const def = armOutputs.get(v);
+  if (!def || def.outputs.some((o) => o.value.id === v.name)) return;
+  const name = def.outputs.some((o) => o.name === def.name) ? `${def.name}${def.arm}` : def.name;
+  const at = def.outputs.findIndex((o) => o.name === def.flag);
+  def.outputs.splice(at === -1 ? def.outputs.length : at, 0, { name, value: { id: v.name, types: def.types } });
+}
+
 // Allocate stack outputs according to spec; may create conditional guard
 function allocateStackOutputs(spec: Instruction, operands: VarMap, stack: Stack): IROutputs {
   if (!spec.value_flow || !spec.value_flow.outputs || !spec.value_flow.outputs.stack) {
@@ -60,6 +80,7 @@ function allocateStackOutputs(spec: Instruction, operands: VarMap, stack: Stack)
   let constCounter = 0;
   let pushedThisInsn = 0;
   let condOutCounter = 0; // running index for synthesized conditional outputs
+  let condFlag: { name: string; values: Array<number | null> } | undefined;
 
   for (const output of spec.value_flow.outputs.stack) {
     if (output.type === 'simple') {
@@ -67,6 +88,8 @@ function allocateStackOutputs(spec: Instruction, operands: VarMap, stack: Stack)
       if (spec.mnemonic == 'PUSHCONT_SHORT' || spec.mnemonic == 'PUSHCONT') {
         v.continuationMeta = { continuation: operands['s'] };
       }
+      // The value the preceding conditional output is selected by
+      if (condFlag?.name === output.name && stack.hasGuard()) stack.setGuardFlag(v, condFlag.values);
       pushedThisInsn += 1;
       stackOutputs.push({ name: output.name, value: { id: v.name, types: output.value_types } });
     } else if (output.type === 'const') {
@@ -107,12 +130,15 @@ function allocateStackOutputs(spec: Instruction, operands: VarMap, stack: Stack)
       arms.forEach((arm, idx) => {
         const newVars: StackVariable[] = [];
         for (const ent of arm) {
-          if (ent.type === 'simple') newVars.push(Stack.allocVar());
-          else if (ent.type === 'const') newVars.push(Stack.allocVar());
+          const v = Stack.allocVar();
+          if (ent.type === 'simple') armOutputs.set(v, { outputs: stackOutputs, name: ent.name, arm: idx, types: ent.value_types, flag: output.name });
+          else if (ent.type === 'const') armOutputs.set(v, { outputs: stackOutputs, name: `const${constCounter++}`, arm: idx, types: [ent.value_type], flag: output.name });
           else throw new Error(`unsupported conditional branch entry '${ent.type}' in ${spec.mnemonic}`);
+          newVars.push(v);
         }
         stack.appendToGuardArm(idx, newVars);
       });
+      condFlag = { name: output.name, values: [...(output.match ?? []).map((m) => m.value), ...(output.else ? [null] : [])] };
       // Try to finalize guard progressively in case this instruction aligns it fully
       const mergedNow = stack.tryFinalizeGuard();
       if (mergedNow && mergedNow.length) {
@@ -137,22 +163,102 @@ function allocateStackOutputs(spec: Instruction, operands: VarMap, stack: Stack)
   return stackOutputs;
 }
 
+// Arity of a method reachable through CALLDICT/JMPDICT, as inferred by lifting it
+export type CallTarget = { args: number; results: number };
+export type CallTargetResolver = (methodId: number) => CallTarget | undefined;
+
+function isDictCall(spec: Instruction): boolean {
+  return ["CALLDICT", "CALLDICT_LONG", "JMPDICT"].includes(spec.mnemonic);
+}
+
+// JMPDICT is a tail jump: the callee returns straight to our caller, nothing after it runs
+export function isDictJump(spec: Instruction): boolean {
+  return spec.mnemonic === "JMPDICT";
+}
+
+// Calls into another method: consume callee args, produce its results (both ordered bottom -> top)
+function buildDictCallOp(spec: Instruction, operands: VarMap, stack: Stack, methodId: number, target: CallTarget): IROpPrim {
+  const popped: StackVariable[] = [];
+  for (let i = 0; i < target.args; i++) popped.push(stack.pop());
+  const inputs: IRInputs = popped.reverse().map((v, i) => ({ name: `arg${i}`, value: { id: v.name, continuationMeta: v.continuationMeta } }));
+  const outputs: IROutputs = [];
+  for (let i = 0; i < target.results; i++) {
+    const v = stack.push();
+    outputs.push({ name: `ret${i}`, value: { id: v.name } });
+  }
+  return { kind: 'prim', spec, mnemonic: spec.mnemonic, inputs, operands: convertOperands({ ...operands }), outputs, callee: { methodId } };
+}
+
+// Continuation metadata as carried by stack values
+type ContinuationMeta = { continuation: IRFunction };
+
+// Values saved in the stack of a continuation (SETCONTVARARGS, SETCONTARGS), bottom first; its
+// code finds them below the values it is given
+const capturedArgs = new WeakMap<ContinuationMeta, IRValueRef[]>();
+
+function capturedOf(meta: ContinuationMeta): IRValueRef[] {
+  return capturedArgs.get(meta) ?? [];
+}
+
+// Instructions making a continuation out of input `c` with the same code: saving registers,
+// composing and adding saved arguments
+const DERIVED_CONTINUATIONS = ['SETCONTCTR', 'SETCONTCTRX', 'COMPOS', 'COMPOSALT', 'COMPOSBOTH', 'SETCONTARGS_N', 'SETCONTVARARGS', 'SETNUMVARARGS'];
+
+function derivedContinuation(spec: Instruction, inputs: IRInputs): ContinuationMeta | undefined {
+  if (!DERIVED_CONTINUATIONS.includes(spec.mnemonic)) return undefined;
+  const meta = (inputs.find((i) => i.name === 'c')?.value as IRValueRef | undefined)?.continuationMeta;
+  if (!meta) return undefined;
+  // Array entries are named from the top of the stack down
+  const args = inputs.filter((i) => /^x\d+$/.test(i.name)).map((i) => ({ id: (i.value as IRValueRef).id })).reverse();
+  if (args.length === 0) return meta;
+  const derived = { continuation: meta.continuation };
+  capturedArgs.set(derived, [...capturedOf(meta), ...args]);
+  return derived;
+}
+
 // Build and apply stack effects, return IROpPrim or null (for raw stack ops)
-export function buildOp(spec: Instruction, operands: VarMap, stack: Stack): IROpPrim | null {
+export function buildOp(spec: Instruction, operands: VarMap, stack: Stack, resolveCall?: CallTargetResolver): IROpPrim | null {
   if (isStackOp(spec)) {
     stack.execStackInstruction(spec, operands);
     return null;
   }
+  if (resolveCall && isDictCall(spec)) {
+    const methodId: number = operands['n'];
+    const target = resolveCall(methodId);
+    if (target) return buildDictCallOp(spec, operands, stack, methodId, target);
+  }
   if (!spec.value_flow || !spec.value_flow.inputs || !spec.value_flow.outputs) {
     throw new Error(`instruction is missing value flow: ${spec.mnemonic}`);
   }
 
+  const inputVars = (spec.value_flow.inputs.stack ?? []).map((_, i, all) => stack.peek(all.length - 1 - i));
   const inputs = collectStackInputs(spec, operands, stack);
-  const { inputs: controlFlowInputs, outputs: controlFlowOutputs } = analyzeControlFlow(spec, operands, stack, inputs);
+  const { inputs: controlFlowInputs, outputs: controlFlowOutputs, phis } = analyzeControlFlow(spec, operands, stack, inputs);
   const outputs = allocateStackOutputs(spec, operands, stack);
+  const derived = derivedContinuation(spec, inputs);
+  if (derived) stack.peek(0)!.continuationMeta = derived;
   stack.tryFinalizeGuard();
+  const values = constantOutputs(spec, operands, inputVars);
+  if (values && values.length === outputs.length && controlFlowOutputs.length === 0) {
+    values.forEach((v, i) => { stack.peek(values.length - 1 - i)!.constValue = v; });
+  }
   const operandsIR: IROperands = convertOperands({ ...operands });
-  return { kind: 'prim', spec, mnemonic: spec.mnemonic, inputs: [...inputs, ...controlFlowInputs], operands: operandsIR, outputs: [...outputs, ...controlFlowOutputs] };
+  // Conditional arm values are added to this same outputs array when a branch reaches them
+  outputs.push(...controlFlowOutputs);
+  const op: IROpPrim = { kind: 'prim', spec, mnemonic: spec.mnemonic, inputs: [...inputs, ...controlFlowInputs], operands: operandsIR, outputs };
+  if (phis && phis.length) op.phis = phis;
+  return op;
+}
+
+// Integer values of the outputs when the instruction pushes a constant or computes on
+// known constants; they resolve dynamic stack operations (PICK, ROLLX, BLKSWX) later on
+function constantOutputs(spec: Instruction, operands: VarMap, inputs: Array<StackVariable | undefined>): bigint[] | undefined {
+  const constant = constantValue(spec, operands);
+  if (constant !== undefined) return [constant];
+  if (!isPureIntOp(spec)) return undefined;
+  const args = inputs.map((v) => v?.constValue);
+  if (args.some((a) => a === undefined)) return undefined;
+  return evaluatePure(spec, operands, args as bigint[]);
 }
 
 export interface BranchInfo {
@@ -163,11 +269,215 @@ export interface BranchInfo {
   parentPush: number;
 }
 
-export function analyzeControlFlow(spec: Instruction, operands: VarMap, stack: Stack, stackInputs: IRInputs): { inputs: IRInputs, outputs: IROutputs } {
+// Operand holding the rest of the current continuation when it is the body of a loop
+// (REPEATEND, UNTILEND, WHILEEND, AGAINEND); the lifter fills it in
+export const LOOP_REST_OPERAND = 'body';
+
+export type LoopBranch = Extract<Continuation, { type: 'special' }> & { name: 'repeat' | 'until' | 'while' | 'again' };
+
+const isLoop = (c: Continuation | undefined): c is LoopBranch => c?.type === 'special' && c.name !== 'pushint';
+
+// The loop an instruction runs: a `special` branch itself (*END forms), or the return
+// continuation saved when branching into the body (REPEAT c: c with c0 = repeat(...))
+export function loopBranch(spec: Instruction): LoopBranch | undefined {
+  for (const b of spec.control_flow?.branches ?? []) {
+    if (isLoop(b)) return b;
+    if (b.type !== 'special' && isLoop(b.save?.c0)) return b.save!.c0 as LoopBranch;
+  }
+  return undefined;
+}
+
+// Continuation of a loop or TRY part: a PUSHCONT value on the stack, an operand or the rest of
+// cc, with the values saved in its stack
+function partWithArgs(part: Continuation, operands: VarMap, stackInputs: IRInputs): { fn: IRFunction; captured: IRValueRef[] } {
+  if (part.type === 'cc' && operands[LOOP_REST_OPERAND]) return { fn: operands[LOOP_REST_OPERAND], captured: [] };
+  if (part.type !== 'variable') throw new Error(`unsupported loop continuation '${part.type}'`);
+  if (operands[part.var_name]) return { fn: operands[part.var_name], captured: [] };
+  const value = stackInputs.find(i => i.name == part.var_name)?.value as IRValueRef | undefined;
+  if (!value) throw new Error('no such input');
+  if (value.continuationMeta == undefined) throw new Error('continuation has no meta!');
+  return { fn: value.continuationMeta.continuation, captured: capturedOf(value.continuationMeta) };
+}
+
+// Only TRY handlers may save values in their stack; elsewhere they would shift the arguments
+function partContinuation(part: Continuation, operands: VarMap, stackInputs: IRInputs): IRFunction {
+  const { fn, captured } = partWithArgs(part, operands, stackInputs);
+  if (captured.length) throw new Error(`continuation ${part.type === 'variable' ? part.var_name : part.type} has ${captured.length} saved arguments`);
+  return fn;
+}
+
+// Loops keep the stack depth: every iteration of the body (and WHILE condition) maps the
+// loop variables to themselves, with an extra flag on top for UNTIL bodies and WHILE conditions.
+// The deepest part sets how many stack entries are loop variables; they come in as
+// `loop_<i>` inputs and leave as `out_<i>` outputs (bottom first).
+function analyzeLoop(spec: Instruction, branch: LoopBranch, operands: VarMap, stack: Stack, stackInputs: IRInputs): { inputs: IRInputs, outputs: IROutputs } {
+  const parts: Array<{ fn: IRFunction; flag: boolean }> = [];
+  if (branch.name === 'while') {
+    parts.push({ fn: partContinuation(branch.args.cond, operands, stackInputs), flag: true });
+  }
+  parts.push({ fn: partContinuation(branch.args.body, operands, stackInputs), flag: branch.name === 'until' });
+  for (const { fn, flag } of parts) {
+    if (fn.result.length !== fn.args.length + (flag ? 1 : 0)) {
+      throw new Error(`loop continuation of ${spec.mnemonic} takes ${fn.args.length} values and leaves ${fn.result.length}; expected ${fn.args.length + (flag ? 1 : 0)}`);
+    }
+  }
+  const count = Math.max(...parts.map(({ fn }) => fn.args.length));
+  const popped: StackVariable[] = [];
+  for (let i = 0; i < count; i++) popped.push(stack.pop());
+  const inputs: IRInputs = popped.reverse().map((v, i) => ({ name: `loop_${i}`, value: { id: v.name, continuationMeta: v.continuationMeta } }));
+  const outputs: IROutputs = popped.map((_, i) => ({ name: `out_${i}`, value: { id: stack.push().name } }));
+  return { inputs, outputs };
+}
+
+// TRY/TRYARGS branch into the body with the exception handler saved as c2
+export type TryBranch = { body: Continuation; handler: Continuation };
+
+export function tryBranch(spec: Instruction): TryBranch | undefined {
+  for (const b of spec.control_flow?.branches ?? []) {
+    if (b.type !== 'special' && b.save?.c2?.type === 'variable') return { body: b, handler: b.save.c2 };
+  }
+  return undefined;
+}
+
+// TRY runs the body on the current stack. A throw clears the stack: the handler starts from
+// the values saved in its own stack (SETCONTVARARGS, `catch_<i>` inputs) with the exception
+// argument and code pushed (`catch (x, n)`), and what it leaves is the whole stack after TRY.
+// So TRY takes as many values as make the body leave as many as the handler; TRYARGS p,r
+// passes the body only the top p values and keeps r results of either part. Values the body
+// reads come in as `try_<i>` inputs and the results leave as `out_<i>` outputs (bottom first).
+function analyzeTry(spec: Instruction, branch: TryBranch, operands: VarMap, stack: Stack, stackInputs: IRInputs): { inputs: IRInputs, outputs: IROutputs } {
+  const body = partContinuation(branch.body, operands, stackInputs);
+  const { fn: handler, captured } = partWithArgs(branch.handler, operands, stackInputs);
+  const reach = captured.length + 2;
+  if (handler.args.length > reach) {
+    throw new Error(`${spec.mnemonic} handler reads ${handler.args.length} values, ${reach - 2} below the exception`);
+  }
+  const handlerResults = reach - handler.args.length + handler.result.length;
+  const withArgs = typeof operands['p'] === 'number' && typeof operands['r'] === 'number';
+  let count: number;
+  let results: number;
+  if (withArgs) {
+    count = operands['p'];
+    results = operands['r'];
+    if (body.args.length > count || count - body.args.length + body.result.length < results) {
+      throw new Error(`${spec.mnemonic} body takes ${body.args.length} values and leaves ${body.result.length}; expected at most ${count} and at least ${results}`);
+    }
+  } else {
+    results = handlerResults;
+    count = handlerResults + body.args.length - body.result.length;
+  }
+  if (handlerResults !== results || count < body.args.length) {
+    throw new Error(`${spec.mnemonic} handler leaves ${handlerResults} values, body leaves ${withArgs ? results : body.result.length}`);
+  }
+  const popped: StackVariable[] = [];
+  for (let i = 0; i < count; i++) popped.push(stack.pop());
+  const inputs: IRInputs = popped.reverse().map((v, i) => ({ name: `try_${i}`, value: { id: v.name, continuationMeta: v.continuationMeta } }));
+  inputs.push(...captured.map((value, i) => ({ name: `catch_${i}`, value })));
+  const outputs: IROutputs = [];
+  for (let i = 0; i < results; i++) outputs.push({ name: `out_${i}`, value: { id: stack.push().name } });
+  return { inputs, outputs };
+}
+
+// Values a branching statement leaves on the stack, with the phi node merging each of them
+type ControlFlowEffect = { inputs: IRInputs, outputs: IROutputs, phis?: IRPhi[] };
+
+// Name of the statement input holding `v`, added as `phi_<n>` when the value is not an input yet
+function phiInput(inputs: IRInputs, v: StackVariable): string {
+  const known = inputs.find(({ value }) => (value as IRValueRef).id === v.name);
+  if (known) return known.name;
+  const name = `phi_${inputs.filter((i) => i.name.startsWith('phi_')).length}`;
+  inputs.push({ name, value: { id: v.name, continuationMeta: v.continuationMeta } });
+  return name;
+}
+
+// One way an instruction taking flag `f` can go: the continuation it runs (none when it
+// skips the continuation, for THROW*IF* and IFRET*), the flag values taking it and whether
+// it leaves the current function
+type FlagPath = { branch?: Extract<Continuation, { type: 'variable' }>; nonzero: boolean; exits: boolean };
+
+function flagPaths(spec: Instruction): FlagPath[] | undefined {
+  const negated = spec.mnemonic.includes('IFNOT');
+  if (spec.mnemonic.startsWith('THROW')) return [{ nonzero: !negated, exits: true }, { nonzero: negated, exits: false }];
+  const branches = spec.control_flow?.branches ?? [];
+  if (branches.length === 0 || branches.length > 2) return undefined;
+  const paths: FlagPath[] = [];
+  for (const [i, b] of branches.entries()) {
+    const nonzero = branches.length === 2 ? i === 0 : !negated;
+    if (b.type === 'variable') paths.push({ branch: b, nonzero, exits: b.save?.c0?.type !== 'cc' });
+    else if (b.type === 'register') paths.push({ nonzero, exits: true });
+    else return undefined;
+  }
+  if (spec.control_flow.nobranch) paths.push({ nonzero: !paths[0].nonzero, exits: false });
+  return paths;
+}
+
+// A branch on the flag of conditional outputs (DICTGET ... IF, LDUQ ... THROWIFNOT): every
+// path continues from the stack of the arm its flag value selects, so the guard is resolved.
+// Paths coming back must leave the same number of values; positions holding different
+// values on different paths become `out_<i>` outputs merged by phi nodes.
+function analyzeFlagBranches(paths: FlagPath[], operands: VarMap, stack: Stack, stackInputs: IRInputs): ControlFlowEffect {
+  type Entry = { variable: StackVariable } | { result: number };
+  const inputs: IRInputs = [];
+  const reached: StackVariable[] = [];
+  const ends: Array<{ path: string; entries: Entry[] }> = [];
+  for (const { branch, nonzero, exits } of paths) {
+    if (exits && !branch) continue;
+    const { stack: s, arm } = stack.selectGuardArm(nonzero);
+    reached.push(...arm);
+    let results: Entry[] = [];
+    if (branch) {
+      const target = partContinuation(branch, operands, stackInputs);
+      for (const arg of target.args.slice().reverse()) {
+        const v = s.pop();
+        inputs.push({ name: `${branch.var_name}_${arg.id}`, value: { id: v.name, continuationMeta: v.continuationMeta } });
+      }
+      results = target.result.map((_, result) => ({ result }));
+    }
+    if (!exits) ends.push({ path: branch?.var_name ?? 'skip', entries: [...s.copyEntries().map((variable) => ({ variable })), ...results] });
+  }
+  const depth = ends[0]?.entries.length ?? 0;
+  if (ends.some(({ entries }) => entries.length !== depth)) throw new GuardUnresolvedError();
+  const outputs: IROutputs = [];
+  const phis: IRPhi[] = [];
+  const merged: StackVariable[] = [];
+  for (let i = 0; i < depth; i++) {
+    const at = ends.map(({ entries }) => entries[i]);
+    const first = at[0];
+    if ('variable' in first && at.every((e) => 'variable' in e && e.variable === first.variable)) {
+      merged.push(first.variable);
+      continue;
+    }
+    const v = Stack.allocVar();
+    merged.push(v);
+    outputs.push({ name: `out_${outputs.length}`, value: { id: v.name } });
+    phis.push({
+      output: v.name,
+      sources: ends.map(({ path }, k): IRPhiSource => {
+        const e = at[k];
+        return 'result' in e ? { path, result: e.result } : { path, input: phiInput(inputs, e.variable) };
+      }),
+    });
+  }
+  // Paths that all leave the function make the rest unreachable; keep the stack as it is
+  stack.reset(ends.length ? merged : stack.copyEntries());
+  reached.forEach(defineArmOutput);
+  return { inputs, outputs, phis };
+}
+
+export function analyzeControlFlow(spec: Instruction, operands: VarMap, stack: Stack, stackInputs: IRInputs): ControlFlowEffect {
+  const loop = loopBranch(spec);
+  if (loop) return analyzeLoop(spec, loop, operands, stack, stackInputs);
+  const handler = tryBranch(spec);
+  if (handler) return analyzeTry(spec, handler, operands, stack, stackInputs);
+  const flag = stackInputs.find(i => i.name == 'f')?.value as IRValueRef | undefined;
+  const flagBranches = flag && stack.guardFlag()?.name === flag.id ? flagPaths(spec) : undefined;
+  if (flagBranches) return analyzeFlagBranches(flagBranches, operands, stack, stackInputs);
   let inputs: IRInputs = [];
   let maxRets = -1;
   let maxArgs = 0;
   let hasJumps = false;
+  // Continuations that come back to the statement, with the number of values they take
+  const returning: Array<{ label: string; args: number }> = [];
   for (let i = 0; i < spec.control_flow.branches.length; i++) {
     const branch = spec.control_flow.branches[i];
     if (branch.type == 'variable') {
@@ -182,6 +492,9 @@ export function analyzeControlFlow(spec: Instruction, operands: VarMap, stack: S
         if (value.continuationMeta == undefined) {
           throw new Error('continuation has no meta!');
         }
+        if (capturedOf(value.continuationMeta).length) {
+          throw new Error(`continuation ${varName} has ${capturedOf(value.continuationMeta).length} saved arguments`);
+        }
         target = value.continuationMeta.continuation;
       }
       
@@ -199,6 +512,8 @@ export function analyzeControlFlow(spec: Instruction, operands: VarMap, stack: S
       }
       if (branch.save?.c0?.type != "cc") {
         hasJumps = true;
+      } else {
+        returning.push({ label: varName, args: target.args.length });
       }
     }
   }
@@ -208,12 +523,25 @@ export function analyzeControlFlow(spec: Instruction, operands: VarMap, stack: S
   if (spec.control_flow.nobranch && maxArgs != maxRets && !hasJumps) {
     throw new Error(`for nobranch, args=${maxArgs} must be same as rets=${maxRets}`);
   }
+  const popped: StackVariable[] = [];
   for (let i = 0; i < maxArgs; i++) {
-    stack.pop();
+    popped.unshift(stack.pop());
   }
   const outputs = (new Array(maxRets)).fill(undefined).map((_, i) => {
     const v = stack.push();
     return { name: `out_${i}`, value: { id: v.name } };
   });
-  return { inputs, outputs };
-}
\ No newline at end of file
+  // Output i is result i of a continuation taking all popped values; one taking fewer leaves
+  // the deepest of them in place, as does skipping the continuation of IF/IFNOT
+  const phis: IRPhi[] = outputs.map((o, i) => ({
+    output: o.value.id,
+    sources: [
+      ...returning.map(({ label, args }): IRPhiSource => {
+        const below = maxArgs - args;
+        return i < below ? { path: label, input: phiInput(inputs, popped[i]) } : { path: label, result: i - below };
+      }),
+      ...(spec.control_flow.nobranch ? [{ path: 'skip', input: phiInput(inputs, popped[i]) }] : []),
+    ],
+  }));
+  return { inputs, outputs, phis };
+}
@@ -1,55 +1,174 @@
-import { BOC, Hashmap, Builder, Slice } from "ton3-core";
-import { OpcodeParser } from "../disasm";
-import { bitsToIntUint } from "ton3-core/dist/utils/numbers";
+import { BOC, Builder, Slice, Cell } from "ton3-core";
+import { detectMethodDictLayout } from "./layouts";
+import { base64ToBytes, hexToBytes } from "ton3-core/dist/utils/helpers";
 
 // Low-level loader utilities (no lifting or IR here)
 
+// Which kind of root cell the contract code was found in
+export type ContractRootKind = 'code' | 'state_init' | 'account';
+
+// Contract state extracted from a BOC: code to decompile plus the data and
+// library cells that travel with it (null when absent).
+export type LoadedContract = {
+  kind: ContractRootKind;
+  code: Slice;
+  data: Cell | null;
+  libraries: Cell | null;
+};
+
+// Textual BOC encodings accepted besides raw bytes; 'auto' picks by content
+export type BocStringFormat = 'hex' | 'base64' | 'auto';
+
 export function loadEntrySlice(path: string): Slice {
-  const boc = BOC.from(new Uint8Array(require('fs').readFileSync(path)));
-  return boc.root[0].slice();
+  return loadContractFile(path).code;
 }
 
-export function cloneSlice(s: Slice): Slice {
-  return new Builder().storeBits(s.bits).storeRefs(s.refs).cell().slice();
+// The only loader that touches the filesystem; everything below works on bytes/strings.
+export function loadContractFile(path: string): LoadedContract {
+  return loadContractFromBytes(new Uint8Array(require('fs').readFileSync(path)));
 }
 
-// Tries to decode entry point that dispatches dictionary of methods.
-// Returns a map of methodId -> continuation slice if matched, otherwise null.
-export function tryDecodeFunctionDictFromRoot(root: Slice): Map<number, Slice> | null {
-  const sc = cloneSlice(root);
+export function loadContractFromBytes(bytes: Uint8Array): LoadedContract {
+  const boc = BOC.from(bytes);
+  return loadContractFromCell(boc.root[0]);
+}
+
+export function loadContractFromString(input: string, format: BocStringFormat): LoadedContract {
+  return loadContractFromBytes(decodeBocString(input, format));
+}
+
+// Hex is preferred when the string only contains hex digits: serialized BOCs
+// start with `b5ee9c72` in hex and `te6c` in base64, so the two never collide.
+export function detectBocStringFormat(input: string): 'hex' | 'base64' {
+  const s = input.replace(/\s+/g, '');
+  if (/^(0x)?[0-9a-fA-F]+$/.test(s) && s.length % 2 === 0) return 'hex';
+  if (/^[A-Za-z0-9+/_-]+={0,2}$/.test(s)) return 'base64';
+  throw new Error('Unrecognized BOC string: expected hex or base64');
+}
+
+export function decodeBocString(input: string, format: BocStringFormat): Uint8Array {
+  const s = input.replace(/\s+/g, '');
+  const fmt = format === 'auto' ? detectBocStringFormat(s) : format;
+  if (fmt === 'hex') {
+    const hex = s.startsWith('0x') ? s.slice(2) : s;
+    if (!/^[0-9a-fA-F]+$/.test(hex) || hex.length % 2 !== 0) throw new Error('Invalid hex BOC string');
+    return hexToBytes(hex);
+  }
+  // Accept url-safe alphabet and missing padding as produced by some indexers
+  const std = s.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = std + '='.repeat((4 - (std.length % 4)) % 4);
+  return base64ToBytes(padded);
+}
+
+// Detects the layout of a root cell: full Account, StateInit or bare code.
+// Account and StateInit are matched strictly (all bits and refs consumed),
+// anything else is treated as raw code.
+export function loadContractFromCell(root: Cell): LoadedContract {
+  const account = tryParseAccount(root);
+  if (account) return account;
+  const stateInit = tryParseStateInit(root.slice());
+  if (stateInit) return { kind: 'state_init', code: stateInit.code, data: stateInit.data, libraries: stateInit.libraries };
+  return { kind: 'code', code: root.slice(), data: null, libraries: null };
+}
+
+type ParsedStateInit = { code: Slice; data: Cell | null; libraries: Cell | null };
+
+// _ split_depth:(Maybe (## 5)) special:(Maybe TickTock)
+//   code:(Maybe ^Cell) data:(Maybe ^Cell) library:(HashmapE 256 SimpleLib) = StateInit;
+// Parses StateInit from the current position of `s`. Only accepts states that carry code.
+function parseStateInit(s: Slice): ParsedStateInit | null {
+  if (s.loadBit() === 1) s.skipBits(5);
+  if (s.loadBit() === 1) s.skipBits(2);
+  const code = s.loadMaybeRef();
+  const data = s.loadMaybeRef();
+  const libraries = s.loadMaybeRef();
+  if (!code) return null;
+  return { code: code.slice(), data, libraries };
+}
+
+function tryParseStateInit(s: Slice): ParsedStateInit | null {
   try {
-    // 1) SETCP
-    const [ins1] = OpcodeParser.nextInstruction(sc);
-    if (ins1.mnemonic !== 'SETCP') return null;
-    // 2) DICTPUSHCONST
-    const [ins2, ops2] = OpcodeParser.nextInstruction(sc);
-    if (ins2.mnemonic !== 'DICTPUSHCONST') return null;
-    const n: number = ops2['n'];
-    const d: Slice = ops2['d'];
-    // 3) DICTIGETJMPZ
-    const [ins3] = OpcodeParser.nextInstruction(sc);
-    if (ins3.mnemonic !== 'DICTIGETJMPZ') return null;
-    // 4) THROWARG
-    const [ins4] = OpcodeParser.nextInstruction(sc);
-    if (ins4.mnemonic !== 'THROWARG') return null;
-    // ensure no extra code in root
-    if (sc.bits.length !== 0 || sc.refs.length !== 0) return null;
-
-    // Parse dictionary as functions: key=int, value=Slice for continuation body
-    const dict = Hashmap.parse<number, Slice>(n, d, {
-      deserializers: {
-        key: (k: any) => bitsToIntUint(k, { type: 'int' }) as number,
-        value: (v: any) => v.slice() as Slice,
-      },
-    });
-
-    const result = new Map<number, Slice>();
-    dict.forEach((methodId: number, contSlice: Slice) => {
-      result.set(methodId, contSlice);
-    });
-    return result;
+    const res = parseStateInit(s);
+    if (s.bits.length !== 0 || s.refs.length !== 0) return null;
+    return res;
   } catch (_) {
     return null;
   }
 }
 
+// addr_std$10 anycast:(Maybe Anycast) workchain_id:int8 address:bits256 = MsgAddressInt;
+// addr_var$11 anycast:(Maybe Anycast) addr_len:(## 9) workchain_id:int32 address:(bits addr_len) = MsgAddressInt;
+function skipMsgAddressInt(s: Slice) {
+  if (s.loadBit() !== 1) throw new Error('not an internal address');
+  const isVar = s.loadBit() === 1;
+  if (s.loadBit() === 1) {
+    // anycast_info$_ depth:(#<= 30) rewrite_pfx:(bits depth) = Anycast;
+    s.skipBits(s.loadUint(5));
+  }
+  if (isVar) {
+    const len = s.loadUint(9);
+    s.skipBits(32 + len);
+  } else {
+    s.skipBits(8 + 256);
+  }
+}
+
+// Two StorageInfo layouts are in use: the legacy one with `public_cells` in
+// StorageUsed, and the current one with StorageExtraInfo instead.
+type StorageInfoLayout = 'legacy' | 'extra';
+
+function skipStorageInfo(s: Slice, layout: StorageInfoLayout) {
+  s.loadVarBigUint(7); // cells
+  s.loadVarBigUint(7); // bits
+  if (layout === 'legacy') {
+    s.loadVarBigUint(7); // public_cells
+  } else {
+    // storage_extra_none$000 | storage_extra_info$001 dict_hash:uint256
+    const tag = s.loadUint(3);
+    if (tag === 1) s.skipBits(256);
+    else if (tag !== 0) throw new Error('bad StorageExtraInfo tag');
+  }
+  s.skipBits(32); // last_paid
+  if (s.loadBit() === 1) s.loadVarBigUint(16); // due_payment
+}
+
+// account$1 addr:MsgAddressInt storage_stat:StorageInfo storage:AccountStorage = Account;
+// account_storage$_ last_trans_lt:uint64 balance:CurrencyCollection state:AccountState = AccountStorage;
+// account_active$1 _:StateInit = AccountState;
+function parseAccount(root: Cell, layout: StorageInfoLayout): LoadedContract {
+  const s = root.slice();
+  if (s.loadBit() !== 1) throw new Error('account_none has no code');
+  skipMsgAddressInt(s);
+  skipStorageInfo(s, layout);
+  s.skipBits(64); // last_trans_lt
+  s.loadVarBigUint(16); // balance.grams
+  s.loadMaybeRef(); // balance.other
+  if (s.loadBit() !== 1) throw new Error('account is not active');
+  const st = parseStateInit(s);
+  if (!st) throw new Error('account state has no code');
+  if (s.bits.length !== 0 || s.refs.length !== 0) throw new Error('trailing data after account');
+  return { kind: 'account', code: st.code, data: st.data, libraries: st.libraries };
+}
+
+function tryParseAccount(root: Cell): LoadedContract | null {
+  for (const layout of ['extra', 'legacy'] as const) {
+    try {
+      return parseAccount(root, layout);
+    } catch (_) {
+      continue;
+    }
+  }
+  return null;
+}
+
+export function cloneSlice(s: Slice): Slice {
+  return new Builder().storeBits(s.bits).storeRefs(s.refs).cell().slice();
+}
+
+// Tries to decode entry point that dispatches dictionary of methods.
+// Returns a map of methodId -> continuation slice if matched, otherwise null.
+// See `detectMethodDictLayout` in ./layouts for the layout name and extra root code.
+export function tryDecodeFunctionDictFromRoot(root: Slice): Map<number, Slice> | null {
+  const layout = detectMethodDictLayout(root);
+  return layout ? layout.methods : null;
+}
@@ -0,0 +1,14 @@
+import { Builder, Slice } from "ton3-core";
+
+// Position of a code slice inside the cell it was taken from. Slices cut out of a
+// cell (dictionary values, inline continuations) are standalone copies, so their
+// origin has to be carried alongside to report locations in the original code.
+export type SliceOrigin = {
+  cellHash: string;
+  bitOffset: number;
+};
+
+// Origin of a slice that spans a whole cell (refs, fresh cell slices)
+export function cellOrigin(slice: Slice): SliceOrigin {
+  return { cellHash: new Builder().storeSlice(slice).cell().hash(), bitOffset: 0 };
+}
@@ -1,11 +1,285 @@
 import { Decompiler } from "./decompiler";
+import type { Program } from "./core/program";
+import { buildCallGraph, callGraphToDot, callGraphToJSON } from "./analysis/callGraph";
+import { methodIdFromName, parseMethodNameList, registerMethodNames } from "./core/methodNames";
+import { buildVersionReport, formatVersionReport, versionReportToJSON } from "./analysis/versions";
+import { collectLiftErrors, formatLiftError } from "./analysis/diagnostics";
+import { formatMethodSummaries, methodSummariesToJSON, summarizeMethods } from "./analysis/methods";
+import { buildContractInfo, contractInfoToJSON, formatContractInfo } from "./analysis/info";
+import { filterProgram, programFunctions } from "./analysis/walk";
+import { buildCFG, cfgToDot } from "./analysis/cfg";
+import { collectExitCodes, exitCodesToJSON, formatExitCodes } from "./analysis/exitCodes";
+import { formatTypeConflict, inferTypes } from "./analysis/types";
+import { ExitCodeNameListError, parseExitCodeNameList, registerExitCodeNames } from "./core/exitCodes";
+import { LoadedContract, loadContractFile, loadContractFromString } from "./frontend/loader";
+import { sourceMapToJSON } from "./backend/sourceMap";
+import { dumpProgram } from "./backend/irDump";
+import { listingErrors } from "./backend/fift";
+import { programToJSON } from "./core/serialize";
+import { passNames, UnknownPassError } from "./middle/pipeline";
+import fs from "fs";
 
-const input = process.argv[2];
-if (!input) {
-    console.error("Usage: node dist/index.js <path-to-boc>");
+const usage = [
+    "Usage: node dist/index.js [command] [options] <path-to-boc>",
+    "       node dist/index.js [command] [options] --hex <boc-hex>",
+    "       node dist/index.js [command] [options] --base64 <boc-base64>",
+    "       node dist/index.js [command] [options] --boc <boc-hex-or-base64>",
+    "Commands:",
+    "  decompile               pseudo-code (default); formats: text, json, func (FunC source for `func`, with asm functions), tolk (the same in Tolk syntax)",
+    "  disasm                  Fift-asm listing; formats: fift (Asm.fif words, default), text (tvm-spec mnemonics)",
+    "  ir                      lifted IR after the selected passes, without pretty printers; formats: text, json (versioned IR schema)",
+    "  methods                 methods with arity, size, status and callees; formats: text, json",
+    "  info                    code size, layout, TVM version and lift errors; formats: text, json",
+    "  cfg                     control-flow graph of each function (basic blocks, branches, loops, exits); formats: dot",
+    "  exit-codes              exit codes thrown by each method with their conditions and locations; formats: text, json",
+    "Options:",
+    "  --method <id|name>      only this method ('main' for root entry code)",
+    "  --format <format>       output format: text, json, func, tolk, fift or dot (see commands)",
+    "  --no-passes             skip the middle pipeline",
+    `  --passes a,b            run only these passes, in order (${passNames().join(", ")})`,
+    "  --call-graph dot|json   print method call graph instead of pseudo-code",
+    "  --disasm fift|spec      same as `disasm --format fift|text`",
+    "  --names <file>          extra get-method names (one per line) to recover names from method ids",
+    "  --exit-code-names <file>  names of exit codes (`<code> <name>` per line) for throws and exit-codes",
+    "  --global-version <n>    target TVM global version; newer instructions are rejected",
+    "  --version-report text|json  print instructions newer than version 0 and the minimum version required",
+    "  --locations             annotate instructions with `// @<cell hash>:<bit offset>+<bit length>` comments",
+    "  --source-map <file>     write bytecode locations of printed pseudo-code lines to <file> (JSON)",
+    "  --types                 infer value types; pseudo-code gets typed declarations and signatures, conflicts go to stderr",
+    "Exit status: 0 on success, 1 on usage or input errors, 2 when some code failed to decompile or disassemble.",
+].join("\n");
+
+// Some code failed to lift; the output is still printed
+const EXIT_LIFT_ERRORS = 2;
+
+const fail = (message?: string): never => {
+    if (message) console.error(message);
+    console.error(usage);
     process.exit(1);
+};
+
+const COMMANDS = ['decompile', 'disasm', 'ir', 'methods', 'info', 'cfg', 'exit-codes'] as const;
+type Command = typeof COMMANDS[number];
+type OutputFormat = 'text' | 'json' | 'func' | 'tolk' | 'fift' | 'dot';
+
+const FORMATS: Record<Command, OutputFormat[]> = {
+    decompile: ['text', 'json', 'func', 'tolk'],
+    disasm: ['fift', 'text'],
+    ir: ['text', 'json'],
+    methods: ['text', 'json'],
+    info: ['text', 'json'],
+    cfg: ['dot'],
+    'exit-codes': ['text', 'json'],
+};
+
+type CliInput = { kind: 'file'; path: string } | { kind: 'string'; value: string; format: 'hex' | 'base64' | 'auto' };
+
+type CliArgs = {
+    command: Command;
+    input: CliInput;
+    format: OutputFormat;
+    method: string | null;
+    passes: string[] | undefined;
+    callGraph: 'dot' | 'json' | null;
+    nameLists: string[];
+    exitCodeNames: string[];
+    globalVersion: number | undefined;
+    versionReport: 'text' | 'json' | null;
+    locations: boolean;
+    sourceMap: string | null;
+    types: boolean;
+};
+
+const parseArgs = (argv: string[]): CliArgs => {
+    let command: Command = 'decompile';
+    let input: CliInput | null = null;
+    let format: OutputFormat | null = null;
+    let method: string | null = null;
+    let passes: string[] | undefined;
+    let callGraph: 'dot' | 'json' | null = null;
+    const nameLists: string[] = [];
+    const exitCodeNames: string[] = [];
+    let globalVersion: number | undefined;
+    let versionReport: 'text' | 'json' | null = null;
+    let locations = false;
+    let sourceMap: string | null = null;
+    let types = false;
+    let i = 0;
+    if ((COMMANDS as readonly string[]).includes(argv[0])) {
+        command = argv[0] as Command;
+        i = 1;
+    }
+    for (; i < argv.length; i++) {
+        const arg = argv[i];
+        if (arg === "--hex" || arg === "--base64" || arg === "--boc") {
+            const value = argv[++i] ?? fail();
+            const format = arg === "--hex" ? "hex" : arg === "--base64" ? "base64" : "auto";
+            input = { kind: 'string', value, format };
+        } else if (arg === "--format") {
+            const value = argv[++i];
+            if (value !== "text" && value !== "json" && value !== "func" && value !== "tolk" && value !== "fift" && value !== "dot") return fail(`Unknown format: ${value}`);
+            format = value;
+        } else if (arg === "--method") {
+            method = argv[++i] ?? fail();
+        } else if (arg === "--no-passes") {
+            passes = [];
+        } else if (arg === "--passes") {
+            passes = (argv[++i] ?? fail()).split(",").map((s) => s.trim()).filter(Boolean);
+        } else if (arg === "--call-graph") {
+            const value = argv[++i];
+            if (value !== "dot" && value !== "json") return fail();
+            callGraph = value;
+        } else if (arg === "--disasm") {
+            const value = argv[++i];
+            if (value !== "fift" && value !== "spec") return fail();
+            command = 'disasm';
+            format = value === "spec" ? "text" : "fift";
+        } else if (arg === "--names") {
+            nameLists.push(argv[++i] ?? fail());
+        } else if (arg === "--exit-code-names") {
+            exitCodeNames.push(argv[++i] ?? fail());
+        } else if (arg === "--global-version") {
+            const value = Number(argv[++i]);
+            if (!Number.isInteger(value) || value < 0) return fail();
+            globalVersion = value;
+        } else if (arg === "--version-report") {
+            const value = argv[++i];
+            if (value !== "text" && value !== "json") return fail();
+            versionReport = value;
+        } else if (arg === "--locations") {
+            locations = true;
+        } else if (arg === "--source-map") {
+            sourceMap = argv[++i] ?? fail();
+        } else if (arg === "--types") {
+            types = true;
+        } else if (!arg.startsWith("--") && input === null) {
+            input = { kind: 'file', path: arg };
+        } else {
+            return fail(`Unexpected argument: ${arg}`);
+        }
+    }
+    if (input === null) return fail();
+    const resolved = format ?? FORMATS[command][0];
+    if (!FORMATS[command].includes(resolved)) return fail(`${command} does not support --format ${resolved}`);
+    if ((callGraph || versionReport || sourceMap) && command !== 'decompile') {
+        return fail("--call-graph, --version-report and --source-map apply to decompile only");
+    }
+    return { command, input, format: resolved, method, passes, callGraph, nameLists, exitCodeNames, globalVersion, versionReport, locations, sourceMap, types };
+};
+
+// `main`, a numeric id (decimal or 0x-hex, may be negative), `method_<id>` or a get-method name
+const parseMethodSelector = (sel: string): number | null => {
+    if (sel === "main") return null;
+    if (/^-?(\d+|0x[0-9a-fA-F]+)$/.test(sel)) return sel.startsWith("-") ? -Number(sel.slice(1)) : Number(sel);
+    const generic = /^method_(-?\d+)$/.exec(sel);
+    return generic ? Number(generic[1]) : methodIdFromName(sel);
+};
+
+const args = parseArgs(process.argv.slice(2));
+for (const path of args.nameLists) {
+    registerMethodNames(parseMethodNameList(fs.readFileSync(path, "utf8")));
+}
+for (const path of args.exitCodeNames) {
+    try {
+        registerExitCodeNames(parseExitCodeNameList(fs.readFileSync(path, "utf8")));
+    } catch (e) {
+        if (e instanceof ExitCodeNameListError) fail(`${path}: ${e.message}`);
+        throw e;
+    }
 }
 
-const decomp = new Decompiler();
-const program = decomp.decompileFile(input);
-console.log(decomp.format(program));
+const createDecompiler = (): Decompiler => {
+    try {
+        // The version report needs every instruction decoded, so it ignores --global-version
+        // when decoding and only uses it to flag instructions the target lacks
+        return new Decompiler({ globalVersion: args.versionReport ? undefined : args.globalVersion, passes: args.passes });
+    } catch (e) {
+        if (e instanceof UnknownPassError) return fail(e.message);
+        throw e;
+    }
+};
+const decomp = createDecompiler();
+const loadContract = (): LoadedContract => {
+    const input = args.input;
+    try {
+        return input.kind === 'file' ? loadContractFile(input.path) : loadContractFromString(input.value, input.format);
+    } catch (e) {
+        const message = e instanceof Error ? e.message : String(e);
+        return fail(input.kind === 'file' ? `${input.path}: ${message}` : message);
+    }
+};
+const contract = loadContract();
+const selected = args.method === null ? undefined : parseMethodSelector(args.method);
+
+if (args.command === 'disasm') {
+    const opts = { mnemonics: args.format === 'text' ? 'spec' as const : 'fift' as const, locations: args.locations };
+    const listing = selected === undefined
+        ? decomp.disassembleSlice(contract.code, opts)
+        : decomp.disassembleMethod(contract.code, selected, opts) ?? fail(`No method ${args.method}`);
+    console.log(listing);
+    const errors = listingErrors(listing);
+    for (const e of errors) console.error(`disassemble error: ${e}`);
+    process.exit(errors.length > 0 ? EXIT_LIFT_ERRORS : 0);
+}
+
+let program: Program = decomp.decompileContract(contract);
+// Types flow across method calls, so they are inferred before picking a method
+if (args.types) {
+    for (const c of inferTypes(program)) console.error(`warning: ${formatTypeConflict(c)}`);
+}
+if (selected !== undefined) {
+    if (!programFunctions(program).some((f) => f.methodId === selected)) fail(`No method ${args.method}`);
+    program = filterProgram(program, (f) => f.methodId === selected);
+}
+
+const print = (text: string, json: () => string) => console.log(args.format === 'json' ? json() : text);
+
+if (args.versionReport) {
+    const report = buildVersionReport(program);
+    console.log(args.versionReport === 'json' ? versionReportToJSON(report) : formatVersionReport(report, args.globalVersion));
+} else if (args.callGraph) {
+    if (program.kind !== 'multi') {
+        console.error("Call graph requires a contract with a method dictionary");
+        process.exit(1);
+    }
+    const graph = buildCallGraph(program);
+    console.log(args.callGraph === 'dot' ? callGraphToDot(graph) : callGraphToJSON(graph));
+} else if (args.command === 'ir') {
+    print(dumpProgram(program, { locations: args.locations }), () => programToJSON(program));
+} else if (args.command === 'cfg') {
+    console.log(programFunctions(program).map(({ name, fn }) => cfgToDot(buildCFG(fn, name))).join('\n\n'));
+} else if (args.command === 'exit-codes') {
+    const uses = collectExitCodes(program);
+    print(formatExitCodes(uses), () => exitCodesToJSON(uses));
+} else if (args.command === 'methods') {
+    const methods = summarizeMethods(program);
+    print(formatMethodSummaries(methods), () => methodSummariesToJSON(methods));
+} else if (args.command === 'info') {
+    const info = buildContractInfo(contract, program);
+    print(formatContractInfo(info), () => contractInfoToJSON(info));
+} else if (args.format === 'func') {
+    console.log(decomp.formatFunc(program));
+} else if (args.format === 'tolk') {
+    console.log(decomp.formatTolk(program));
+} else if (args.format === 'json') {
+    const errors = collectLiftErrors(program);
+    const functions = programFunctions(program).map(({ name, methodId }) => ({
+        name,
+        methodId,
+        code: decomp.format(filterProgram(program, (f) => f.methodId === methodId), { locations: args.locations, types: args.types }),
+        errors: errors.filter((e) => e.methodId === methodId).map(({ kind, message }) => ({ kind, message })),
+    }));
+    console.log(JSON.stringify({ layout: program.kind === 'multi' ? program.layout ?? null : null, functions }, null, 2));
+} else if (args.sourceMap) {
+    const { text, sourceMap } = decomp.formatWithSourceMap(program, { types: args.types });
+    fs.writeFileSync(args.sourceMap, sourceMapToJSON(sourceMap));
+    console.log(args.locations ? decomp.format(program, { locations: true, types: args.types }) : text);
+} else {
+    console.log(decomp.format(program, { locations: args.locations, types: args.types }));
+}
+
+const liftErrors = collectLiftErrors(program);
+if (liftErrors.length > 0) {
+    for (const e of liftErrors) console.error(formatLiftError(e));
+    process.exit(EXIT_LIFT_ERRORS);
+}
@@ -1,5 +1,8 @@
-import type { IRFunction, IROperandValue } from "../core/ir";
+import type { IRFunction, IROperandValue, IRValueRef } from "../core/ir";
 import { inlinePrevSingleUse, inlineConsts } from "../opt/inline";
+import { foldConstants } from "../opt/constFold";
+import { eliminateDeadCode } from "../opt/dce";
+import { eliminateCommonSubexpressions } from "../opt/cse";
 
 export type Pass = (fn: IRFunction) => IRFunction;
 
@@ -13,10 +16,22 @@ export class Pipeline {
 
   run(fn: IRFunction): IRFunction {
     // Recursively process continuations (IRFunctions embedded in operands)
+    const processed = new Map<IRFunction, IRFunction>();
     for (const st of fn.body) {
       for (const op of st.operands) {
-        const next = this.runOnOperand(op.value as IROperandValue);
-        if (next !== op.value) op.value = next;
+        const prev = op.value as IROperandValue;
+        const next = this.runOnOperand(prev);
+        if (next === prev) continue;
+        op.value = next;
+        if (prev.kind === 'cont' && next.kind === 'cont') processed.set(prev.value, next.value);
+      }
+    }
+    // Values carrying a continuation (PUSHCONT results passed on, SETCONTVARARGS) follow it
+    for (const st of fn.body) {
+      for (const { value } of st.inputs) {
+        const meta = (value as IRValueRef).continuationMeta;
+        const next = meta && processed.get(meta.continuation);
+        if (next) (value as IRValueRef).continuationMeta = { continuation: next };
       }
     }
     // Apply passes to the current function
@@ -42,8 +57,47 @@ export class Pipeline {
   }
 }
 
+export class UnknownPassError extends Error {
+  public pass: string;
+
+  public constructor(pass: string) {
+    super(`Unknown pass ${pass}; known passes: ${passNames().join(', ')}`);
+    this.name = "UnknownPassError";
+    this.pass = pass;
+  }
+}
+
+// Pass registry: passes are selected by name (CLI `--passes a,b`); registering an
+// existing name replaces that pass
+const namedPasses = new Map<string, Pass>();
+
+export function registerPass(name: string, pass: Pass) {
+  namedPasses.set(name, pass);
+}
+
+export function passNames(): string[] {
+  return Array.from(namedPasses.keys());
+}
+
+// Passes run by default, in order
+export const DEFAULT_PASSES: readonly string[] = ['const-fold', 'dce', 'inline-consts', 'inline-single-use', 'cse'];
+
+export function pipelineFromPasses(names: readonly string[]): Pipeline {
+  const pipeline = new Pipeline();
+  for (const name of names) {
+    const pass = namedPasses.get(name);
+    if (!pass) throw new UnknownPassError(name);
+    pipeline.use(pass);
+  }
+  return pipeline;
+}
+
 export function defaultPipeline(): Pipeline {
-  return new Pipeline()
-    .use(inlineConsts)
-    .use(inlinePrevSingleUse);
+  return pipelineFromPasses(DEFAULT_PASSES);
 }
+
+registerPass('const-fold', foldConstants);
+registerPass('dce', eliminateDeadCode);
+registerPass('inline-consts', inlineConsts);
+registerPass('inline-single-use', inlinePrevSingleUse);
+registerPass('cse', eliminateCommonSubexpressions);
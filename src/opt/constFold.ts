@@ -0,0 +1,94 @@
+import { IRFunction, IRInlineExpr, IRInputArg, IROpPrim, IRValueRef } from "../core/ir";
+import { constantValue, evaluatePure, isPureIntOp, operandValues } from "../core/constEval";
+import { findInstruction } from "../disasm";
+
+// Constant folding and propagation: pure integer instructions (arithmetic, comparisons,
+// bitwise ops) whose inputs are constants become a single constant push with the same
+// outputs. Constants come from `const_int` instructions, earlier folds and inlined
+// expressions; `inline-consts` then propagates the folded values into their uses.
+// Constant pushes read only by folded instructions are dropped.
+// Folding needs the PUSHINT_LONG spec of the code page tables; without it nothing changes.
+
+const FOLDED_MNEMONIC = 'PUSHINT_LONG';
+
+function constantOp(value: bigint, st: IROpPrim): IROpPrim | undefined {
+  const spec = findInstruction(FOLDED_MNEMONIC);
+  const operand = spec?.bytecode.operands[0];
+  if (!spec || !operand || st.outputs.length !== 1) return undefined;
+  const safe = value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER);
+  const output = spec.value_flow?.outputs?.stack?.[0];
+  return {
+    kind: 'prim',
+    spec,
+    mnemonic: spec.mnemonic,
+    inputs: [],
+    operands: [{ name: operand.name, value: safe ? { kind: 'int', value: Number(value) } : { kind: 'bigint', value } }],
+    outputs: [{ name: output?.type === 'simple' ? output.name : st.outputs[0].name, value: st.outputs[0].value }],
+    loc: st.loc,
+  };
+}
+
+export function foldConstants(fn: IRFunction): IRFunction {
+  const known = new Map<string, bigint>();
+  const consumed = new Set<string>();
+
+  const valueOf = (a: IRInputArg): bigint | undefined => {
+    if ((a as any).kind !== 'inline') return known.get((a as IRValueRef).id);
+    const values = evaluate((a as IRInlineExpr).op);
+    return values?.length === 1 ? values[0] : undefined;
+  };
+
+  // Output values of an instruction whose inputs are all known
+  const evaluate = (st: IROpPrim): bigint[] | undefined => {
+    const operands = operandValues(st.operands);
+    const constant = constantValue(st.spec, operands);
+    if (constant !== undefined) return [constant];
+    if (!isPureIntOp(st.spec)) return undefined;
+    const args: bigint[] = [];
+    for (const entry of st.spec.value_flow?.inputs?.stack ?? []) {
+      const input = entry.type === 'simple' ? st.inputs.find((i) => i.name === entry.name) : undefined;
+      const v = input ? valueOf(input.value) : undefined;
+      if (v === undefined) return undefined;
+      args.push(v);
+    }
+    return evaluatePure(st.spec, operands, args);
+  };
+
+  // The instruction itself when it folds, otherwise its inlined inputs
+  const fold = (st: IROpPrim): IROpPrim => {
+    const values = evaluate(st);
+    if (values && values.length === st.outputs.length) {
+      st.outputs.forEach((o, i) => known.set(o.value.id, values[i]));
+      if (constantValue(st.spec, operandValues(st.operands)) !== undefined) return st;
+      const folded = values.length === 1 ? constantOp(values[0], st) : undefined;
+      if (folded) {
+        readIds(st, consumed);
+        return folded;
+      }
+    }
+    let changed = false;
+    const inputs = st.inputs.map((input) => {
+      if ((input.value as any).kind !== 'inline') return input;
+      const op = (input.value as IRInlineExpr).op;
+      const next = fold(op);
+      if (next === op) return input;
+      changed = true;
+      return { name: input.name, value: { kind: 'inline', op: next } as IRInlineExpr };
+    });
+    return changed ? { ...st, inputs } : st;
+  };
+
+  const body = fn.body.map(fold);
+  const used = new Set(fn.result.map((r) => r.id));
+  for (const st of body) readIds(st, used);
+  const dropped = (st: IROpPrim) => constantValue(st.spec, operandValues(st.operands)) !== undefined
+    && st.outputs.every((o) => consumed.has(o.value.id) && !used.has(o.value.id));
+  return { ...fn, body: body.filter((st) => !dropped(st)) };
+}
+
+function readIds(st: IROpPrim, into: Set<string>) {
+  for (const { value } of st.inputs) {
+    if ((value as any).kind === 'inline') readIds((value as IRInlineExpr).op, into);
+    else into.add((value as IRValueRef).id);
+  }
+}
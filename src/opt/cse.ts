@@ -0,0 +1,112 @@
+import { Builder } from "ton3-core";
+import { IRFunction, IRInlineExpr, IROperandValue, IROpPrim, IRValueRef } from "../core/ir";
+import { effectOf } from "./effects";
+
+// Common subexpression elimination: inlined expression trees that occur more than once in
+// a function (same mnemonics, operands and inputs) are computed once, as a statement
+// placed before the first statement using them, and referenced by its value elsewhere.
+// Trees must not write state or transfer control; trees reading state are only shared
+// between statements with no writing or control-flow statement in between.
+// Runs after the inlining passes, which copy trees into every use site. Single
+// instructions without inputs and constants stay inline, and so do trees only used as the
+// flags of THROW*/IF* statements: every throw and branch keeps its condition printed.
+
+type Tree = { key: string; size: number; shareable: boolean; reads: boolean };
+type Occurrence = { stmt: number; op: IROpPrim; size: number; flag: boolean };
+
+const contIds = new WeakMap<object, number>();
+let nextContId = 0;
+
+function operandKey(v: IROperandValue): string {
+  switch (v.kind) {
+    case 'int':
+    case 'bigint':
+    case 'bool': return `${v.kind}:${v.value}`;
+    case 'slice': return `slice:${new Builder().storeSlice(v.value).cell().hash()}`;
+    case 'cell': return `cell:${v.value.hash()}`;
+    case 'cont':
+    case 'cont_map': {
+      if (!contIds.has(v.value)) contIds.set(v.value, nextContId++);
+      return `${v.kind}:${contIds.get(v.value)}`;
+    }
+    case 'other': return `other:${String(v.value)}`;
+  }
+}
+
+const isConstant = (st: IROpPrim) => ['const_int', 'const_data', 'cell_const'].includes(st.spec.doc?.category);
+const testsFlag = (st: IROpPrim) => st.mnemonic.startsWith('THROW') || st.mnemonic.startsWith('IF');
+
+function collect(body: IROpPrim[]): Map<string, Occurrence[]> {
+  const found = new Map<string, Occurrence[]>();
+  // Statements that write state or transfer control start a new epoch for reading trees
+  let epoch = 0;
+  body.forEach((st, stmt) => {
+    const visit = (op: IROpPrim, flag: boolean): Tree => {
+      const effect = effectOf(op.spec);
+      let shareable = effect !== 'writes' && effect !== 'control' && op.outputs.length === 1;
+      let reads = effect === 'reads';
+      let size = 1;
+      const inputs = op.inputs.map(({ name, value }) => {
+        if ((value as any).kind !== 'inline') return `${name}=$${(value as IRValueRef).id}`;
+        const t = visit((value as IRInlineExpr).op, false);
+        shareable &&= t.shareable;
+        reads ||= t.reads;
+        size += t.size;
+        return `${name}=${t.key}`;
+      });
+      const operands = op.operands.map(({ name, value }) => `${name}=${operandKey(value)}`);
+      const key = `${op.mnemonic}(${inputs.join(',')}|${operands.join(',')})${reads ? `@${epoch}` : ''}`;
+      if (shareable && op.inputs.length > 0 && !isConstant(op)) {
+        if (!found.has(key)) found.set(key, []);
+        found.get(key)!.push({ stmt, op, size, flag });
+      }
+      return { key, size, shareable, reads };
+    };
+    for (const { name, value } of st.inputs) {
+      if ((value as any).kind === 'inline') visit((value as IRInlineExpr).op, name === 'f' && testsFlag(st));
+    }
+    const effect = effectOf(st.spec);
+    if (effect === 'writes' || effect === 'control') epoch++;
+  });
+  return found;
+}
+
+// Inputs of `st` (recursively) with every occurrence in `ops` replaced by `ref`
+function replaceTree(st: IROpPrim, ops: Set<IROpPrim>, ref: IRValueRef): IROpPrim {
+  let changed = false;
+  const inputs = st.inputs.map((input) => {
+    if ((input.value as any).kind !== 'inline') return input;
+    const op = (input.value as IRInlineExpr).op;
+    if (ops.has(op)) {
+      changed = true;
+      return { name: input.name, value: { ...ref } };
+    }
+    const next = replaceTree(op, ops, ref);
+    if (next === op) return input;
+    changed = true;
+    return { name: input.name, value: { kind: 'inline', op: next } as IRInlineExpr };
+  });
+  return changed ? { ...st, inputs } : st;
+}
+
+export function eliminateCommonSubexpressions(fn: IRFunction): IRFunction {
+  let body = fn.body;
+  for (;;) {
+    // The largest repeated tree first; its subtrees are then left with one occurrence
+    let best: Occurrence[] | undefined;
+    collect(body).forEach((occs) => {
+      if (occs.length < 2 || occs.every((o) => o.flag)) return;
+      if (!best || occs[0].size > best[0].size || (occs[0].size === best[0].size && occs[0].stmt < best[0].stmt)) best = occs;
+    });
+    if (!best) break;
+    const first = best[0];
+    const ops = new Set(best.map((o) => o.op));
+    const ref: IRValueRef = { id: first.op.outputs[0].value.id };
+    body = [
+      ...body.slice(0, first.stmt),
+      first.op,
+      ...body.slice(first.stmt).map((st) => replaceTree(st, ops, ref)),
+    ];
+  }
+  return body === fn.body ? fn : { ...fn, body };
+}
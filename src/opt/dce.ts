@@ -0,0 +1,28 @@
+import { IRFunction, IRInlineExpr, IROpPrim, IRValueRef } from "../core/ir";
+import { effectOf, isRemovable } from "./effects";
+
+// Dead code elimination: statements whose outputs are never read (by later statements,
+// inlined expressions or the function result) are removed when their effect class allows
+// it (see effects.ts). Side effects, possible exceptions and control flow always stay, and
+// so do statements without outputs (CHKDEPTH is only run for the exception it may raise).
+// Walks the body backwards, so chains of unused computations go in one pass.
+
+export function eliminateDeadCode(fn: IRFunction): IRFunction {
+  const used = new Set(fn.result.map((r) => r.id));
+  const kept: IROpPrim[] = [];
+  for (let i = fn.body.length - 1; i >= 0; i--) {
+    const st = fn.body[i];
+    const dead = st.outputs.length > 0 && st.outputs.every((o) => !used.has(o.value.id)) && isRemovable(effectOf(st.spec));
+    if (dead) continue;
+    markInputs(st, used);
+    kept.push(st);
+  }
+  return kept.length === fn.body.length ? fn : { ...fn, body: kept.reverse() };
+}
+
+function markInputs(st: IROpPrim, used: Set<string>) {
+  for (const { value } of st.inputs) {
+    if ((value as any).kind === 'inline') markInputs((value as IRInlineExpr).op, used);
+    else used.add((value as IRValueRef).id);
+  }
+}
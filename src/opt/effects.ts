@@ -0,0 +1,83 @@
+import type { Instruction } from "../gen/tvm-spec";
+
+// Effect classes of instructions, from the spec `doc.category` with per-mnemonic overrides:
+// - `pure`: only computes its outputs
+// - `reads`: reads contract or transaction state (c4, globals, config params)
+// - `writes`: changes state or produces output (actions, c4/c5, globals, gas, random seed)
+// - `throws`: may raise an exception (overflow, cell under/overflow, dictionary errors, THROW*)
+// - `control`: transfers control (instructions with branches, continuation categories)
+// Type check failures are not counted: lifted code is assumed to be well-typed.
+// `pure` and `reads` instructions whose results are unused can be removed.
+
+export type EffectClass = 'pure' | 'reads' | 'writes' | 'throws' | 'control';
+
+const CATEGORY_EFFECTS: Record<string, EffectClass> = {
+  const_int: 'pure',
+  const_data: 'pure',
+  cell_const: 'pure',
+  stack_basic: 'pure',
+  stack_complex: 'pure',
+  arithm_quiet: 'pure',
+  compare_other: 'pure',
+  arithm_basic: 'throws',
+  arithm_div: 'throws',
+  arithm_logical: 'throws',
+  compare_int: 'throws',
+  cell_build: 'throws',
+  cell_parse: 'throws',
+  tuple: 'throws',
+  app_crypto: 'throws',
+  app_addr: 'throws',
+  app_currency: 'throws',
+  app_misc: 'throws',
+  exceptions: 'throws',
+  app_config: 'reads',
+  app_global: 'reads',
+  app_actions: 'writes',
+  app_gas: 'writes',
+  app_rnd: 'writes',
+  debug: 'writes',
+  codepage: 'writes',
+};
+
+// Instructions whose category does not describe them
+const EFFECT_OVERRIDES: Record<string, EffectClass> = {
+  NEWC: 'pure',
+  ENDC: 'pure',
+  BBITS: 'pure',
+  BREFS: 'pure',
+  SBITS: 'pure',
+  SREFS: 'pure',
+  SBITREFS: 'pure',
+  NEWDICT: 'pure',
+  DICTEMPTY: 'pure',
+  NULL: 'pure',
+  ISNULL: 'pure',
+  NIL: 'pure',
+  SINGLE: 'pure',
+  PAIR: 'pure',
+  TRIPLE: 'pure',
+  TUPLE: 'pure',
+  HASHCU: 'pure',
+  HASHSU: 'pure',
+  SHA256U: 'pure',
+  PUSHCTR: 'reads',
+  GASCONSUMED: 'reads',
+  SETGLOB: 'writes',
+  SETGLOBVAR: 'writes',
+};
+
+export function effectOf(spec: Instruction): EffectClass {
+  if ((spec.control_flow?.branches ?? []).length > 0) return 'control';
+  const override = EFFECT_OVERRIDES[spec.mnemonic];
+  if (override) return override;
+  const category: string = spec.doc?.category ?? '';
+  if (category.startsWith('cont_')) return 'control';
+  if (category.startsWith('dict_')) return 'throws';
+  // Unknown categories are kept as if they changed state
+  return CATEGORY_EFFECTS[category] ?? 'writes';
+}
+
+export function isRemovable(effect: EffectClass): boolean {
+  return effect === 'pure' || effect === 'reads';
+}
@@ -18,8 +18,13 @@ export type StackVariable = {
     continuationMeta?: {
         continuation: IRFunction;
     };
+    // Integer value known while lifting (constants and instructions folded on them)
+    constValue?: bigint;
 };
 
+// Largest stack index taken from a constant by PICK, ROLLX, BLKSWX and the like
+const MAX_DYNAMIC_INDEX = 255n;
+
 export class GuardUnresolvedError extends Error {
     public constructor() {
         super("Attempt to access stack below unresolved conditional guard");
@@ -34,6 +39,9 @@ type GuardState = {
     depth: number; // number of safe pops above the guard
     // Branches collected so far (per-arm stack entries appended by conditional outputs)
     branches: StackVariable[][]; // all arms must have the same length to finalize
+    // Flag pushed along with the conditional outputs and the value selecting each arm
+    // (null for the `else` arm); a branch on it resolves the guard
+    flag?: { variable: StackVariable; values: Array<number | null> };
 };
 
 export type BasicStackOperation = 
@@ -65,6 +73,7 @@ export class Stack {
             s._guard = {
                 depth: this._guard.depth,
                 branches: this._guard.branches.map((b) => Array.from(b)),
+                flag: this._guard.flag,
             };
         }
         return s;
@@ -74,6 +83,11 @@ export class Stack {
         return Array.from(this._stack);
     }
 
+    // Entry `i` from the top without popping it (undefined below the known stack)
+    public peek(i: number): StackVariable | undefined {
+        return this._stack[this._stack.length - 1 - i];
+    }
+
     // Debug dump removed
 
     public pop(): StackVariable {
@@ -140,6 +154,36 @@ export class Stack {
         this._guard.branches[armIndex].push(...vars);
     }
 
+    public setGuardFlag(variable: StackVariable, values: Array<number | null>) {
+        if (!this._guard) throw new Error("Guard is not initialized");
+        this._guard.flag = { variable, values };
+    }
+
+    public guardFlag(): StackVariable | undefined {
+        return this._guard?.flag?.variable;
+    }
+
+    // Stack of the path on which the guard flag is zero or non-zero: entries of the arm it
+    // selects are inserted at the guard boundary and the guard is dropped
+    public selectGuardArm(nonzero: boolean): { stack: Stack, arm: StackVariable[] } {
+        const values = this._guard?.flag?.values;
+        if (!this._guard || !values) throw new GuardUnresolvedError();
+        const matching = values.flatMap((v, i) => v !== null && (v !== 0) === nonzero ? [i] : []);
+        const otherwise = values.indexOf(null);
+        const index = matching.length === 1 ? matching[0] : matching.length === 0 && otherwise !== -1 ? otherwise : -1;
+        if (index === -1) throw new GuardUnresolvedError();
+        const arm = this._guard.branches[index];
+        const entries = Array.from(this._stack);
+        entries.splice(Math.max(0, entries.length - this._guard.depth), 0, ...arm);
+        return { stack: new Stack(entries), arm };
+    }
+
+    // Replace the whole stack (and drop the guard) after paths have been merged
+    public reset(entries: StackVariable[]) {
+        this._stack = entries;
+        this._guard = null;
+    }
+
     // Finalize guard if all arms have equalized lengths.
     // Returns merged variables inserted (possibly empty) on success, or null if not finalized.
     public tryFinalizeGuard(): StackVariable[] | null {
@@ -304,22 +348,33 @@ export class Stack {
             case 'CHKDEPTH': {
                 throw new Error("Dynamic stack operation 'CHKDEPTH' is not supported in analysis");
             }
+            // Dynamic operations take their indexes from the stack; they are resolved when
+            // the lifter knows those values as constants
             case 'PICK': {
-                throw new Error("Dynamic stack operation 'PICK' is not supported in analysis");
+                this.execStackOperation({ op: 'push', i: this.popIndex('PICK') });
+                break;
             }
             case 'ROLLX':
             case '-ROLLX': {
-                throw new Error("Dynamic stack operation 'ROLLX' is not supported in analysis");
+                const n = this.popIndex('ROLLX');
+                this.execBlockSwap(insn.mnemonic === 'ROLLX' ? 1 : n, insn.mnemonic === 'ROLLX' ? n : 1);
+                break;
             }
             case 'BLKSWX':
             case 'REVX': {
-                throw new Error("Dynamic stack operation 'BLKSWX/REVX' is not supported in analysis");
+                const j = this.popIndex('BLKSWX/REVX');
+                const i = this.popIndex('BLKSWX/REVX');
+                if (insn.mnemonic === 'BLKSWX') this.execBlockSwap(i, j);
+                else this.execStackOperation({ op: 'reverse', i, j });
+                break;
             }
             case 'DROPX': {
-                throw new Error("Dynamic stack operation 'DROPX' is not supported in analysis");
+                this.execStackOperation({ op: 'blkpop', i: this.popIndex('DROPX'), j: 0 });
+                break;
             }
             case 'XCHGX': {
-                throw new Error("Dynamic stack operation 'XCHGX' is not supported in analysis");
+                this.execStackOperation({ op: 'xchg', i: 0, j: this.popIndex('XCHGX') });
+                break;
             }
             case 'ONLYTOPX': {
                 throw new Error("Dynamic stack operation 'ONLYTOPX' is not supported in analysis");
@@ -385,6 +440,23 @@ export class Stack {
         }
     }
 
+    // Stack index popped by a dynamic stack operation; it must be a known constant
+    private popIndex(name: string): number {
+        const v = this.pop().constValue;
+        if (v === undefined || v < 0n || v > MAX_DYNAMIC_INDEX) {
+            throw new Error(`Dynamic stack operation '${name}' is not supported in analysis`);
+        }
+        return Number(v);
+    }
+
+    // Swaps the block of `i` entries below the top `j` entries with them
+    private execBlockSwap(i: number, j: number) {
+        if (i === 0 || j === 0) return;
+        this.execStackOperation({ op: 'reverse', i, j });
+        this.execStackOperation({ op: 'reverse', i: j, j: 0 });
+        this.execStackOperation({ op: 'reverse', i: i + j, j: 0 });
+    }
+
     private execStackOperation(op: StackOperation) {
         switch (op.op) {
             case "xchg":
@@ -0,0 +1,96 @@
+import { assemble, AssemblerError } from '../src/assembler';
+import { registerCodePage } from '../src/disasm';
+import { printFiftCode } from '../src/backend/fift';
+import { fakeInsn } from './helpers/codePage';
+
+describe('assembler', () => {
+  const cont = [{ type: 'continuation' }];
+  registerCodePage(14, {
+    instructions: [
+      fakeInsn('NOP', '00', 'stack_basic'),
+      fakeInsn('XCHG_0I', '2', 'stack_basic', [{ name: 'i', type: 'uint', size: 4, display_hints: [{ type: 'stack' }] }]),
+      fakeInsn('XCHG_IJ', '10', 'stack_basic', [
+        { name: 'i', type: 'uint', size: 4, display_hints: [{ type: 'stack' }] },
+        { name: 'j', type: 'uint', size: 4, display_hints: [{ type: 'stack' }] },
+      ]),
+      fakeInsn('PUSHINT_4', '7', 'stack_basic', [{ name: 'x', type: 'uint', size: 4, display_hints: [{ type: 'pushint4' }] }]),
+      fakeInsn('PUSHINT_8', '80', 'stack_basic', [{ name: 'x', type: 'int', size: 8, display_hints: [] }]),
+      fakeInsn('PUSHREF', '88', 'stack_basic', [{ name: 'c', type: 'ref', display_hints: [] }]),
+      fakeInsn('PUSHREFCONT', '8A', 'stack_basic', [{ name: 'c', type: 'ref', display_hints: cont }]),
+      fakeInsn('PUSHSLICE', '8B', 'stack_basic', [{
+        name: 's', type: 'subslice', display_hints: [], bits_length_var_size: 4, bits_padding: 4, completion_tag: true,
+      }]),
+      fakeInsn('PUSHCONT', '9', 'stack_basic', [{
+        name: 's', type: 'subslice', display_hints: cont, refs_length_var_size: 2, bits_length_var_size: 4, bits_padding: 0, completion_tag: false,
+      }]),
+    ],
+    aliases: [{ mnemonic: 'SWAP', alias_of: 'XCHG_IJ', operands: { i: 0, j: 1 } }],
+  });
+
+  const asm = (src: string) => assemble(src, { codePage: 14 });
+  const hex = (src: string) => asm(src).bits.join('').match(/.{4}/g)!.map((b) => parseInt(b, 2).toString(16)).join('');
+
+  test('encodes prefixes, operands and display hints', () => {
+    expect(hex('NOP s1 s2 XCHG_IJ SWAP')).toBe('0010121001');
+    expect(hex('-2 PUSHINT_4 100 PUSHINT_8')).toBe('7e8064');
+  });
+
+  test('picks the first encoding of a family that accepts the operands', () => {
+    expect(hex('5 PUSHINT')).toBe('75');
+    expect(hex('-100 PUSHINT')).toBe('809c');
+    expect(() => asm('200 PUSHINT')).toThrow('cannot encode PUSHINT');
+  });
+
+  test('picks the family variant taking exactly the pending operands', () => {
+    expect(hex('s1 s2 XCHG')).toBe('1012');
+    expect(hex('s3 XCHG')).toBe('23');
+  });
+
+  test('round-trips continuations, slices and cell literals', () => {
+    const src = [
+      '<{ 1 PUSHINT <{ NOP }> PUSHREFCONT }> PUSHCONT',
+      'x{ABC_} PUSHSLICE',
+      '<b x{12} s, <b b> ref, b> PUSHREF',
+    ].join('\n');
+    const cell = asm(src);
+    const listing = printFiftCode(cell.slice(), { mnemonics: 'spec', codePage: 14 });
+    expect(listing).toBe([
+      '"Asm.fif" include',
+      '<{',
+      '  <{',
+      '    1 PUSHINT_4',
+      '    <{',
+      '      NOP',
+      '    }> PUSHREFCONT',
+      '  }> PUSHCONT',
+      '  x{ABC_} PUSHSLICE',
+      '  <b x{12} s, <b b> ref, b> PUSHREF',
+      '}>c',
+    ].join('\n'));
+    expect(asm(listing).hash()).toBe(cell.hash());
+  });
+
+  test('continues code that does not fit a cell in a ref', () => {
+    const cell = asm(new Array(200).fill('NOP').join('\n'));
+    expect(cell.bits.length).toBe(127 * 8);
+    expect(cell.refs.length).toBe(1);
+    expect(cell.refs[0].bits.length).toBe(73 * 8);
+  });
+
+  test('starts the next cell where the listing marks it', () => {
+    const cell = asm('NOP s1 s2 XCHG NEXTCELL <b b> PUSHREF NOP');
+    expect(cell.bits.length).toBe(24);
+    expect(cell.refs.map((r) => [r.bits.length, r.refs.length])).toEqual([[16, 1]]);
+    const listing = printFiftCode(cell.slice(), { mnemonics: 'spec', codePage: 14 });
+    expect(listing).toContain('  s1 s2 XCHG_IJ\n  NEXTCELL\n  <b b> PUSHREF\n');
+    expect(asm(listing).hash()).toBe(cell.hash());
+    expect(() => asm('1 NEXTCELL NOP')).toThrow('line 1: operand without instruction');
+  });
+
+  test('reports errors with line numbers', () => {
+    expect(() => asm('NOP\nFOO')).toThrow(AssemblerError);
+    expect(() => asm('NOP\nFOO')).toThrow('line 2: unknown instruction FOO');
+    expect(() => asm('1 NOP')).toThrow('line 1: operand without instruction');
+    expect(() => asm('<{ NOP')).toThrow('unterminated <{');
+  });
+});
@@ -0,0 +1,62 @@
+import { buildCallGraph, callGraphToDot } from '../src/analysis/callGraph';
+import type { IRFunction, IROpPrim } from '../src/core/ir';
+import { fakeInsn } from './helpers/codePage';
+
+function call(methodId: number): IROpPrim {
+  return {
+    kind: 'prim',
+    spec: fakeInsn('CALLDICT', '00', 'cont_dict'),
+    mnemonic: 'CALLDICT',
+    inputs: [],
+    operands: [{ name: 'n', value: { kind: 'int', value: methodId } }],
+    outputs: [],
+  };
+}
+
+function fn(body: IROpPrim[]): IRFunction {
+  return { kind: 'function', args: [], body, result: [] };
+}
+
+function withCont(inner: IRFunction): IROpPrim {
+  return {
+    kind: 'prim',
+    spec: fakeInsn('PUSHCONT', '00', 'cont_dict'),
+    mnemonic: 'PUSHCONT',
+    inputs: [],
+    operands: [{ name: 's', value: { kind: 'cont', value: inner } }],
+    outputs: [],
+  };
+}
+
+describe('call graph', () => {
+  const methods = new Map<number, IRFunction>([
+    [0, fn([call(1), withCont(fn([call(2)]))])],
+    [1, fn([call(1)])],
+    [2, fn([])],
+    [3, fn([call(2), call(2)])],
+    [85143, fn([])],
+  ]);
+  const g = buildCallGraph({ kind: 'multi', methods });
+  const node = (id: string) => g.nodes.find((n) => n.id === id);
+
+  test('collects calls from nested continuations', () => {
+    expect(g.edges).toContainEqual({ from: 'method_0', to: 'method_2', count: 1 });
+    expect(g.edges).toContainEqual({ from: 'method_3', to: 'method_2', count: 2 });
+  });
+
+  test('marks reachability from roots and recursion', () => {
+    expect(node('method_0')?.root).toBe(true);
+    expect(node('method_85143')?.root).toBe(true);
+    expect(node('method_2')?.reachable).toBe(true);
+    expect(node('method_3')?.reachable).toBe(false);
+    expect(node('method_1')?.recursive).toBe(true);
+    expect(node('method_0')?.recursive).toBe(false);
+  });
+
+  test('renders DOT', () => {
+    const dot = callGraphToDot(g);
+    expect(dot).toContain('"method_0" -> "method_1";');
+    expect(dot).toContain('"method_3" -> "method_2" [label="2"];');
+    expect(dot).toContain('"method_0" [label="recv_internal\\n(0)", shape=box];');
+  });
+});
@@ -0,0 +1,92 @@
+import { Builder } from 'ton3-core';
+import { registerCodePage } from '../src/disasm';
+import { liftSliceToIR } from '../src/frontend/lifter';
+import { buildOp } from '../src/frontend/lifter/stackEffects';
+import { Stack } from '../src/stackAnalysis';
+import { printIR } from '../src/backend/printer';
+import type { IRFunction } from '../src/core/ir';
+import { fakeInsn } from './helpers/codePage';
+
+describe('CALLDICT resolution', () => {
+  const n = { name: 'n', type: 'uint', size: 14, display_hints: [] };
+  const callDictSpec = () => fakeInsn('CALLDICT_LONG', 'F0', 'cont_dict', [n], [], [], { branches: [], nobranch: false });
+
+  test('uses callee arity as stack effect', () => {
+    const stack = new Stack([{ name: 'a' }, { name: 'b' }, { name: 'c' }]);
+    const op = buildOp(callDictSpec(), { n: 85143 }, stack, (id) => (id === 85143 ? { args: 2, results: 1 } : undefined));
+    expect(op?.callee).toEqual({ methodId: 85143 });
+    expect(op?.inputs.map((i) => i.value)).toEqual([{ id: 'b' }, { id: 'c' }]);
+    expect(op?.outputs.length).toBe(1);
+    expect(stack.copyEntries().map((v) => v.name)).toEqual(['a', op?.outputs[0].value.id]);
+  });
+
+  test('leaves unknown targets opaque', () => {
+    const stack = new Stack([{ name: 'a' }]);
+    const op = buildOp(callDictSpec(), { n: 7 }, stack, () => undefined);
+    expect(op?.callee).toBeUndefined();
+    expect(op?.inputs).toEqual([]);
+    expect(stack.copyEntries().map((v) => v.name)).toEqual(['a']);
+  });
+
+  test('prints resolved calls by method name', () => {
+    const fn: IRFunction = {
+      kind: 'function',
+      args: [{ id: 'arg1' }, { id: 'arg0' }],
+      body: [{
+        kind: 'prim',
+        spec: callDictSpec(),
+        mnemonic: 'CALLDICT_LONG',
+        inputs: [{ name: 'arg0', value: { id: 'arg1' } }, { name: 'arg1', value: { id: 'arg0' } }],
+        operands: [{ name: 'n', value: { kind: 'int', value: 85143 } }],
+        outputs: [{ name: 'ret0', value: { id: 'r' } }],
+        callee: { methodId: 85143 },
+      }],
+      result: [{ id: 'r' }],
+    };
+    expect(printIR(fn)).toContain('r = call seqno(arg1, arg0);');
+  });
+});
+
+describe('JMPDICT', () => {
+  const uint = (name: string, size: number) => ({ name, type: 'uint', size, display_hints: [] });
+  registerCodePage(25, {
+    instructions: [
+      fakeInsn('PUSHINT_4', '7', 'const_int', [uint('x', 4)], [], ['x']),
+      fakeInsn('ADD', 'A0', 'arithm_basic', [], ['x', 'y'], ['z']),
+      fakeInsn('JMPDICT', 'F1', 'cont_dict', [uint('n', 8)], [], [], { branches: [], nobranch: false }),
+      fakeInsn('PUSHCONT', '9', 'cont_create', [{
+        name: 's', type: 'subslice', display_hints: [{ type: 'continuation' }], refs_length_var_size: 2, bits_length_var_size: 4, bits_padding: 0, completion_tag: false,
+      }], [], ['c:Continuation']),
+    ],
+    aliases: [],
+  });
+  const lift = (code: string | Builder) => liftSliceToIR((typeof code === 'string' ? new Builder().storeBytes(Buffer.from(code, 'hex')) : code).cell().slice(), {
+    codePage: 25,
+    resolveCall: (id) => (id === 5 ? { args: 2, results: 1 } : undefined),
+  });
+  const anon = (text: string) => text.replace(/var\d+/g, 'v');
+
+  test('ends the body and returns what the callee returns', () => {
+    // 1 2 5 JMPDICT ADD: the ADD is never reached
+    const fn = lift('7172f105a0');
+    expect(fn.body.map((st) => st.mnemonic)).toEqual(['PUSHINT_4', 'PUSHINT_4', 'JMPDICT']);
+    expect(fn.result).toEqual([fn.body[2].outputs[0].value]);
+    expect(fn.tailSliceInfo).toBeDefined();
+    const text = anon(printIR(fn, undefined, true));
+    expect(text).toContain('    return method_5(v, v)\n');
+    expect(text).not.toContain('call method_5');
+    // Printed as a fragment (not a whole method) it stays a call
+    expect(anon(printIR(fn))).toContain('call method_5(v, v)');
+  });
+
+  test('returns values left below the arguments along with the callee results', () => {
+    expect(anon(printIR(lift('737172f105'), undefined, true))).toContain('    return v, method_5(v, v)\n');
+  });
+
+  test('calls from continuations, which the callee returns to', () => {
+    // <{ 1 2 5 JMPDICT }> PUSHCONT
+    const text = anon(printIR(lift(new Builder().storeUint(9, 4).storeUint(0, 2).storeUint(4, 4).storeBytes(Buffer.from('7172f105', 'hex'))), undefined, true));
+    expect(text).toContain('call method_5(v, v)');
+    expect(text).not.toContain('return method_5');
+  });
+});
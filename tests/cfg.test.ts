@@ -0,0 +1,60 @@
+import { Builder } from 'ton3-core';
+import { registerCodePage } from '../src/disasm';
+import { liftSliceToIR } from '../src/frontend/lifter';
+import { buildCFG, blockStatements, cfgToDot } from '../src/analysis/cfg';
+import { fakeInsn } from './helpers/codePage';
+
+describe('control-flow graph', () => {
+  const uint = (name: string, size: number) => ({ name, type: 'uint', size, display_hints: [] });
+  const call = (name: string) => ({ type: 'variable', var_name: name, save: { c0: { type: 'cc' } } });
+  registerCodePage(16, {
+    instructions: [
+      fakeInsn('PUSHINT_4', '7', 'const_int', [uint('x', 4)], [], ['x']),
+      fakeInsn('PUSHCONT', '9', 'cont_create', [{
+        name: 's', type: 'subslice', display_hints: [{ type: 'continuation' }], refs_length_var_size: 2, bits_length_var_size: 4, bits_padding: 0, completion_tag: false,
+      }], [], ['c']),
+      fakeInsn('IF', 'DE', 'cont_conditional', [], ['f', 'c'], [], { branches: [call('c')], nobranch: true }),
+      fakeInsn('IFELSE', 'E2', 'cont_conditional', [], ['f', 'c', 'c2'], [], { branches: [call('c'), call('c2')], nobranch: false }),
+      fakeInsn('IFRET', 'DC', 'cont_conditional', [], ['f'], [], { branches: [{ type: 'register', index: 0 }], nobranch: true }),
+      fakeInsn('THROWIF', 'F3', 'exceptions', [uint('n', 8)], ['f']),
+      fakeInsn('THROW', 'F4', 'exceptions', [uint('n', 8)], [], [], { branches: [], nobranch: false }),
+    ],
+    aliases: [],
+  });
+
+  // PUSHCONT { <hex> } as inline continuation bits
+  const cont = (b: Builder, hex: string) => b.storeUint(0b1001, 4).storeUint(0, 2).storeUint(hex.length / 2, 4).storeBytes(Buffer.from(hex, 'hex'));
+  const lift = (build: (b: Builder) => Builder) => liftSliceToIR(build(new Builder()).cell().slice(), { codePage: 16 });
+  const anon = (text: string) => text.replace(/var\d+/g, 'v');
+
+  test('splits blocks at branches and joins them after the statement', () => {
+    // PUSHINT 1; PUSHCONT { PUSHINT 2; THROWIF 5 }; IF; PUSHINT 3; IFRET; THROW 7
+    const fn = lift((b) => cont(b.storeUint(0x71, 8), '72f305').storeBytes(Buffer.from('de7371dcf407', 'hex')));
+    const g = buildCFG(fn, 'f');
+    const last = (lines: string[]) => anon(lines[lines.length - 1]);
+    expect(g.blocks.map((b) => last(blockStatements(b)))).toEqual(['entry', 'exit', 'IF (v)', 'IFRET (v)', 'throw_if(5, v);', 'throw', 'throw(7);']);
+    expect(anon(blockStatements(g.blocks[3]).join(' '))).toBe('v = 3; v = 1; IFRET (v)');
+    const edges = g.edges.map((e) => `${e.from}->${e.to} ${e.kind}${e.label ? ` ${e.label}` : ''}`).sort();
+    expect(edges).toEqual([
+      '0->2 next',
+      '2->3 next false',
+      '2->4 branch true',
+      '3->1 return true',
+      '3->6 next false',
+      '4->3 return false',
+      '4->5 throw true',
+      '6->5 throw',
+    ]);
+    expect(cfgToDot(g)).toContain('b4 -> b5 [label="true", color=red];');
+  });
+
+  test('takes exactly one of the IFELSE continuations', () => {
+    // PUSHINT 0; PUSHCONT { }; PUSHCONT { THROW 1 }; IFELSE
+    const fn = lift((b) => cont(cont(b.storeUint(0x70, 8), ''), 'f401').storeUint(0xe2, 8));
+    const g = buildCFG(fn, 'f');
+    const from = (id: number) => g.edges.filter((e) => e.from === id).map((e) => [g.blocks[e.to].kind, e.kind, e.label]);
+    const head = g.edges.find((e) => e.from === g.entry)!.to;
+    // The empty continuation is folded into an edge straight to the exit
+    expect(from(head)).toEqual([['exit', 'branch', 'true'], ['block', 'branch', 'false']]);
+  });
+});
@@ -0,0 +1,41 @@
+import { Builder } from 'ton3-core';
+import { codePageSwitch, OpcodeParser, registerCodePage, UnknownCodePageError } from '../src/disasm';
+import { liftSliceToIR } from '../src/frontend/lifter';
+import type { Schema } from '../src/gen/tvm-spec';
+import { fakeInsn } from './helpers/codePage';
+
+describe('code pages', () => {
+  const schema: Schema = {
+    instructions: [
+      fakeInsn('NOP', '00', 'codepage'),
+      fakeInsn('SETCP', 'FF', 'codepage', [{ name: 'n', type: 'uint', size: 8, display_hints: [] }]),
+    ],
+    aliases: [],
+  };
+  registerCodePage(5, schema);
+
+  test('decodes with the registered instruction table', () => {
+    const slice = new Builder().storeUint(0x00, 8).storeUint(0xff07, 16).cell().slice();
+    const [nop] = OpcodeParser.nextInstruction(slice, 5);
+    expect(nop.mnemonic).toBe('NOP');
+    const [setcp, operands] = OpcodeParser.nextInstruction(slice, 5);
+    expect(codePageSwitch(setcp, operands)).toBe(7);
+  });
+
+  test('reads the code page of SETCP_SPECIAL from its operand', () => {
+    const special = fakeInsn('SETCP_SPECIAL', 'FFF', 'codepage', [{ name: 'z', type: 'uint', size: 4, display_hints: [] }]);
+    expect(codePageSwitch(special, { z: 15 })).toBe(-1);
+  });
+
+  test('rejects unregistered code pages', () => {
+    const slice = new Builder().storeUint(0, 8).cell().slice();
+    expect(() => OpcodeParser.nextInstruction(slice, 9)).toThrow(UnknownCodePageError);
+  });
+
+  test('lifter stops at a switch to an unknown code page', () => {
+    const slice = new Builder().storeUint(0x00, 8).storeUint(0xff07, 16).storeUint(0x00, 8).cell().slice();
+    const fn = liftSliceToIR(slice, { codePage: 5 });
+    expect(fn.disassembleError).toContain('Unknown code page 7');
+    expect(fn.body.length + (fn.asmTail?.length ?? 0)).toBe(2);
+  });
+});
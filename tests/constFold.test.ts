@@ -0,0 +1,62 @@
+import { Builder } from 'ton3-core';
+import { registerCodePage } from '../src/disasm';
+import { liftSliceToIR } from '../src/frontend/lifter';
+import { printProgram } from '../src/backend/printer';
+import { defaultPipeline } from '../src/middle/pipeline';
+import { fakeInsn } from './helpers/codePage';
+
+describe('constant folding', () => {
+  const uint = (name: string, size: number, display_hints: any[] = []) => ({ name, type: 'uint', size, display_hints });
+  registerCodePage(20, {
+    instructions: [
+      fakeInsn('PUSHINT_4', '7', 'const_int', [uint('x', 4, [{ type: 'pushint4' }])], [], ['x']),
+      fakeInsn('PUSHINT_LONG', '82', 'const_int', [{ name: 'x', type: 'int', size: 16, display_hints: [] }], [], ['x']),
+      fakeInsn('PUSHPOW2', '83', 'const_int', [uint('x', 8, [{ type: 'add', value: 1 }])], [], ['x']),
+      fakeInsn('ADD', 'A0', 'arithm_basic', [], ['x', 'y'], ['z']),
+      fakeInsn('NEGATE', 'A3', 'arithm_basic', [], ['x'], ['y']),
+      fakeInsn('MUL', 'A8', 'arithm_basic', [], ['x', 'y'], ['z']),
+      fakeInsn('DIV', 'A904', 'arithm_div', [], ['x', 'y'], ['q']),
+      fakeInsn('MOD', 'A908', 'arithm_div', [], ['x', 'y'], ['r']),
+      fakeInsn('LSHIFT', 'AA', 'arithm_logical', [uint('c', 8, [{ type: 'add', value: 1 }])], ['x'], ['y']),
+      fakeInsn('GREATER', 'BC', 'compare_int', [], ['x', 'y'], ['z']),
+      fakeInsn('PICK', '60', 'stack_complex'),
+      fakeInsn('ROLLX', '61', 'stack_complex'),
+      fakeInsn('BLKSWX', '63', 'stack_complex'),
+    ],
+    aliases: [],
+  });
+
+  const lift = (hex: string) => liftSliceToIR(new Builder().storeBytes(Buffer.from(hex, 'hex')).cell().slice(), { codePage: 20 });
+  const print = (hex: string) => printProgram({ kind: 'single', entry: defaultPipeline().run(lift(hex)) }).replace(/var\d+/g, 'v');
+
+  test('folds arithmetic with 257-bit semantics', () => {
+    // (5 + 3) << 2
+    expect(print('7573a0aa01')).toBe('function () {\n    v = 32;\n    return v\n}');
+    // -1, 1 > 5 and division rounding to -infinity
+    expect(print('71a3')).toContain('v = -1;');
+    expect(print('7175bc')).toContain('v = 0;');
+    expect(print('82fff972a904')).toContain('v = -4;');
+    expect(print('82fff972a908')).toContain('v = 1;');
+    // 2^255 * 4 overflows at run time and is left alone
+    expect(print('83fe74a8')).toContain('v = (1 << 255) * 4;');
+    // Division by zero too
+    expect(print('7170a904')).toContain('/');
+  });
+
+  test('resolves dynamic stack operations on constant indexes', () => {
+    // 7 8 1 PICK ADD: the index is a constant, so PICK copies s1; the unused index push is dead code
+    const pick = lift('777871' + '60' + 'a0');
+    expect(pick.decompileError).toBeNull();
+    expect(print('777871' + '60' + 'a0')).toBe('function () {\n    v = 7;\n    v = 15;\n    return v, v\n}');
+    // The index may itself be computed: (1 + 1) ROLLX moves s2 to the top
+    const roll = lift('7171a0' + '61');
+    expect(roll.decompileError).toBeNull();
+    const [a, b, c] = roll.args.map((v) => v.id);
+    expect(roll.result.map((r) => r.id)).toEqual([b, c, a]);
+    // 1 1 BLKSWX swaps the top two entries
+    const swap = lift('7171' + '63');
+    expect(swap.result.map((r) => r.id)).toEqual(swap.args.map((v) => v.id).reverse());
+    // Indexes that are not constants stay unsupported
+    expect(String(lift('60').decompileError)).toContain("Dynamic stack operation 'PICK'");
+  });
+});
@@ -0,0 +1,84 @@
+import { eliminateCommonSubexpressions } from '../src/opt/cse';
+import { IRFunction, IRInputArg, IROpPrim } from '../src/core/ir';
+import { collectExitCodes } from '../src/analysis/exitCodes';
+import { fakeInsn } from './helpers/codePage';
+
+let nextId = 0;
+
+// Instruction with one output (none when `out` is null) over refs (strings) or inlined ops
+function op(mnemonic: string, category: string, inputs: Array<string | IROpPrim> = [], out: string | null = `t${nextId++}`): IROpPrim {
+  return {
+    kind: 'prim',
+    spec: fakeInsn(mnemonic, '00', category),
+    mnemonic,
+    inputs: inputs.map((v, i) => ({ name: `i${i}`, value: (typeof v === 'string' ? { id: v } : { kind: 'inline', op: v }) as IRInputArg })),
+    operands: [],
+    outputs: out === null ? [] : [{ name: 'x', value: { id: out } }],
+  };
+}
+
+const fn = (body: IROpPrim[], result: string[] = []): IRFunction => ({ kind: 'function', args: [{ id: 'a' }, { id: 'b' }], body, result: result.map((id) => ({ id })) });
+
+// Statements as `out = MNEMONIC(inputs)` with inlined ops nested and refs as ids
+const show = (f: IRFunction) => {
+  const expr = (st: IROpPrim): string => `${st.mnemonic}(${st.inputs.map(({ value }) => (value as any).kind === 'inline' ? expr((value as any).op) : (value as any).id).join(', ')})`;
+  return f.body.map((st) => `${st.outputs.map((o) => o.value.id).join(', ') || '_'} = ${expr(st)}`);
+};
+
+describe('common subexpression elimination', () => {
+  const data = () => op('CTOS', 'cell_parse', [op('PUSHCTR', 'cont_registers')]);
+
+  test('binds repeated trees to the value of the first occurrence', () => {
+    const first = data();
+    const out = eliminateCommonSubexpressions(fn([
+      op('SBITS', 'cell_parse', [first], 'x'),
+      op('SREFS', 'cell_parse', [data()], 'y'),
+      op('ADD', 'arithm_basic', [op('MUL', 'arithm_basic', ['a', 'b']), op('MUL', 'arithm_basic', ['a', 'b'])], 'z'),
+    ], ['x', 'y', 'z']));
+    const d = first.outputs[0].value.id;
+    expect(show(out)).toEqual([
+      `${d} = CTOS(PUSHCTR())`,
+      `x = SBITS(${d})`,
+      `y = SREFS(${d})`,
+      expect.stringMatching(/^(t\d+) = MUL\(a, b\)$/),
+      expect.stringMatching(/^z = ADD\((t\d+), \1\)$/),
+    ]);
+  });
+
+  test('does not share trees across writes or trees with side effects', () => {
+    const out = eliminateCommonSubexpressions(fn([
+      op('SBITS', 'cell_parse', [data()], 'x'),
+      op('SENDRAWMSG', 'app_actions', ['x'], null),
+      op('SBITS', 'cell_parse', [data()], 'y'),
+      op('INC', 'arithm_basic', [op('RAND', 'app_rnd', ['a'])], 'u'),
+      op('INC', 'arithm_basic', [op('RAND', 'app_rnd', ['a'])], 'v'),
+    ], ['y', 'u', 'v']));
+    expect(show(out)).toEqual([
+      'x = SBITS(CTOS(PUSHCTR()))',
+      '_ = SENDRAWMSG(x)',
+      'y = SBITS(CTOS(PUSHCTR()))',
+      'u = INC(RAND(a))',
+      'v = INC(RAND(a))',
+    ]);
+  });
+
+  test('keeps conditions used only by throws inline, so the exit codes show them', () => {
+    // throw_if(33, 1 > 5); throw_unless(34, 1 > 5)
+    const int = (value: number) => ({ ...op('PUSHINT_4', 'const_int'), operands: [{ name: 'x', value: { kind: 'int' as const, value } }] });
+    const greater = () => {
+      const g = op('GREATER', 'compare_int', [int(1), int(5)]);
+      return { ...g, inputs: g.inputs.map((input, i) => ({ ...input, name: ['x', 'y'][i] })) };
+    };
+    const thrown = (mnemonic: string, code: number): IROpPrim => ({
+      ...op(mnemonic, 'exceptions', [greater()], null),
+      inputs: [{ name: 'f', value: { kind: 'inline', op: greater() } as IRInputArg }],
+      operands: [{ name: 'n', value: { kind: 'int', value: code } }],
+    });
+    const out = eliminateCommonSubexpressions(fn([thrown('THROWIF', 33), thrown('THROWIFNOT', 34)]));
+    expect(out.body).toHaveLength(2);
+    expect(collectExitCodes({ kind: 'single', entry: out }).map((u) => [u.code, u.condition])).toEqual([
+      [33, '1 > 5'],
+      [34, '!(1 > 5)'],
+    ]);
+  });
+});
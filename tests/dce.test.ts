@@ -0,0 +1,65 @@
+import { eliminateDeadCode } from '../src/opt/dce';
+import { effectOf } from '../src/opt/effects';
+import { IRFunction, IROpPrim, IRValueRef } from '../src/core/ir';
+import { fakeInsn } from './helpers/codePage';
+
+function op(mnemonic: string, category: string, outputs: string[], inputs: string[] = []): IROpPrim {
+  return {
+    kind: 'prim',
+    spec: fakeInsn(mnemonic, '00', category),
+    mnemonic,
+    inputs: inputs.map((id, i) => ({ name: `i${i}`, value: { id } as IRValueRef })),
+    operands: [],
+    outputs: outputs.map((id, i) => ({ name: `o${i}`, value: { id } })),
+  };
+}
+
+const fn = (body: IROpPrim[], result: string[] = []): IRFunction => ({ kind: 'function', args: [], body, result: result.map((id) => ({ id })) });
+const mnemonics = (f: IRFunction) => f.body.map((st) => st.mnemonic);
+
+describe('dead code elimination', () => {
+  test('classifies effects by category with overrides', () => {
+    expect(effectOf(fakeInsn('PUSHINT_4', '00', 'const_int'))).toBe('pure');
+    expect(effectOf(fakeInsn('NOW', '00', 'app_config'))).toBe('reads');
+    expect(effectOf(fakeInsn('SENDRAWMSG', '00', 'app_actions'))).toBe('writes');
+    expect(effectOf(fakeInsn('ADD', '00', 'arithm_basic'))).toBe('throws');
+    expect(effectOf(fakeInsn('DICTGET', '00', 'dict_get'))).toBe('throws');
+    expect(effectOf(fakeInsn('CALLDICT', '00', 'cont_dict'))).toBe('control');
+    expect(effectOf(fakeInsn('FAKE', '00', 'misc', [], [], [], { branches: [{ type: 'cc' }], nobranch: false }))).toBe('control');
+    expect(effectOf(fakeInsn('NEWC', '00', 'cell_build'))).toBe('pure');
+    expect(effectOf(fakeInsn('SETGLOB', '00', 'app_global'))).toBe('writes');
+    expect(effectOf(fakeInsn('UNKNOWN', '00', 'misc'))).toBe('writes');
+  });
+
+  test('removes unused pure and reading producers, chains included', () => {
+    const out = eliminateDeadCode(fn([
+      op('PUSHINT_4', 'const_int', ['a']),
+      op('NEWC', 'cell_build', ['b']),
+      op('ENDC', 'cell_build', ['c'], ['b']),
+      op('NOW', 'app_config', ['t']),
+      op('PUSHINT_4', 'const_int', ['r']),
+    ], ['r']));
+    expect(mnemonics(out)).toEqual(['PUSHINT_4']);
+    expect(out.body[0].outputs[0].value.id).toBe('r');
+  });
+
+  test('keeps side effects, possible exceptions and control flow with their inputs', () => {
+    const out = eliminateDeadCode(fn([
+      op('PUSHINT_4', 'const_int', ['a']),
+      op('PUSHINT_4', 'const_int', ['b']),
+      op('ADD', 'arithm_basic', ['c'], ['a', 'b']),
+      op('NEWC', 'cell_build', ['m']),
+      op('SENDRAWMSG', 'app_actions', [], ['m']),
+      op('CALLDICT', 'cont_dict', ['x']),
+    ]));
+    expect(mnemonics(out)).toEqual(['PUSHINT_4', 'PUSHINT_4', 'ADD', 'NEWC', 'SENDRAWMSG', 'CALLDICT']);
+  });
+
+  test('keeps statements without outputs', () => {
+    const out = eliminateDeadCode(fn([
+      op('PUSHINT_4', 'const_int', ['n']),
+      op('CHKDEPTH', 'stack_complex', [], ['n']),
+    ]));
+    expect(mnemonics(out)).toEqual(['PUSHINT_4', 'CHKDEPTH']);
+  });
+});
@@ -0,0 +1,52 @@
+import { Builder } from 'ton3-core';
+import { OpcodeParser, registerCodePage } from '../src/disasm';
+import type { Instruction } from '../src/gen/tvm-spec';
+import { fakeInsn } from './helpers/codePage';
+
+describe('prefix trie decoder', () => {
+  const i4 = (name: string) => ({ name, type: 'uint', size: 4, display_hints: [] });
+  const ranged = (insn: Instruction, check: { length: number; from: number; to: number }): Instruction =>
+    ({ ...insn, bytecode: { ...insn.bytecode, operands_range_check: check } });
+  registerCodePage(11, {
+    instructions: [
+      fakeInsn('NOP', '00', 'stack_basic'),
+      ranged(fakeInsn('XCHG_0I', '0', 'stack_basic', [i4('i')]), { length: 4, from: 1, to: 15 }),
+      fakeInsn('PUSH', '2', 'stack_basic', [i4('i')]),
+      // shares prefix 'A' and is told apart only by the operand range
+      ranged(fakeInsn('SMALL', 'A', 'stack_basic', [i4('x')]), { length: 4, from: 0, to: 7 }),
+      ranged(fakeInsn('LARGE', 'A', 'stack_basic', [i4('x')]), { length: 4, from: 8, to: 15 }),
+      fakeInsn('LONG', 'FE12', 'stack_basic'),
+    ],
+    aliases: [],
+  });
+
+  const decodeAll = (hex: string) => {
+    const slice = new Builder().storeBytes(Buffer.from(hex, 'hex')).cell().slice();
+    const out: string[] = [];
+    while (slice.bits.length > 0) {
+      const [spec, operands] = OpcodeParser.nextInstruction(slice, 11);
+      out.push([spec.mnemonic, ...Object.values(operands)].join(' '));
+    }
+    return out;
+  };
+
+  test('prefers the shortest prefix whose range check passes', () => {
+    expect(decodeAll('00' + '05' + '23')).toEqual(['NOP', 'XCHG_0I 5', 'PUSH 3']);
+  });
+
+  test('selects range-checked variants sharing a prefix', () => {
+    expect(decodeAll('A3AC')).toEqual(['SMALL 3', 'LARGE 12']);
+  });
+
+  test('decodes long prefixes', () => {
+    expect(decodeAll('FE1200')).toEqual(['LONG', 'NOP']);
+  });
+
+  test('reports unknown prefixes', () => {
+    expect(() => decodeAll('FF')).toThrow('prefix load error');
+  });
+
+  test('lookup window covers prefix and range check', () => {
+    expect(OpcodeParser.lookupWindow(11)).toBe(16);
+  });
+});
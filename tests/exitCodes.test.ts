@@ -0,0 +1,54 @@
+import { Builder } from 'ton3-core';
+import { registerCodePage } from '../src/disasm';
+import { liftSliceToIR } from '../src/frontend/lifter';
+import { printProgram } from '../src/backend/printer';
+import { DEFAULT_PASSES, pipelineFromPasses } from '../src/middle/pipeline';
+import { collectExitCodes, formatExitCodes } from '../src/analysis/exitCodes';
+import { ExitCodeNameListError, parseExitCodeNameList, registerExitCodeNames } from '../src/core/exitCodes';
+import type { Program } from '../src/core/program';
+import { fakeInsn } from './helpers/codePage';
+
+describe('exit codes', () => {
+  const uint = (name: string, size: number) => ({ name, type: 'uint', size, display_hints: [] });
+  registerCodePage(19, {
+    instructions: [
+      fakeInsn('PUSHINT_4', '7', 'const_int', [uint('x', 4)], [], ['x']),
+      fakeInsn('GREATER', 'BC', 'compare_int', [], ['x', 'y'], ['z']),
+      fakeInsn('THROWIF', 'F4', 'exceptions', [uint('n', 8)], ['f']),
+      fakeInsn('THROWIFNOT', 'F5', 'exceptions', [uint('n', 8)], ['f']),
+      fakeInsn('THROW', 'F6', 'exceptions', [uint('n', 8)]),
+      fakeInsn('THROWANY', 'F7', 'exceptions', [], ['n']),
+    ],
+    aliases: [],
+  });
+
+  // throw_if(33, 1 > 5); throw_unless(34, 1 > 5); throw(10); throw(33)
+  // Without const-fold, which would turn `1 > 5` into 0 when cp0 has PUSHINT_LONG
+  const pipeline = pipelineFromPasses(DEFAULT_PASSES.filter((name) => name !== 'const-fold'));
+  const program = (): Program => {
+    const code = new Builder().storeBytes(Buffer.from('7175bcf4217175bcf5227af7f621', 'hex')).cell().slice();
+    return { kind: 'single', entry: pipeline.run(liftSliceToIR(code, { codePage: 19 })) };
+  };
+
+  test('lists codes with conditions in code order', () => {
+    const uses = collectExitCodes(program());
+    expect(uses.map(({ code, mnemonic, condition }) => [code, mnemonic, condition])).toEqual([
+      [10, 'THROWANY', null],
+      [33, 'THROWIF', '1 > 5'],
+      [33, 'THROW', null],
+      [34, 'THROWIFNOT', '!(1 > 5)'],
+    ]);
+    expect(uses[1]).toMatchObject({ function: 'main', methodId: null, location: { bitOffset: 24, bitLength: 16 } });
+    expect(formatExitCodes(uses).split('\n')[2]).toMatch(/^33    -     main      THROWIF      1 > 5      @[0-9a-f]{8}:24\+16$/);
+  });
+
+  test('names codes in the catalogue and in printed throws', () => {
+    expect(() => parseExitCodeNameList('33 not valid')).toThrow(ExitCodeNameListError);
+    registerExitCodeNames(parseExitCodeNameList('# errors\n33 error_too_big\n0x22 = error_not_big\n'));
+    const p = program();
+    expect(collectExitCodes(p).map((u) => u.name)).toEqual([null, 'error_too_big', 'error_too_big', 'error_not_big']);
+    const text = printProgram(p);
+    expect(text).toContain('throw_if(error_too_big, 1 > 5);');
+    expect(text).toContain('throw_unless(error_not_big, 1 > 5);');
+  });
+});
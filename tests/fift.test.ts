@@ -0,0 +1,79 @@
+import { Builder } from 'ton3-core';
+import { registerCodePage } from '../src/disasm';
+import { listingErrors, printFiftCode, printFiftProgram } from '../src/backend/fift';
+import type { Instruction } from '../src/gen/tvm-spec';
+import { fakeInsn } from './helpers/codePage';
+
+describe('Fift listing backend', () => {
+  const stack = (name: string) => ({ name, type: 'uint', size: 4, display_hints: [{ type: 'stack' }] });
+  // Instruction with the Asm.fif words of its `doc.fift`
+  const insn = (mnemonic: string, prefix: string, fift: string, operands: any[] = []): Instruction => {
+    const spec = fakeInsn(mnemonic, prefix, 'stack_basic', operands);
+    return { ...spec, doc: { ...spec.doc, fift } };
+  };
+  registerCodePage(15, {
+    instructions: [
+      insn('NOP', 'FF', 'NOP'),
+      insn('XCHG_0I', '0', 's[i] XCHG0', [stack('i')]),
+      insn('XCHG_IJ', '10', 's[i] s[j] XCHG', [stack('i'), stack('j')]),
+      insn('PUSHINT_4', '7', '[x] PUSHINT\n[x] INT', [{ name: 'x', type: 'uint', size: 4, display_hints: [{ type: 'pushint4' }] }]),
+      insn('CALLDICT', 'F0', '[n] CALL\n[n] CALLDICT', [{ name: 'n', type: 'uint', size: 8, display_hints: [] }]),
+      insn('PUSHREFCONT', '8A', '[c] PUSHREFCONT', [{ name: 'c', type: 'ref', display_hints: [{ type: 'continuation' }] }]),
+    ],
+    aliases: [],
+  });
+
+  const code = (hex: string, ...refs: string[]) => {
+    const b = new Builder().storeBytes(Buffer.from(hex, 'hex'));
+    for (const r of refs) b.storeRef(new Builder().storeBytes(Buffer.from(r, 'hex')).cell());
+    return b.cell().slice();
+  };
+
+  test('renders Asm.fif words with display hints', () => {
+    expect(printFiftCode(code('0310127e8a', 'ff'), { codePage: 15 })).toBe([
+      '"Asm.fif" include',
+      '<{',
+      '  s3 XCHG0',
+      '  s1 s2 XCHG',
+      '  -2 PUSHINT',
+      '  <{',
+      '    NOP',
+      '  }> PUSHREFCONT',
+      '}>c',
+    ].join('\n'));
+  });
+
+  test('spec mnemonics keep operands before the mnemonic', () => {
+    expect(printFiftCode(code('1012'), { codePage: 15, mnemonics: 'spec' })).toContain('  s1 s2 XCHG_IJ\n');
+  });
+
+  test('reports code that cannot be decoded', () => {
+    expect(listingErrors(printFiftCode(code('1012'), { codePage: 15 }))).toEqual([]);
+    const listing = printFiftCode(code('ff', 'ffee'), { codePage: 15 });
+    expect(listing).toContain('  NOP\n  NOP\n  // disassemble error: ');
+    expect(listingErrors(listing)).toHaveLength(1);
+  });
+
+  test('prints method dictionaries as PROGRAM blocks', () => {
+    const methods = new Map([[0, code('f001')], [1, code('ff')], [85143, code('72')]]);
+    const out = printFiftProgram({ layout: 'func', methods, entry: null, codePage: 15, origins: { methods: new Map(), entry: null } });
+    expect(out).toBe([
+      '"Asm.fif" include',
+      '// method dictionary layout: func',
+      'PROGRAM{',
+      '  0 DECLPROC recv_internal',
+      '  1 DECLPROC method_1',
+      '  85143 DECLMETHOD seqno',
+      '  recv_internal PROC:<{',
+      '    method_1 CALLDICT',
+      '  }>',
+      '  method_1 PROC:<{',
+      '    NOP',
+      '  }>',
+      '  seqno PROC:<{',
+      '    2 PUSHINT',
+      '  }>',
+      '}END>c',
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,117 @@
+import { Builder } from 'ton3-core';
+import { registerCodePage } from '../src/disasm';
+import { liftSliceToIR } from '../src/frontend/lifter';
+import { printFuncProgram } from '../src/backend/func';
+import { defaultPipeline } from '../src/middle/pipeline';
+import type { IRFunction } from '../src/core/ir';
+import type { Program } from '../src/core/program';
+import { fakeInsn } from './helpers/codePage';
+
+describe('FunC backend', () => {
+  const uint = (name: string, size: number) => ({ name, type: 'uint', size, display_hints: [] });
+  const bits = (name: string) => ({ ...uint(name, 8), display_hints: [{ type: 'add', value: 1 }] });
+  const call = (name: string) => ({ type: 'variable', var_name: name, save: { c0: { type: 'cc' } } });
+  // Quiet lookup in the style of LDUQ: `k 0` when it fails, `x k -1` otherwise
+  const lookupq = fakeInsn('LOOKUPQ', 'F5', 'dict_get', [uint('n', 8)], ['k']);
+  const simple = (name: string) => ({ type: 'simple', name, value_types: ['Integer'] });
+  (lookupq.value_flow as any).outputs.stack = [
+    { type: 'conditional', name: 'f', match: [{ value: 0, stack: [simple('k')] }, { value: -1, stack: [simple('x'), simple('k')] }] },
+    simple('f'),
+  ];
+  registerCodePage(23, {
+    instructions: [
+      fakeInsn('PUSHINT_4', '7', 'const_int', [uint('x', 4)], [], ['x']),
+      fakeInsn('ADD', 'A0', 'arithm_basic', [], ['x', 'y'], ['z']),
+      fakeInsn('MUL', 'A8', 'arithm_basic', [], ['x', 'y'], ['z']),
+      fakeInsn('INC', 'A4', 'arithm_basic', [], ['x'], ['y']),
+      fakeInsn('NEWC', 'C8', 'cell_build', [], [], ['b:Builder']),
+      fakeInsn('ENDC', 'C9', 'cell_build', [], ['b:Builder'], ['c:Cell']),
+      fakeInsn('STU', 'CB', 'cell_build', [bits('c')], ['x', 'b:Builder'], ['b:Builder']),
+      fakeInsn('CTOS', 'D0', 'cell_parse', [], ['c:Cell'], ['s:Slice']),
+      fakeInsn('LDU', 'D3', 'cell_parse', [bits('c')], ['s:Slice'], ['x', 's2:Slice']),
+      lookupq,
+      fakeInsn('PUSHCONT', '9', 'const_data', [{
+        name: 's', type: 'subslice', display_hints: [{ type: 'continuation' }], refs_length_var_size: 2, bits_length_var_size: 4, bits_padding: 0, completion_tag: false,
+      }], [], ['c:Continuation']),
+      fakeInsn('IF', 'DE', 'cont_conditional', [], ['f', 'c:Continuation'], [], { branches: [call('c')], nobranch: true }),
+      fakeInsn('IFELSE', 'E2', 'cont_conditional', [], ['f', 'c:Continuation', 'c2:Continuation'], [], { branches: [call('c'), call('c2')], nobranch: false }),
+      fakeInsn('REPEAT', 'E4', 'cont_loops', [], ['n', 'c:Continuation'], [], {
+        branches: [{ type: 'variable', var_name: 'c', save: { c0: { type: 'special', name: 'repeat', args: { count: 'n', body: { type: 'variable', var_name: 'c' }, after: { type: 'cc' } } } } }],
+        nobranch: false,
+      }),
+      fakeInsn('THROWIFNOT', 'F2', 'exceptions', [uint('n', 8)], ['f']),
+      fakeInsn('CALLDICT', 'F0', 'cont_dict', [uint('n', 8)], [], [], { branches: [], nobranch: false }),
+    ],
+    aliases: [],
+  });
+
+  // PUSHCONT { <hex> } as inline continuation bits
+  const pushcont = (hex: string) => (b: Builder) => b.storeUint(0b1001, 4).storeUint(0, 2).storeUint(hex.length / 2, 4).storeBytes(Buffer.from(hex, 'hex'));
+  const code = (...parts: Array<string | ((b: Builder) => Builder)>) => {
+    const b = new Builder();
+    for (const p of parts) typeof p === 'string' ? b.storeBytes(Buffer.from(p, 'hex')) : p(b);
+    return b.cell().slice();
+  };
+  // Method 1 takes a cell and returns a slice
+  const lift = (...parts: Array<string | ((b: Builder) => Builder)>): IRFunction => defaultPipeline().run(liftSliceToIR(code(...parts), {
+    codePage: 23,
+    resolveCall: (id) => id === 1 ? { args: 1, results: 1 } : undefined,
+  }));
+  const print = (p: Program) => printFuncProgram(p).replace(/var\d+/g, 'v');
+
+  test('builtins and operators print as FunC, other instructions through asm functions', () => {
+    // return begin_cell().store_uint(x * 5 + 1, 8).end_cell().begin_parse()
+    const fn = lift('75', 'a8', 'a4', 'c8', 'cb07', 'c9', 'd0');
+    expect(print({ kind: 'single', entry: fn })).toBe([
+      'builder begin_cell() asm "NEWC";',
+      'cell end_cell(builder b) asm "ENDC";',
+      'slice begin_parse(cell c) impure asm "CTOS";',
+      '',
+      'slice recv_internal(int arg0) impure;',
+      '',
+      'slice recv_internal(int arg0) impure {',
+      '    slice v = begin_cell().store_uint(arg0 * 5 + 1, 8).end_cell().begin_parse();',
+      '    return v;',
+      '}',
+      '',
+    ].join('\n'));
+  });
+
+  test('loads return the rest of the slice first', () => {
+    // (s, x) = load_uint(s, 8); return (x, s)
+    const text = print({ kind: 'single', entry: lift('d307') });
+    expect(text).toContain('    (slice v, int v) = load_uint(arg0, 8);');
+    expect(text).toContain('(int, slice) recv_internal(slice arg0) impure;');
+  });
+
+  test('conditional outputs are padded to one tensor and merged on their flag', () => {
+    // (x, k, f) = lookupq(k); if (f) { k = x + k }
+    const fn = lift('f507', pushcont('a0'), 'de');
+    expect(fn.decompileError).toBeNull();
+    const text = print({ kind: 'single', entry: fn });
+    expect(text).toContain('(int, int, int) tvm_lookupq_7(int k) impure asm "7 LOOKUPQ NULLROTRIFNOT";');
+    expect(text).toContain('forall X -> X null() asm "NULL";');
+    expect(text.split('\n').slice(6, 15)).toEqual([
+      '    (int v, int v, int v) = tvm_lookupq_7(arg0);',
+      '    int v = null();',
+      '    if (v) {',
+      '        int v = v + v;',
+      '        v = v;',
+      '    } else {',
+      '        v = v;',
+      '    }',
+      '    return v;',
+    ]);
+  });
+
+  test('loops keep their variables and methods call each other by name', () => {
+    // repeat (n) { x += 1 } return method_1(x)
+    const callee = lift('a4');
+    const main = lift(pushcont('a4'), 'e4', 'f001');
+    const p: Program = { kind: 'multi', methods: new Map([[1, callee], [5, main]]) };
+    const text = print(p);
+    expect(text).toContain('int method_1(int arg0) impure method_id(1);');
+    expect(text).toContain('    repeat (arg0) {\n');
+    expect(text).toContain('method_1(');
+  });
+});
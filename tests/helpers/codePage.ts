@@ -0,0 +1,30 @@
+import type { Instruction } from '../../src/gen/tvm-spec';
+
+/**
+ * Fake tvm-spec instruction for code pages registered by tests.
+ * - Provides only fields used by the code under test; cast to Instruction.
+ * - Stack entries are `name:Type` (Integer when the type is left out).
+ */
+export function fakeInsn(
+  mnemonic: string,
+  prefix: string,
+  category: string,
+  operands: any[] = [],
+  inputs: string[] = [],
+  outputs: string[] = [],
+  controlFlow: any = { branches: [], nobranch: true },
+): Instruction {
+  const simple = (entry: string) => {
+    const [name, type = 'Integer'] = entry.split(':');
+    return { type: 'simple', name, value_types: [type] };
+  };
+  const spec: any = {
+    mnemonic,
+    since_version: 0,
+    doc: { category, description: '', gas: '', fift: '', fift_examples: [] },
+    bytecode: { tlb: '', prefix, operands },
+    value_flow: { inputs: { stack: inputs.map(simple), registers: [] }, outputs: { stack: outputs.map(simple), registers: [] } },
+    control_flow: controlFlow,
+  };
+  return spec as Instruction;
+}
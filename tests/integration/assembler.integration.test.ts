@@ -0,0 +1,25 @@
+import fs from 'fs';
+import path from 'path';
+import { Builder, Slice } from 'ton3-core';
+import { assemble } from '../../src/assembler';
+import { detectMethodDictLayout } from '../../src/frontend/layouts';
+import { loadContractFile } from '../../src/frontend/loader';
+import { printFiftCode } from '../../src/backend/fift';
+
+const dir = path.join(__dirname, '../../test_contracts');
+const contracts = fs.readdirSync(dir).filter((f) => f.endsWith('.boc'));
+
+const cellHash = (s: Slice) => new Builder().storeSlice(s).cell().hash();
+
+describe('assemble(disassemble(x)) == x over test_contracts', () => {
+  test.each(contracts)('%s', (name) => {
+    const { code } = loadContractFile(path.join(dir, name));
+    expect(assemble(printFiftCode(code, { mnemonics: 'spec' })).hash()).toBe(cellHash(code));
+
+    const layout = detectMethodDictLayout(code);
+    layout?.methods.forEach((body, id) => {
+      const listing = printFiftCode(body, { mnemonics: 'spec', codePage: layout.codePage });
+      expect([id, assemble(listing, { codePage: layout.codePage }).hash()]).toEqual([id, cellHash(body)]);
+    });
+  });
+});
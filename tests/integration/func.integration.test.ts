@@ -1,5 +1,12 @@
 import { Decompiler } from '../../src/decompiler';
 import { compileFuncToSlice } from '../helpers/func';
+import type { Program } from '../../src/core/program';
+
+// The TRY statement of a decompiled program
+const tryOf = (p: Program) => {
+  const fns = p.kind === 'multi' ? [...p.methods.values()] : [p.entry];
+  return fns.flatMap((fn) => fn.body).find((st) => st.mnemonic === 'TRY');
+};
 
 describe('Func → Decompiler → Pseudocode snapshot', () => {
   test('simple arithmetic', async () => {
@@ -56,4 +63,54 @@ describe('Func → Decompiler → Pseudocode snapshot', () => {
     const d = new Decompiler();
     expect(d.format(d.decompileSlice(code))).toMatchSnapshot();
   });
+
+  test('try/catch', async () => {
+    const code = await compileFuncToSlice(`
+      int safe_div(int a, int b) method_id {
+        int r = 0;
+        try {
+          r = a / b;
+        } catch (_, n) {
+          r = - n;
+        }
+        return r;
+      }
+    `);
+
+    const d = new Decompiler();
+    const program = d.decompileSlice(code);
+    // The body reads a, b and r; the handler starts from the exception alone
+    const st = tryOf(program);
+    expect(st?.inputs.map((i) => i.name)).toEqual(['c2', 'c', 'try_0', 'try_1', 'try_2']);
+    expect(st?.outputs).toHaveLength(1);
+    const text = d.format(program);
+    expect(text).toContain('try {');
+    expect(text).toMatch(/\} catch \(_, (\w+)\) \{\n\s+(\w+) = -\1;/);
+    expect(text).not.toContain('decompile error');
+  });
+
+  test('try/catch with rethrow', async () => {
+    const code = await compileFuncToSlice(`
+      int checked(int x) method_id {
+        try {
+          throw_if(77, x > 10);
+          x += 1;
+        } catch (arg, n) {
+          throw_arg(arg, n);
+        }
+        return x;
+      }
+    `);
+
+    const d = new Decompiler();
+    const program = d.decompileSlice(code);
+    // x is saved in the handler's stack (1 -1 SETCONTVARARGS) and left as the result
+    const st = tryOf(program);
+    expect(st?.inputs.map((i) => i.name)).toEqual(['c2', 'c', 'try_0', 'catch_0']);
+    expect(st?.inputs.find((i) => i.name === 'catch_0')?.value).toMatchObject({ id: 'arg0' });
+    expect(st?.outputs).toHaveLength(1);
+    const text = d.format(program);
+    expect(text).toMatch(/\} catch \((\w+), (\w+)\) \{\n\s+throw_arg\(\1, \2\);/);
+    expect(text).not.toContain('decompile error');
+  });
 });
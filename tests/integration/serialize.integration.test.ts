@@ -0,0 +1,21 @@
+import fs from 'fs';
+import path from 'path';
+import { Decompiler } from '../../src/decompiler';
+import { loadContractFile } from '../../src/frontend/loader';
+import { dumpProgram } from '../../src/backend/irDump';
+import { programFromJSON, programToJSON } from '../../src/core/serialize';
+
+const dir = path.join(__dirname, '../../test_contracts');
+const contracts = fs.readdirSync(dir).filter((f) => f.endsWith('.boc'));
+
+describe('IR JSON round trip over test_contracts', () => {
+  test.each(contracts)('%s', (name) => {
+    const d = new Decompiler();
+    const program = d.decompileContract(loadContractFile(path.join(dir, name)));
+    const json = programToJSON(program);
+    const loaded = programFromJSON(json);
+    expect(programToJSON(loaded)).toBe(json);
+    expect(dumpProgram(loaded, { locations: true })).toBe(dumpProgram(program, { locations: true }));
+    expect(d.format(loaded)).toBe(d.format(program));
+  });
+});
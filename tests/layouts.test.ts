@@ -0,0 +1,108 @@
+import { Bit, Builder, Cell, Hashmap, Slice } from 'ton3-core';
+import { registerCodePage } from '../src/disasm';
+import { detectMethodDictLayout, registerLayoutDetector } from '../src/frontend/layouts';
+import { fakeInsn } from './helpers/codePage';
+
+describe('method dictionary layout registry', () => {
+  const marker = new Builder().storeUint(0xdeadbeef, 32).cell();
+  const body = new Builder().storeUint(0x8a, 8).cell().slice();
+
+  registerLayoutDetector({
+    name: 'custom',
+    detect: (root: Slice) => {
+      if (root.bits.length !== marker.bits.length || root.bits.some((b, i) => b !== marker.bits[i])) return null;
+      return { layout: 'custom', methods: new Map([[7, body]]), entry: null, codePage: 0, origins: { methods: new Map(), entry: null } };
+    },
+  });
+
+  test('user detectors are consulted and report their layout', () => {
+    const res = detectMethodDictLayout(marker.slice());
+    expect(res?.layout).toBe('custom');
+    expect([...(res?.methods.keys() ?? [])]).toEqual([7]);
+    expect(res?.entry).toBeNull();
+  });
+
+  test('unknown roots produce no layout', () => {
+    const other = new Builder().storeUint(1, 8).cell().slice();
+    expect(detectMethodDictLayout(other)).toBeNull();
+  });
+});
+
+describe('builtin method dictionary layouts', () => {
+  const uint = (name: string, size: number) => ({ name, type: 'uint', size, display_hints: [] });
+  const ref = (name: string) => ({ name, type: 'ref', display_hints: [] });
+  // Root scanning always starts in code page 0, so the fake table stands in for cp0 in this file
+  registerCodePage(0, {
+    instructions: [
+      fakeInsn('DUP', '20', 'stack_basic'),
+      fakeInsn('DROP', '30', 'stack_basic'),
+      fakeInsn('PUSHINT_4', '7', 'const_int', [uint('x', 4)]),
+      fakeInsn('PUSHCONT', '9', 'cont_basic', [{
+        name: 's', type: 'subslice', display_hints: [], refs_length_var_size: 2, bits_length_var_size: 4, bits_padding: 0, completion_tag: false,
+      }]),
+      fakeInsn('EQINT', 'C0', 'compare_int', [{ name: 'y', type: 'int', size: 8, display_hints: [] }]),
+      fakeInsn('IFJMP', 'E0', 'cont_conditional'),
+      fakeInsn('IFNOTJMPREF', 'E301', 'cont_conditional', [ref('c')]),
+      fakeInsn('THROWARG', 'F2', 'exceptions', [uint('n', 8)]),
+      fakeInsn('DICTPUSHCONST', 'F4A4', 'dict_special', [uint('n', 10), ref('d')]),
+      fakeInsn('DICTUGETJMP', 'F4A6', 'dict_special'),
+      fakeInsn('DICTIGETJMPZ', 'F4BC', 'dict_special'),
+      fakeInsn('SETCP', 'FF', 'codepage', [uint('n', 8)]),
+    ],
+    aliases: [],
+  });
+
+  const bytes = (hex: string) => new Builder().storeBytes(Buffer.from(hex, 'hex'));
+  const hexOf = (s: Slice) => Buffer.from(new Builder().storeSlice(s).cell().bits.join('').match(/.{8}/g)!.map((b) => parseInt(b, 2))).toString('hex');
+  const dict = (n: number, signed: boolean, methods: Array<[number, string]>) => {
+    const d = new Hashmap<Bit[], Cell>(n);
+    for (const [id, hex] of methods) d.set((signed ? new Builder().storeInt(id, n) : new Builder().storeUint(id, n)).cell().bits, bytes(hex).cell());
+    return d.cell();
+  };
+  // `prologue` followed by DICTPUSHCONST of `d` (`n`-bit keys) and `lookup` (hex code)
+  const root = (prologue: Builder, n: number, d: Cell, lookup: string) =>
+    prologue.storeBytes(Buffer.from('f4a4', 'hex')).storeUint(n, 10).storeRef(d).storeBytes(Buffer.from(lookup, 'hex')).cell().slice();
+
+  test('func-prologue keeps code before the lookup as entry', () => {
+    const res = detectMethodDictLayout(root(bytes('ff0075'), 19, dict(19, true, [[0, '71'], [-1, '72']]), 'f4bcf20b'));
+    expect(res?.layout).toBe('func-prologue');
+    expect([...res!.methods.keys()].sort((a, b) => a - b)).toEqual([-1, 0]);
+    expect(hexOf(res!.methods.get(-1)!)).toBe('72');
+    expect(hexOf(res!.entry!)).toBe('75');
+    expect(res?.origins.entry?.bitOffset).toBe(16);
+  });
+
+  test('inline-dispatch takes id checks as methods and keeps the rest as entry', () => {
+    const recvInternal = bytes('3071').cell();
+    // DUP IFNOTJMPREF:<{ DROP 1 }>  DUP -1 EQINT <{ DROP 2 }> PUSHCONT IFJMP  5
+    const prologue = bytes('ff0020e301').storeRef(recvInternal).storeBytes(Buffer.from('20c0ff', 'hex'))
+      .storeUint(9, 4).storeUint(0, 2).storeUint(2, 4).storeBytes(Buffer.from('3072', 'hex')).storeBytes(Buffer.from('e075', 'hex'));
+    const res = detectMethodDictLayout(root(prologue, 19, dict(19, true, [[85143, '73']]), 'f4bcf20b'));
+    expect(res?.layout).toBe('inline-dispatch');
+    expect([...res!.methods].map(([id, body]) => [id, hexOf(body)])).toEqual([[85143, '73'], [0, '71'], [-1, '72']]);
+    expect(hexOf(res!.entry!)).toBe('75');
+    expect(res?.origins.methods.get(0)).toEqual({ cellHash: recvInternal.hash(), bitOffset: 8 });
+    // past SETCP, DUP, IFNOTJMPREF, DUP, EQINT, the PUSHCONT header and the DROP
+    expect(res?.origins.methods.get(-1)?.bitOffset).toBe(16 + 8 + 16 + 8 + 16 + 10 + 8);
+  });
+
+  test('fift reads unsigned keys and locates bodies in the dictionary cells', () => {
+    const d = dict(8, false, [[1, '71'], [200, '7273'], [201, '74']]);
+    const res = detectMethodDictLayout(root(new Builder(), 8, d, 'f4a6'));
+    expect(res?.layout).toBe('fift');
+    expect(res?.entry).toBeNull();
+    const cells = new Map<string, Cell>();
+    const collect = (c: Cell) => { cells.set(c.hash(), c); c.refs.forEach(collect); };
+    collect(d);
+    expect([...res!.methods.keys()].sort((a, b) => a - b)).toEqual([1, 200, 201]);
+    for (const [id, body] of res!.methods) {
+      const origin = res!.origins.methods.get(id)!;
+      expect(cells.get(origin.cellHash)?.bits.slice(origin.bitOffset)).toEqual(body.bits);
+    }
+    expect(hexOf(res!.methods.get(200)!)).toBe('7273');
+  });
+
+  test('no lookup means no layout', () => {
+    expect(detectMethodDictLayout(bytes('ff007172').cell().slice())).toBeNull();
+  });
+});
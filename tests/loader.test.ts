@@ -0,0 +1,87 @@
+import { BOC, Builder, Cell } from 'ton3-core';
+import { decodeBocString, detectBocStringFormat, loadContractFromCell, loadContractFromString } from '../src/frontend/loader';
+
+function codeCell(): Cell {
+  // SETCP0; ACCEPT: plain code, neither StateInit nor Account layout
+  return new Builder().storeUint(0xff00f80f, 32).cell();
+}
+
+function dataCell(): Cell {
+  return new Builder().storeUint(42, 32).cell();
+}
+
+function stateInit(code: Cell, data: Cell | null): Builder {
+  return new Builder()
+    .storeBit(0) // split_depth
+    .storeBit(0) // special
+    .storeMaybeRef(code)
+    .storeMaybeRef(data)
+    .storeBit(0); // library
+}
+
+describe('loadContractFromCell', () => {
+  test('treats unknown root as raw code', () => {
+    const code = codeCell();
+    const res = loadContractFromCell(code);
+    expect(res.kind).toBe('code');
+    expect(res.code.bits.length).toBe(32);
+    expect(res.data).toBeNull();
+  });
+
+  test('extracts code and data from StateInit', () => {
+    const code = codeCell();
+    const data = dataCell();
+    const res = loadContractFromCell(stateInit(code, data).cell());
+    expect(res.kind).toBe('state_init');
+    expect(res.code.bits).toEqual(code.bits);
+    expect(res.data?.eq(data)).toBe(true);
+    expect(res.libraries).toBeNull();
+  });
+
+  test('extracts code and data from Account', () => {
+    const code = codeCell();
+    const data = dataCell();
+    const account = new Builder()
+      .storeBit(1) // account$1
+      .storeBits([1, 0, 0]).storeInt(0, 8).storeUint(0, 256) // addr_std, no anycast
+      .storeUint(1, 3).storeUint(5, 8) // used.cells
+      .storeUint(1, 3).storeUint(200, 8) // used.bits
+      .storeUint(0, 3) // storage_extra_none
+      .storeUint(0, 32) // last_paid
+      .storeBit(0) // due_payment
+      .storeUint(0, 64) // last_trans_lt
+      .storeUint(1, 4).storeUint(100, 8) // balance.grams
+      .storeBit(0) // balance.other
+      .storeBit(1) // account_active
+      .storeSlice(stateInit(code, data).cell().slice())
+      .cell();
+    const res = loadContractFromCell(account);
+    expect(res.kind).toBe('account');
+    expect(res.code.bits).toEqual(code.bits);
+    expect(res.data?.eq(data)).toBe(true);
+  });
+});
+
+describe('BOC string input', () => {
+  const boc = new BOC([codeCell()]);
+  const hex = boc.toString('hex');
+  const base64 = boc.toString('base64');
+
+  test('detects hex and base64', () => {
+    expect(detectBocStringFormat(hex)).toBe('hex');
+    expect(detectBocStringFormat(base64)).toBe('base64');
+  });
+
+  test('decodes both formats to the same bytes', () => {
+    const bytes = boc.toBytes();
+    expect(decodeBocString(hex, 'auto')).toEqual(bytes);
+    expect(decodeBocString(base64, 'auto')).toEqual(bytes);
+    expect(decodeBocString(base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, ''), 'base64')).toEqual(bytes);
+  });
+
+  test('loads contract code from string', () => {
+    const res = loadContractFromString(base64, 'auto');
+    expect(res.kind).toBe('code');
+    expect(res.code.bits).toEqual(codeCell().bits);
+  });
+});
@@ -0,0 +1,96 @@
+import { Builder } from 'ton3-core';
+import { registerCodePage } from '../src/disasm';
+import { liftSliceToIR } from '../src/frontend/lifter';
+import { printProgram } from '../src/backend/printer';
+import { defaultPipeline } from '../src/middle/pipeline';
+import { buildCFG } from '../src/analysis/cfg';
+import { fakeInsn } from './helpers/codePage';
+
+describe('loops', () => {
+  const uint = (name: string, size: number) => ({ name, type: 'uint', size, display_hints: [] });
+  const cont = (name: string) => ({ type: 'variable', var_name: name });
+  const loop = (name: string, args: any) => ({ branches: [{ type: 'special', name, args }], nobranch: false });
+  registerCodePage(17, {
+    instructions: [
+      fakeInsn('PUSHINT_4', '7', 'const_int', [uint('x', 4)], [], ['x']),
+      fakeInsn('PUSH', '2', 'stack_basic', [uint('i', 4)]),
+      fakeInsn('ADD', 'A0', 'arithm_basic', [], ['x', 'y'], ['z']),
+      fakeInsn('GREATER', 'BC', 'compare_int', [], ['x', 'y'], ['z']),
+      fakeInsn('PUSHCONT', '9', 'const_data', [{
+        name: 's', type: 'subslice', display_hints: [{ type: 'continuation' }], refs_length_var_size: 2, bits_length_var_size: 4, bits_padding: 0, completion_tag: false,
+      }], [], ['c']),
+      // tvm-spec style: branch into the body with the loop saved as its return continuation
+      fakeInsn('REPEAT', 'E4', 'cont_loops', [], ['n', 'c'], [], {
+        branches: [{ ...cont('c'), save: { c0: { type: 'special', name: 'repeat', args: { count: 'n', body: cont('c'), after: { type: 'cc' } } } } }],
+        nobranch: true,
+      }),
+      fakeInsn('REPEATEND', 'E5', 'cont_loops', [], ['n'], [], loop('repeat', { count: 'n', body: { type: 'cc' }, after: { type: 'register', index: 0 } })),
+      fakeInsn('UNTIL', 'E6', 'cont_loops', [], ['c'], [], loop('until', { body: cont('c'), after: { type: 'cc' } })),
+      fakeInsn('WHILE', 'E8', 'cont_loops', [], ['c2', 'c'], [], loop('while', { cond: cont('c2'), body: cont('c'), after: { type: 'cc' } })),
+      fakeInsn('AGAIN', 'EA', 'cont_loops', [], ['c'], [], loop('again', { body: cont('c') })),
+    ],
+    aliases: [],
+  });
+
+  // PUSHCONT { <hex> } as inline continuation bits
+  const pushcont = (hex: string) => (b: Builder) => b.storeUint(0b1001, 4).storeUint(0, 2).storeUint(hex.length / 2, 4).storeBytes(Buffer.from(hex, 'hex'));
+  const code = (...parts: Array<string | ((b: Builder) => Builder)>) => {
+    const b = new Builder();
+    for (const p of parts) typeof p === 'string' ? b.storeBytes(Buffer.from(p, 'hex')) : p(b);
+    return b.cell().slice();
+  };
+  const print = (fn: ReturnType<typeof liftSliceToIR>) => printProgram({ kind: 'single', entry: defaultPipeline().run(fn) }).replace(/var\d+/g, 'v');
+  const lift = (...parts: Array<string | ((b: Builder) => Builder)>) => liftSliceToIR(code(...parts), { codePage: 17 });
+
+  test('repeat threads loop variables through the body', () => {
+    // x = 0; repeat (3) { x += 2 }
+    const fn = lift('7073', pushcont('72a0'), 'e4');
+    expect(fn.decompileError).toBeNull();
+    expect(fn.body[fn.body.length - 1].inputs.map((i) => i.name)).toEqual(['c', 'n', 'loop_0']);
+    expect(fn.result).toHaveLength(1);
+    expect(print(fn)).toBe([
+      'function () {',
+      '    v = 0;',
+      '    repeat (3) {',
+      '        v = v + 2;',
+      '    }',
+      '    return v',
+      '}',
+    ].join('\n'));
+  });
+
+  test('until takes the condition from the top of the body results', () => {
+    // x = 0; do { x += 1 } until (x > 5)
+    const fn = lift('70', pushcont('71a02075bc'), 'e6');
+    expect(print(fn)).toBe([
+      'function () {',
+      '    v = 0;',
+      '    do {',
+      '        v = v + 1;',
+      '    } until (v > 5);',
+      '    return v',
+      '}',
+    ].join('\n'));
+  });
+
+  test('while with a plain condition and endless again', () => {
+    // x = 0; while (x > 5) { x += 1 }
+    const w = lift('70', pushcont('2075bc'), pushcont('71a0'), 'e8');
+    expect(w.decompileError).toBeNull();
+    expect(print(w)).toContain('    while (v > 5) {\n        v = v + 1;\n    }');
+    // again { x += 1 }
+    expect(print(lift('70', pushcont('71a0'), 'ea'))).toContain('    while (true) {\n        v = v + 1;\n    }');
+  });
+
+  test('loops over the rest of the code and rejects unbalanced bodies', () => {
+    // repeat (3) { x += 2 } as REPEATEND over the remaining instructions
+    const fn = lift('7073e572a0');
+    expect(fn.decompileError).toBeNull();
+    expect(print(fn)).toContain('    repeat (3) {\n        v = v + 2;\n    }');
+    const g = buildCFG(fn);
+    expect(g.edges.filter((e) => e.kind === 'back')).toHaveLength(1);
+
+    // The body pushes one value per iteration
+    expect(lift('73', pushcont('71'), 'e4').decompileError).toContain('REPEAT takes 0 values and leaves 1');
+  });
+});
@@ -0,0 +1,30 @@
+import { methodIdFromName, methodNameFromId, parseMethodNameList, registerMethodNames } from '../src/core/methodNames';
+import { methodDisplayName } from '../src/backend/printer';
+
+describe('method naming service', () => {
+  test('computes get-method ids from names', () => {
+    expect(methodIdFromName('seqno')).toBe(85143);
+    expect(methodIdFromName('get_public_key')).toBe(78748);
+    expect(methodIdFromName('recv_internal')).toBe(0);
+  });
+
+  test('knows bundled names', () => {
+    expect(methodNameFromId(85143)).toBe('seqno');
+    expect(methodNameFromId(-1)).toBe('recv_external');
+    expect(methodDisplayName(methodIdFromName('get_jetton_data'))).toBe('get_jetton_data');
+  });
+
+  test('accepts user word lists', () => {
+    const id = methodIdFromName('get_my_custom_counter');
+    expect(methodDisplayName(id)).toBe(`method_${id}`);
+    registerMethodNames(parseMethodNameList('# custom names\nget_my_custom_counter\n\n'));
+    expect(methodDisplayName(id)).toBe('get_my_custom_counter');
+  });
+
+  test('user names replace bundled ones on collision', () => {
+    // `get_aafk` has the same CRC-16 as `seqno`
+    expect(methodIdFromName('get_aafk')).toBe(methodIdFromName('seqno'));
+    registerMethodNames(['get_aafk']);
+    expect(methodNameFromId(85143)).toBe('get_aafk');
+  });
+});
@@ -0,0 +1,77 @@
+import { Bit, Builder, Cell, Hashmap } from 'ton3-core';
+import { registerCodePage } from '../src/disasm';
+import { Decompiler } from '../src/decompiler';
+import { collectLiftErrors } from '../src/analysis/diagnostics';
+import { formatMethodSummaries, summarizeMethods } from '../src/analysis/methods';
+import { buildContractInfo } from '../src/analysis/info';
+import { filterProgram, programFunctions } from '../src/analysis/walk';
+import { dumpProgram } from '../src/backend/irDump';
+import { fakeInsn } from './helpers/codePage';
+
+describe('method summaries and lift errors', () => {
+  const uint = (name: string, size: number) => ({ name, type: 'uint', size, display_hints: [] });
+  // Root scanning always starts in code page 0, so the fake table stands in for cp0 in this file
+  registerCodePage(0, {
+    instructions: [
+      fakeInsn('PUSHINT_4', '7', 'const_int', [uint('x', 4)], [], ['x']),
+      fakeInsn('ADD', 'A0', 'arithm_basic', [], ['x', 'y'], ['z']),
+      fakeInsn('CALLDICT', 'F0', 'cont_dict', [uint('n', 8)]),
+      fakeInsn('SETCP', 'FF', 'codepage', [uint('n', 8)]),
+      fakeInsn('DICTPUSHCONST', 'F4A4', 'dict_special', [uint('n', 10), { name: 'd', type: 'ref', display_hints: [] }], [], ['D', 'n']),
+      fakeInsn('DICTIGETJMPZ', 'F4BC', 'dict_special', [], ['i', 'D', 'n']),
+      fakeInsn('THROWARG', 'F2', 'exceptions', [uint('n', 8)], ['x']),
+    ],
+    aliases: [],
+  });
+
+  const cell = (hex: string) => new Builder().storeBytes(Buffer.from(hex, 'hex')).cell();
+  const contract = () => {
+    const dict = new Hashmap<Bit[], Cell>(19);
+    // recv_internal calls method 1; seqno ends in bytes no instruction starts with
+    for (const [id, hex] of [[0, 'f001'], [1, '7172a0'], [85143, '71ee']] as Array<[number, string]>) {
+      dict.set(new Builder().storeInt(id, 19).cell().bits, cell(hex));
+    }
+    const root = new Builder().storeBytes(Buffer.from('ff00f4a4', 'hex')).storeUint(19, 10)
+      .storeRef(dict.cell()).storeBytes(Buffer.from('f4bcf20b', 'hex')).cell();
+    return { kind: 'code' as const, code: root.slice(), data: null, libraries: null };
+  };
+
+  test('summarizes arity, size, callees and status per method', () => {
+    const program = new Decompiler().decompileContract(contract());
+    expect(summarizeMethods(program).map(({ name, args, results, calls, errors }) => ({ name, args, results, calls, errors }))).toEqual([
+      { name: 'recv_internal', args: 0, results: 1, calls: ['method_1'], errors: [] },
+      { name: 'method_1', args: 0, results: 1, calls: [], errors: [] },
+      { name: 'seqno', args: 0, results: 1, calls: [], errors: ['disassemble'] },
+    ]);
+    expect(formatMethodSummaries(summarizeMethods(program)).split('\n')[3]).toBe('85143  seqno          0     1        1      disassemble error');
+  });
+
+  test('collects errors and restricts programs to selected methods', () => {
+    const program = new Decompiler().decompileContract(contract());
+    expect(collectLiftErrors(program).map((e) => [e.function, e.kind])).toEqual([['seqno', 'disassemble']]);
+    const only = filterProgram(program, (f) => f.methodId === 1);
+    expect(programFunctions(only).map((f) => f.name)).toEqual(['method_1']);
+    expect(collectLiftErrors(only)).toEqual([]);
+  });
+
+  test('dumps IR without pretty printers, with or without passes', () => {
+    const only = (d: Decompiler) => filterProgram(d.decompileContract(contract()), (f) => f.methodId === 1);
+    const anon = (text: string) => text.replace(/var\d+/g, 'v');
+    expect(anon(dumpProgram(only(new Decompiler({ passes: [] }))))).toBe([
+      'method_1 (1) {',
+      '  v = PUSHINT_4(x=1)',
+      '  v = PUSHINT_4(x=2)',
+      '  v = ADD(y=v, x=v)',
+      '  return v',
+      '}',
+    ].join('\n'));
+    expect(anon(dumpProgram(only(new Decompiler())))).toContain('v = ADD(y=PUSHINT_4(x=2), x=PUSHINT_4(x=1))');
+  });
+
+  test('reports contract info', () => {
+    const c = contract();
+    const info = buildContractInfo(c, new Decompiler().decompileContract(c));
+    expect(info).toMatchObject({ root: 'code', layout: 'func', methods: 3, entry: false, minVersion: 0, versionComplete: false, liftErrors: 1 });
+    expect(info.codeCells).toBeGreaterThan(3);
+  });
+});
@@ -0,0 +1,124 @@
+import { Builder } from 'ton3-core';
+import { registerCodePage } from '../src/disasm';
+import { liftSliceToIR } from '../src/frontend/lifter';
+import { printProgram } from '../src/backend/printer';
+import { dumpIR } from '../src/backend/irDump';
+import { defaultPipeline } from '../src/middle/pipeline';
+import { deserializeFunction, serializeFunction } from '../src/core/serialize';
+import type { Instruction } from '../src/gen/tvm-spec';
+import { fakeInsn } from './helpers/codePage';
+
+describe('phi nodes at conditional merges', () => {
+  const uint = (name: string, size: number) => ({ name, type: 'uint', size, display_hints: [] });
+  const call = (name: string) => ({ type: 'variable', var_name: name, save: { c0: { type: 'cc' } } });
+  // tvm-spec style conditional outputs selected by flag `f` pushed above them:
+  // LOOKUP gives `x -1` or `0`, LOADQ gives `x s -1` or `s 0`
+  const conditional = (spec: Instruction, zero: string[], nonzero: string[]) => {
+    const simple = (name: string) => ({ type: 'simple', name, value_types: ['Integer'] });
+    (spec.value_flow as any).outputs.stack = [
+      { type: 'conditional', name: 'f', match: [{ value: 0, stack: zero.map(simple) }, { value: -1, stack: nonzero.map(simple) }] },
+      simple('f'),
+    ];
+    return spec;
+  };
+  registerCodePage(21, {
+    instructions: [
+      fakeInsn('PUSHINT_4', '7', 'const_int', [uint('x', 4)], [], ['x']),
+      fakeInsn('ADD', 'A0', 'arithm_basic', [], ['x', 'y'], ['z']),
+      fakeInsn('INC', 'A4', 'arithm_basic', [], ['x'], ['y']),
+      fakeInsn('PUSHCONT', '9', 'const_data', [{
+        name: 's', type: 'subslice', display_hints: [{ type: 'continuation' }], refs_length_var_size: 2, bits_length_var_size: 4, bits_padding: 0, completion_tag: false,
+      }], [], ['c']),
+      fakeInsn('IF', 'DE', 'cont_conditional', [], ['f', 'c'], [], { branches: [call('c')], nobranch: true }),
+      fakeInsn('IFELSE', 'E2', 'cont_conditional', [], ['f', 'c', 'c2'], [], { branches: [call('c'), call('c2')], nobranch: false }),
+      fakeInsn('THROWIFNOT', 'F2', 'exceptions', [uint('n', 8)], ['f']),
+      conditional(fakeInsn('LOOKUP', 'F4', 'dict_get', [], ['k']), [], ['x']),
+      conditional(fakeInsn('LOADQ', 'F5', 'cell_parse', [], ['s']), ['s'], ['x', 's']),
+    ],
+    aliases: [],
+  });
+
+  // PUSHCONT { <hex> } as inline continuation bits
+  const pushcont = (hex: string) => (b: Builder) => b.storeUint(0b1001, 4).storeUint(0, 2).storeUint(hex.length / 2, 4).storeBytes(Buffer.from(hex, 'hex'));
+  const code = (...parts: Array<string | ((b: Builder) => Builder)>) => {
+    const b = new Builder();
+    for (const p of parts) typeof p === 'string' ? b.storeBytes(Buffer.from(p, 'hex')) : p(b);
+    return b.cell().slice();
+  };
+  const print = (fn: ReturnType<typeof liftSliceToIR>) => printProgram({ kind: 'single', entry: defaultPipeline().run(fn) }).replace(/var\d+/g, 'v');
+  const lift = (...parts: Array<string | ((b: Builder) => Builder)>) => liftSliceToIR(code(...parts), { codePage: 21 });
+
+  test('if without else keeps the value it would change on the other path', () => {
+    // if (f) { x += 1 }
+    const fn = lift(pushcont('a4'), 'de');
+    expect(fn.decompileError).toBeNull();
+    const st = fn.body[fn.body.length - 1];
+    expect(st.phis).toEqual([{ output: st.outputs[0].value.id, sources: [{ path: 'c', result: 0 }, { path: 'skip', input: 'c_arg0' }] }]);
+    expect(print(fn)).toBe([
+      'function (arg1, arg0) {',
+      '    if (arg0) {',
+      '        v = arg1 + 1;',
+      '    } else {',
+      '        v = arg1;',
+      '    }',
+      '    return v',
+      '}',
+    ].join('\n'));
+  });
+
+  test('branches on the flag of conditional outputs merge their arms', () => {
+    // (x, f) = lookup(k); v = f ? x + 1 : 5
+    const fn = lift('f4', pushcont('a4'), pushcont('75'), 'e2');
+    expect(fn.decompileError).toBeNull();
+    expect(fn.body[0].outputs.map((o) => o.name)).toEqual(['x', 'f']);
+    expect(dumpIR(fn, 'f').replace(/var\d+/g, 'v')).toContain('  v = phi(c: result 0, c2: result 0)');
+    expect(print(fn)).toBe([
+      'function (arg0) {',
+      '    v, v = LOOKUP(k=arg0);',
+      '    if (v) {',
+      '        v = v + 1;',
+      '    } else {',
+      '        v = 5;',
+      '    }',
+      '    return v',
+      '}',
+    ].join('\n'));
+  });
+
+  test('a skipped continuation merges the values of the other arm', () => {
+    // (x, s, f) = loadq(s); if (f) { s = x + s } with s kept when loading failed
+    const fn = lift('f5', pushcont('a0'), 'de');
+    expect(fn.decompileError).toBeNull();
+    const load = fn.body[0];
+    const [x, s, s0] = ['x', 's', 's0'].map((name) => load.outputs.find((o) => o.name === name)!.value.id);
+    const st = fn.body[fn.body.length - 1];
+    expect(st.inputs.find((i) => i.name === 'phi_0')?.value).toEqual({ id: s0 });
+    expect(st.phis![0].sources).toEqual([{ path: 'c', result: 0 }, { path: 'skip', input: 'phi_0' }]);
+    expect(print(fn).split('\n').slice(2, 7)).toEqual([
+      '    if (v) {',
+      '        v = v + v;',
+      '    } else {',
+      '        v = v;',
+      '    }',
+    ]);
+    expect(fn.result).toEqual([{ id: st.outputs[0].value.id }]);
+    expect(st.inputs.filter((i) => i.name.startsWith('c_')).map((i) => (i.value as any).id)).toEqual([s, x]);
+
+    const loaded = deserializeFunction(serializeFunction(fn));
+    expect(loaded.body[loaded.body.length - 1].phis).toEqual(st.phis);
+  });
+
+  test('a throw on the flag keeps the arm that goes on', () => {
+    // (x, f) = lookup(k); throw_unless(5, f); return x + 1
+    const fn = lift('f4', 'f205', 'a4');
+    expect(fn.decompileError).toBeNull();
+    const x = fn.body[0].outputs.find((o) => o.name === 'x')!.value.id;
+    expect(fn.body[fn.body.length - 1].inputs[0].value).toEqual({ id: x, types: ['Integer'], continuationMeta: undefined });
+  });
+
+  test('arms the flag does not tell apart stay unresolved', () => {
+    // lookup(k) followed by x + f without a branch on the flag
+    const fn = lift('f4', 'a0');
+    expect(String(fn.decompileError)).toContain('GuardUnresolvedError');
+  });
+});
@@ -1,4 +1,4 @@
-import { defaultPipeline } from '../src/middle/pipeline';
+import { defaultPipeline, pipelineFromPasses, registerPass, UnknownPassError } from '../src/middle/pipeline';
 import { IRFunction, IROpPrim, IRValueDef, IRValueRef } from '../src/core/ir';
 import type { Instruction } from '../src/gen/tvm-spec';
 
@@ -98,3 +98,24 @@ describe('defaultPipeline snapshot', () => {
     expect(out).toMatchSnapshot();
   });
 });
+
+describe('named passes', () => {
+  const fn = (): IRFunction => ({
+    kind: 'function',
+    args: [],
+    body: [op('PUSHCONST', { v: { id: 'v' } }, {}, 'const_int'), op('USE', { y: { id: 'y' } }, { a: { id: 'v' } })],
+    result: [{ id: 'y' }],
+  });
+
+  test('an empty pass list leaves lifted IR unchanged', () => {
+    expect(pipelineFromPasses([]).run(fn()).body.map((st) => st.mnemonic)).toEqual(['PUSHCONST', 'USE']);
+    expect(pipelineFromPasses(['inline-consts']).run(fn()).body.map((st) => st.mnemonic)).toEqual(['USE']);
+  });
+
+  test('registered passes are selectable by name, unknown names are rejected', () => {
+    registerPass('drop-all', (f) => ({ ...f, body: [] }));
+    expect(pipelineFromPasses(['drop-all']).run(fn()).body).toEqual([]);
+    expect(() => pipelineFromPasses(['inline-consts', 'nope'])).toThrow(UnknownPassError);
+    expect(() => pipelineFromPasses(['nope'])).toThrow(/known passes: const-fold, dce, inline-consts, inline-single-use, cse, drop-all/);
+  });
+});
@@ -0,0 +1,94 @@
+import { Bit, Builder, Cell, Hashmap } from 'ton3-core';
+import { registerCodePage } from '../src/disasm';
+import { Decompiler } from '../src/decompiler';
+import { liftSliceToIR } from '../src/frontend/lifter';
+import { printProgram } from '../src/backend/printer';
+import { dumpProgram } from '../src/backend/irDump';
+import {
+  deserializeFunction, IRFormatError, IR_JSON_VERSION, programFromJSON, programToJSON, serializeFunction, serializeProgram,
+} from '../src/core/serialize';
+import { fakeInsn } from './helpers/codePage';
+
+describe('IR JSON serialization', () => {
+  const uint = (name: string, size: number) => ({ name, type: 'uint', size, display_hints: [] });
+  // Root scanning always starts in code page 0, so the fake table stands in for cp0 in this file
+  registerCodePage(0, {
+    instructions: [
+      fakeInsn('PUSHINT_4', '7', 'const_int', [uint('x', 4)], [], ['x']),
+      fakeInsn('PUSHINT_LONG', '82', 'const_int', [{ name: 'x', type: 'pushint_long', display_hints: [] }], [], ['x']),
+      fakeInsn('ADD', 'A0', 'arithm_basic', [], ['x', 'y'], ['z']),
+      fakeInsn('PUSHCONT', '9', 'cont_create', [{
+        name: 's', type: 'subslice', display_hints: [{ type: 'continuation' }], refs_length_var_size: 2, bits_length_var_size: 4, bits_padding: 0, completion_tag: false,
+      }], [], ['c']),
+      fakeInsn('PUSHREF', '88', 'cell_const', [{ name: 'c', type: 'ref', display_hints: [] }], [], ['c']),
+      fakeInsn('EXECUTE', 'D8', 'cont_basic', [], ['c']),
+      fakeInsn('CALLDICT', 'F0', 'cont_dict', [uint('n', 8)]),
+      fakeInsn('SETCP', 'FF', 'codepage', [uint('n', 8)]),
+      fakeInsn('DICTPUSHCONST', 'F4A4', 'dict_special', [uint('n', 10), { name: 'd', type: 'ref', display_hints: [] }], [], ['D', 'n']),
+      fakeInsn('DICTIGETJMPZ', 'F4BC', 'dict_special', [], ['i', 'D', 'n']),
+      fakeInsn('THROWARG', 'F2', 'exceptions', [uint('n', 8)], ['x']),
+    ],
+    aliases: [],
+  });
+
+  const cell = (hex: string, ...refs: Cell[]) => new Builder().storeBytes(Buffer.from(hex, 'hex')).storeRefs(refs).cell();
+  const contract = () => {
+    const dict = new Hashmap<Bit[], Cell>(19);
+    // seqno ends in bytes no instruction starts with, so it carries a disassemble error
+    for (const [id, hex] of [[0, 'f001'], [1, '7172a0'], [85143, '71ee']] as Array<[number, string]>) {
+      dict.set(new Builder().storeInt(id, 19).cell().bits, cell(hex));
+    }
+    const root = new Builder().storeBytes(Buffer.from('ff00f4a4', 'hex')).storeUint(19, 10)
+      .storeRef(dict.cell()).storeBytes(Buffer.from('f4bcf20b', 'hex')).cell();
+    return { kind: 'state_init' as const, code: root.slice(), data: cell('01'), libraries: null };
+  };
+
+  test('round-trips a decompiled contract to identical IR', () => {
+    for (const d of [new Decompiler({ passes: [] }), new Decompiler()]) {
+      const program = d.decompileContract(contract());
+      const json = programToJSON(program);
+      const loaded = programFromJSON(json);
+      expect(programToJSON(loaded)).toBe(json);
+      expect(dumpProgram(loaded, { locations: true })).toBe(dumpProgram(program, { locations: true }));
+      expect(d.format(loaded)).toBe(d.format(program));
+      expect(loaded.kind === 'multi' && Array.from(loaded.methods.keys())).toEqual([0, 1, 85143]);
+      expect(loaded.storage?.data?.hash()).toBe(cell('01').hash());
+    }
+  });
+
+  test('encodes operands and restores shared continuations', () => {
+    // PUSHINT 2^70; PUSHREF <ab>; PUSHCONT { PUSHINT 1 }; EXECUTE
+    const big = new Builder().storeUint(0x82, 8).storeUint(7, 5).storeInt(1n << 70n, 8 * 7 + 19).storeUint(0x88, 8)
+      .storeUint(0b1001, 4).storeUint(0, 2).storeUint(1, 4).storeUint(0x71, 8).storeUint(0xd8, 8)
+      .storeRef(cell('ab')).cell();
+    const fn = liftSliceToIR(big.slice());
+    const doc = serializeFunction(fn) as any;
+    const [bigint, ref, cont, execute] = doc.function.body;
+    expect(bigint.operands[0].value).toEqual({ kind: 'bigint', value: String(1n << 70n) });
+    expect(ref.operands[0].value.kind).toBe('slice');
+    expect(cont.operands[0].value.kind).toBe('cont');
+    expect(execute.inputs[0].value.continuation).toEqual({ $ref: cont.operands[0].value.value.$id });
+
+    const loaded = deserializeFunction(JSON.parse(JSON.stringify(doc)));
+    const program = (entry: typeof fn) => ({ kind: 'single' as const, entry });
+    expect(printProgram(program(loaded))).toBe(printProgram(program(fn)));
+    const op = loaded.body[2].operands[0].value;
+    const input = loaded.body[3].inputs[0].value;
+    expect(op.kind === 'cont' && op.value).toBe('continuationMeta' in input && input.continuationMeta?.continuation);
+
+    // Operands referring to a continuation defined later in the document
+    [cont.operands[0].value.value, execute.inputs[0].value.continuation] = [execute.inputs[0].value.continuation, cont.operands[0].value.value];
+    const swapped = deserializeFunction(JSON.parse(JSON.stringify(doc)));
+    expect(printProgram(program(swapped))).toBe(printProgram(program(fn)));
+    expect(swapped.body[2].operands).toEqual([{ name: 's', value: { kind: 'cont', value: expect.objectContaining({ kind: 'function' }) } }]);
+  });
+
+  test('rejects unknown versions and mnemonics', () => {
+    const doc = serializeProgram({ kind: 'single', entry: liftSliceToIR(cell('71').slice()) });
+    expect(() => programFromJSON(JSON.stringify({ ...doc, version: IR_JSON_VERSION + 1 }))).toThrow(IRFormatError);
+    expect(() => programFromJSON('{')).toThrow(IRFormatError);
+    expect(() => programFromJSON('null')).toThrow('expected format');
+    expect(() => programFromJSON(JSON.stringify({ format: doc.format }))).toThrow('unsupported version undefined');
+    expect(() => programFromJSON(JSON.stringify(doc), () => undefined)).toThrow('unknown instruction PUSHINT_4');
+  });
+});
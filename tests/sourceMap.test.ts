@@ -0,0 +1,95 @@
+import { Bit, Builder, Cell, Hashmap } from 'ton3-core';
+import { registerCodePage } from '../src/disasm';
+import { liftSliceToIR } from '../src/frontend/lifter';
+import { detectMethodDictLayout } from '../src/frontend/layouts';
+import { printProgram, printProgramWithSourceMap } from '../src/backend/printer';
+import { printFiftCode } from '../src/backend/fift';
+import { Decompiler } from '../src/decompiler';
+import { fakeInsn } from './helpers/codePage';
+
+describe('instruction source locations', () => {
+  const uint = (name: string, size: number) => ({ name, type: 'uint', size, display_hints: [] });
+  // Root scanning always starts in code page 0, so the fake table stands in for cp0 in this file
+  registerCodePage(0, {
+    instructions: [
+      fakeInsn('PUSHINT_4', '7', 'const_int', [uint('x', 4)], [], ['x']),
+      fakeInsn('ADD', 'A0', 'arithm_basic', [], ['x', 'y'], ['z']),
+      fakeInsn('PUSHCONT', '9', 'cont_create', [{
+        name: 's', type: 'subslice', display_hints: [{ type: 'continuation' }], refs_length_var_size: 2, bits_length_var_size: 4, bits_padding: 0, completion_tag: false,
+      }], [], ['c']),
+      fakeInsn('SETCP', 'FF', 'codepage', [uint('n', 8)]),
+      fakeInsn('DICTPUSHCONST', 'F4A4', 'dict_special', [uint('n', 10), { name: 'd', type: 'ref', display_hints: [] }], [], ['D', 'n']),
+      fakeInsn('DICTIGETJMPZ', 'F4BC', 'dict_special', [], ['i', 'D', 'n']),
+      fakeInsn('THROWARG', 'F2', 'exceptions', [uint('n', 8)], ['x']),
+    ],
+    aliases: [],
+  });
+
+  const cell = (hex: string, ...refs: Cell[]) => new Builder().storeBytes(Buffer.from(hex, 'hex')).storeRefs(refs).cell();
+
+  test('locates instructions across cells and inside inline continuations', () => {
+    const next = cell('73');
+    // PUSHINT 1; PUSHINT 2; ADD; PUSHCONT { PUSHINT 1 }; (next cell) PUSHINT 3
+    const root = new Builder().storeBytes(Buffer.from('7172a0', 'hex'))
+      .storeUint(0b1001, 4).storeUint(0, 2).storeUint(1, 4).storeUint(0x71, 8)
+      .storeRef(next).cell();
+    const fn = liftSliceToIR(root.slice());
+    const h = root.hash();
+    expect(fn.body.map((op) => op.loc)).toEqual([
+      { cellHash: h, bitOffset: 0, bitLength: 8 },
+      { cellHash: h, bitOffset: 8, bitLength: 8 },
+      { cellHash: h, bitOffset: 16, bitLength: 8 },
+      { cellHash: h, bitOffset: 24, bitLength: 18 },
+      { cellHash: next.hash(), bitOffset: 0, bitLength: 8 },
+    ]);
+    const cont = fn.body[3].operands[0].value;
+    expect(cont.kind === 'cont' && cont.value.body[0].loc).toEqual({ cellHash: h, bitOffset: 34, bitLength: 8 });
+  });
+
+  test('printers emit locations as comments or a source map', () => {
+    const root = cell('7172a0');
+    const program = { kind: 'single' as const, entry: liftSliceToIR(root.slice()) };
+    const short = root.hash().slice(0, 8);
+    // Variable numbering is global to the process
+    const anon = (text: string) => text.replace(/var\d+/g, 'v');
+    expect(anon(printProgram(program, { locations: true }))).toBe([
+      'function () {',
+      `    v = 1; // @${short}:0+8`,
+      `    v = 2; // @${short}:8+8`,
+      `    v = v + v; // @${short}:16+8`,
+      '    return v',
+      '}',
+    ].join('\n'));
+    expect(printProgram(program)).not.toContain('//');
+    const { text, sourceMap } = printProgramWithSourceMap(program);
+    expect(text).toBe(printProgram(program));
+    const lines = text.split('\n');
+    expect(sourceMap.mappings).toHaveLength(3);
+    for (const m of sourceMap.mappings) expect(m.cellHash).toBe(root.hash());
+    expect(anon(lines[sourceMap.mappings[2].line - 1])).toBe('    v = v + v;');
+    expect(printFiftCode(root.slice(), { mnemonics: 'spec', locations: true })).toContain(`ADD // @${short}:16+8`);
+  });
+
+  test('method bodies point into dictionary leaf cells', () => {
+    const dict = new Hashmap<Bit[], Cell>(19);
+    const bodies: Array<[number, string]> = [[0, '71'], [1, '7172a0'], [85143, '73']];
+    for (const [id, hex] of bodies) dict.set(new Builder().storeInt(id, 19).cell().bits, cell(hex));
+    const root = new Builder().storeBytes(Buffer.from('ff00f4a4', 'hex')).storeUint(19, 10)
+      .storeRef(dict.cell()).storeBytes(Buffer.from('f4bcf20b', 'hex')).cell();
+
+    const layout = detectMethodDictLayout(root.slice())!;
+    expect(layout.layout).toBe('func');
+    const cells = new Map<string, Cell>();
+    const collect = (c: Cell) => { cells.set(c.hash(), c); c.refs.forEach(collect); };
+    collect(root);
+    for (const [id, hex] of bodies) {
+      const origin = layout.origins.methods.get(id)!;
+      const leaf = cells.get(origin.cellHash)!;
+      expect(leaf.bits.slice(origin.bitOffset)).toEqual(cell(hex).bits);
+    }
+
+    const program = new Decompiler().decompileSlice(root.slice());
+    const seqno = program.kind === 'multi' ? program.methods.get(85143)! : undefined;
+    expect(seqno?.body[0].loc?.cellHash).toBe(layout.origins.methods.get(85143)!.cellHash);
+  });
+});
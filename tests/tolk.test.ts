@@ -0,0 +1,100 @@
+import { Builder } from 'ton3-core';
+import { registerCodePage } from '../src/disasm';
+import { liftSliceToIR } from '../src/frontend/lifter';
+import { printTolkProgram } from '../src/backend/tolk';
+import { defaultPipeline } from '../src/middle/pipeline';
+import type { IRFunction } from '../src/core/ir';
+import type { Program } from '../src/core/program';
+import { fakeInsn } from './helpers/codePage';
+
+describe('Tolk backend', () => {
+  const uint = (name: string, size: number) => ({ name, type: 'uint', size, display_hints: [] });
+  const bits = (name: string) => ({ ...uint(name, 8), display_hints: [{ type: 'add', value: 1 }] });
+  registerCodePage(24, {
+    instructions: [
+      fakeInsn('PUSHINT_4', '7', 'const_int', [uint('x', 4)], [], ['x']),
+      fakeInsn('PUSH', '2', 'stack_basic', [uint('i', 4)]),
+      fakeInsn('ADD', 'A0', 'arithm_basic', [], ['x', 'y'], ['z']),
+      fakeInsn('MUL', 'A8', 'arithm_basic', [], ['x', 'y'], ['z']),
+      fakeInsn('INC', 'A4', 'arithm_basic', [], ['x'], ['y']),
+      fakeInsn('DEC', 'A5', 'arithm_basic', [], ['x'], ['y']),
+      fakeInsn('EQINT', 'C0', 'compare_int', [uint('y', 8)], ['x'], ['y']),
+      fakeInsn('NEWC', 'C8', 'cell_build', [], [], ['b:Builder']),
+      fakeInsn('ENDC', 'C9', 'cell_build', [], ['b:Builder'], ['c:Cell']),
+      fakeInsn('STU', 'CB', 'cell_build', [bits('c')], ['x', 'b:Builder'], ['b:Builder']),
+      fakeInsn('CTOS', 'D0', 'cell_parse', [], ['c:Cell'], ['s:Slice']),
+      fakeInsn('LDU', 'D3', 'cell_parse', [bits('c')], ['s:Slice'], ['x', 's2:Slice']),
+      fakeInsn('PUSHCONT', '9', 'const_data', [{
+        name: 's', type: 'subslice', display_hints: [{ type: 'continuation' }], refs_length_var_size: 2, bits_length_var_size: 4, bits_padding: 0, completion_tag: false,
+      }], [], ['c:Continuation']),
+      fakeInsn('IFJMP', 'E0', 'cont_conditional', [], ['f', 'c:Continuation'], [], { branches: [{ type: 'variable', var_name: 'c' }], nobranch: true }),
+      fakeInsn('THROWIF', 'F2', 'exceptions', [uint('n', 8)], ['f']),
+    ],
+    aliases: [],
+  });
+
+  // PUSHCONT { <hex> } as inline continuation bits
+  const pushcont = (hex: string) => (b: Builder) => b.storeUint(0b1001, 4).storeUint(0, 2).storeUint(hex.length / 2, 4).storeBytes(Buffer.from(hex, 'hex'));
+  const code = (...parts: Array<string | ((b: Builder) => Builder)>) => {
+    const b = new Builder();
+    for (const p of parts) typeof p === 'string' ? b.storeBytes(Buffer.from(p, 'hex')) : p(b);
+    return b.cell().slice();
+  };
+  const lift = (...parts: Array<string | ((b: Builder) => Builder)>): IRFunction => defaultPipeline().run(liftSliceToIR(code(...parts), { codePage: 24 }));
+  const print = (p: Program) => printTolkProgram(p).replace(/var\d+/g, 'v');
+
+  test('stdlib methods and operators print as Tolk', () => {
+    // return beginCell().storeUint(x * 5 + 1, 8).endCell().beginParse()
+    const fn = lift('75', 'a8', 'a4', 'c8', 'cb07', 'c9', 'd0');
+    expect(print({ kind: 'single', entry: fn })).toBe([
+      'fun onInternalMessage(arg0: int): slice {',
+      '    var v = beginCell().storeUint(arg0 * 5 + 1, 8).endCell().beginParse();',
+      '    return v;',
+      '}',
+      '',
+    ].join('\n'));
+  });
+
+  test('loads modify a local slice in place and copy a parameter first', () => {
+    const local = print({ kind: 'single', entry: lift('d0', 'd307', 'd307') });
+    expect(local).toContain([
+      '    var v = arg0.beginParse();',
+      '    var v = v.loadUint(8);',
+      '    var v = v.loadUint(8);',
+    ].join('\n'));
+    const param = printTolkProgram({ kind: 'single', entry: lift('d307') });
+    const copy = /var (var\d+) = arg0;/.exec(param)?.[1];
+    expect(copy).toBeDefined();
+    expect(param).toContain(`= ${copy}.loadUint(8);`);
+    expect(param).toContain('fun onInternalMessage(arg0: slice): (int, slice) {');
+  });
+
+  test('jumps on one value compared to constants become match', () => {
+    // if (x == 1) return x + 1; if (x == 2) return x - 1; throw_if(5, x); return x + 2
+    const fn = lift('20', '20', 'c001', pushcont('a4'), 'e0', '20', '20', 'c002', pushcont('a5'), 'e0', '20', 'f205', '72', 'a0');
+    expect(fn.decompileError).toBeNull();
+    expect(print({ kind: 'single', entry: fn }).split('\n').slice(1, 14)).toEqual([
+      '    match (arg0) {',
+      '        1 => {',
+      '            var v = arg0 + 1;',
+      '            return v;',
+      '        }',
+      '        2 => {',
+      '            var v = arg0 - 1;',
+      '            return v;',
+      '        }',
+      '    }',
+      '    assert(!arg0, 5);',
+      '    var v = arg0 + 2;',
+      '    return v;',
+    ]);
+  });
+
+  test('get-methods are declared by name, with method_id when the name does not give it', () => {
+    const p: Program = { kind: 'multi', methods: new Map([[1, lift('a4')], [85143, lift('a5')], [74565, lift('a4')]]) };
+    const text = print(p);
+    expect(text).toContain('fun method_1(arg0: int): int {');
+    expect(text).toContain('get fun seqno(arg0: int): int {');
+    expect(text).toContain('@method_id(74565)\nget fun method_74565(arg0: int): int {');
+  });
+});
@@ -0,0 +1,111 @@
+import { Builder } from 'ton3-core';
+import { registerCodePage } from '../src/disasm';
+import { liftSliceToIR } from '../src/frontend/lifter';
+import { printProgram } from '../src/backend/printer';
+import { defaultPipeline } from '../src/middle/pipeline';
+import { buildCFG } from '../src/analysis/cfg';
+import { fakeInsn } from './helpers/codePage';
+
+describe('try/catch', () => {
+  const uint = (name: string, size: number) => ({ name, type: 'uint', size, display_hints: [] });
+  // tvm-spec style: branch into the body with cc as c0 and the handler as c2
+  const tryFlow = {
+    branches: [{ type: 'variable', var_name: 'c', save: { c0: { type: 'cc' }, c2: { type: 'variable', var_name: 'c2' } } }],
+    nobranch: false,
+  };
+  // x_1...x_r c r n - c': the values are saved in the stack of the continuation
+  const setcontvarargs = fakeInsn('SETCONTVARARGS', 'D8', 'cont_stack', [], ['c:Continuation', 'r', 'n'], ['c2:Continuation']);
+  (setcontvarargs.value_flow as any).inputs.stack.unshift({ type: 'array', name: 'args', length_var: 'r', array_entry: [{ type: 'simple', name: 'x' }] });
+  registerCodePage(18, {
+    instructions: [
+      fakeInsn('PUSHINT_4', '7', 'const_int', [{ name: 'x', type: 'int', size: 4, display_hints: [] }], [], ['x']),
+      fakeInsn('POP', '3', 'stack_basic', [uint('i', 4)]),
+      fakeInsn('ADD', 'A0', 'arithm_basic', [], ['x', 'y'], ['z']),
+      fakeInsn('PUSHCONT', '9', 'const_data', [{
+        name: 's', type: 'subslice', display_hints: [{ type: 'continuation' }], refs_length_var_size: 2, bits_length_var_size: 4, bits_padding: 0, completion_tag: false,
+      }], [], ['c']),
+      fakeInsn('TRY', 'F2FF', 'exceptions', [], ['c', 'c2'], [], tryFlow),
+      fakeInsn('TRYARGS', 'F3', 'exceptions', [uint('p', 4), uint('r', 4)], ['c', 'c2'], [], tryFlow),
+      setcontvarargs,
+    ],
+    aliases: [],
+  });
+
+  // PUSHCONT { <hex> } as inline continuation bits
+  const pushcont = (hex: string) => (b: Builder) => b.storeUint(0b1001, 4).storeUint(0, 2).storeUint(hex.length / 2, 4).storeBytes(Buffer.from(hex, 'hex'));
+  const code = (...parts: Array<string | ((b: Builder) => Builder)>) => {
+    const b = new Builder();
+    for (const p of parts) typeof p === 'string' ? b.storeBytes(Buffer.from(p, 'hex')) : p(b);
+    return b.cell().slice();
+  };
+  const print = (fn: ReturnType<typeof liftSliceToIR>) => printProgram({ kind: 'single', entry: defaultPipeline().run(fn) }).replace(/var\d+/g, 'v');
+  const lift = (...parts: Array<string | ((b: Builder) => Builder)>) => liftSliceToIR(code(...parts), { codePage: 18 });
+
+  test('try passes the stack to the body and the exception to the handler', () => {
+    // x = 1; try { x += 2 } catch (_, _) { x = 0 }
+    const fn = lift('71', pushcont('72a0'), pushcont('303070'), 'f2ff');
+    expect(fn.decompileError).toBeNull();
+    const st = fn.body[fn.body.length - 1];
+    expect(st.inputs.map((i) => i.name)).toEqual(['c2', 'c', 'try_0']);
+    expect(st.outputs).toHaveLength(1);
+    expect(print(fn)).toBe([
+      'function () {',
+      '    v = 1;',
+      '    try {',
+      '        v = v + 2;',
+      '    } catch (_, _) {',
+      '        v = 0;',
+      '    }',
+      '    return v',
+      '}',
+    ].join('\n'));
+
+    const g = buildCFG(fn);
+    expect(g.edges.filter((e) => e.label === 'catch')).toHaveLength(1);
+  });
+
+  test('tryargs hands the handler only the exception', () => {
+    // try { a + b } catch (x, n) { x + n }, with 2 arguments and 1 result
+    const fn = lift('7172', pushcont('a0'), pushcont('a0'), 'f321');
+    expect(fn.decompileError).toBeNull();
+    expect(print(fn)).toContain([
+      '    try {',
+      '        v = v + v;',
+      '    } catch (arg1, arg0) {',
+      '        v = arg1 + arg0;',
+      '    }',
+    ].join('\n'));
+
+    // The handler may not read below the exception argument and code
+    expect(lift('7172', pushcont('a0'), pushcont('a0a0'), 'f321').decompileError).toContain('TRYARGS handler reads 3 values');
+    // The stack is cleared on a throw: a handler leaving nothing cannot stand for a body reading x
+    expect(lift('71', pushcont('72a0'), pushcont('3030'), 'f2ff').decompileError).toContain('TRY handler leaves 0 values, body leaves 1');
+  });
+
+  test('the handler starts from the values saved in its stack', () => {
+    // x = 1; try { y = 2 } catch (_, _) { y = x + 5 }, x passed by 1 -1 SETCONTVARARGS
+    const fn = lift(pushcont('72'), '71', pushcont('303075a0'), '717f', 'd8', 'f2ff');
+    expect(fn.decompileError).toBeNull();
+    const st = fn.body[fn.body.length - 1];
+    expect(st.inputs.map((i) => i.name)).toEqual(['c2', 'c', 'catch_0']);
+    expect(st.outputs).toHaveLength(1);
+    expect(print(fn)).toBe([
+      'function () {',
+      '    v = SETCONTVARARGS(n=-1, r=1, c=function (arg2, arg1, arg0) {',
+      '        v = arg2 + 5;',
+      '        return v',
+      '    }, x0=1);',
+      '    v = 1;',
+      '    try {',
+      '        v = 2;',
+      '    } catch (_, _) {',
+      '        v = v + 5;',
+      '    }',
+      '    return v',
+      '}',
+    ].join('\n'));
+
+    // Elsewhere saved values would shift the arguments of the continuation
+    expect(lift('71', pushcont('72'), '717f', 'd8', pushcont('72'), 'f2ff').decompileError).toContain('continuation c has 1 saved arguments');
+  });
+});
@@ -0,0 +1,91 @@
+import { Builder } from 'ton3-core';
+import { registerCodePage } from '../src/disasm';
+import { liftSliceToIR } from '../src/frontend/lifter';
+import { printProgram } from '../src/backend/printer';
+import { formatTypeConflict, funcTypeName, inferTypes } from '../src/analysis/types';
+import type { Program } from '../src/core/program';
+import { fakeInsn } from './helpers/codePage';
+
+describe('type inference', () => {
+  const uint = (name: string, size: number) => ({ name, type: 'uint', size, display_hints: [] });
+  const call = (name: string) => ({ type: 'variable', var_name: name, save: { c0: { type: 'cc' } } });
+  registerCodePage(22, {
+    instructions: [
+      fakeInsn('PUSHINT_4', '7', 'const_int', [uint('x', 4)], [], ['x']),
+      fakeInsn('ADD', 'A0', 'arithm_basic', [], ['x', 'y'], ['z']),
+      fakeInsn('NEWC', 'C8', 'cell_build', [], [], ['b:Builder']),
+      fakeInsn('ENDC', 'C9', 'cell_build', [], ['b:Builder'], ['c:Cell']),
+      fakeInsn('STU', 'CB', 'cell_build', [uint('c', 8)], ['x', 'b:Builder'], ['b:Builder']),
+      fakeInsn('CTOS', 'D0', 'cell_parse', [], ['c:Cell'], ['s:Slice']),
+      fakeInsn('LDU', 'D3', 'cell_parse', [uint('c', 8)], ['s:Slice'], ['x', 's2:Slice']),
+      fakeInsn('PUSHCONT', '9', 'const_data', [{
+        name: 's', type: 'subslice', display_hints: [{ type: 'continuation' }], refs_length_var_size: 2, bits_length_var_size: 4, bits_padding: 0, completion_tag: false,
+      }], [], ['c:Continuation']),
+      fakeInsn('IFELSE', 'E2', 'cont_conditional', [], ['f', 'c:Continuation', 'c2:Continuation'], [], { branches: [call('c'), call('c2')], nobranch: false }),
+      fakeInsn('CALLDICT', 'F0', 'cont_dict', [uint('n', 8)], [], [], { branches: [], nobranch: false }),
+    ],
+    aliases: [],
+  });
+
+  // PUSHCONT { <hex> } as inline continuation bits
+  const pushcont = (hex: string) => (b: Builder) => b.storeUint(0b1001, 4).storeUint(0, 2).storeUint(hex.length / 2, 4).storeBytes(Buffer.from(hex, 'hex'));
+  const code = (...parts: Array<string | ((b: Builder) => Builder)>) => {
+    const b = new Builder();
+    for (const p of parts) typeof p === 'string' ? b.storeBytes(Buffer.from(p, 'hex')) : p(b);
+    return b.cell().slice();
+  };
+  // Method 1 takes a cell and returns a slice
+  const lift = (...parts: Array<string | ((b: Builder) => Builder)>) => liftSliceToIR(code(...parts), {
+    codePage: 22,
+    resolveCall: (id) => id === 1 ? { args: 1, results: 1 } : undefined,
+  });
+  const print = (p: Program) => printProgram(p, { types: true }).replace(/var\d+/g, 'v');
+
+  test('values take the types of the instructions producing and reading them', () => {
+    // return begin_cell().store_uint(x, 8).end_cell().begin_parse()
+    const fn = lift('c8', 'cb07', 'c9', 'd0');
+    const p: Program = { kind: 'single', entry: fn };
+    expect(inferTypes(p)).toEqual([]);
+    expect(fn.args.map((a) => a.types)).toEqual([['Integer']]);
+    expect(fn.result.map((r) => r.types)).toEqual([['Slice']]);
+    const text = print(p);
+    expect(text.split('\n')[0]).toBe('function (int arg0): slice {');
+    expect(text).toContain('    builder v = ');
+    expect(text).toContain('    cell v = ');
+    expect(text).not.toContain(': Slice');
+  });
+
+  test('continuation arguments and merged outputs carry types across branches', () => {
+    // if (f) { v = c.begin_parse() } else { v = c.begin_parse() }
+    const fn = lift(pushcont('d0'), pushcont('d0'), 'e2');
+    expect(fn.decompileError).toBeNull();
+    expect(inferTypes({ kind: 'single', entry: fn })).toEqual([]);
+    expect(fn.args.map((a) => funcTypeName(a.types))).toEqual(['cell', 'int']);
+    const text = print({ kind: 'single', entry: fn });
+    expect(text.split('\n')[0]).toBe('function (cell arg1, int arg0): slice {');
+    expect(text).toMatch(/ {4}slice v;\n {4}if \(arg0\) \{\n {8}v = /);
+  });
+
+  test('method arguments and results follow the callee', () => {
+    // int main(c) { (x, s) = load_uint(method_1(c), 8); return x }
+    const callee = lift('d0');
+    const main = lift('f001', 'd307');
+    expect(main.body[0].callee).toEqual({ methodId: 1 });
+    const p: Program = { kind: 'multi', methods: new Map([[1, callee]]), entry: main };
+    expect(inferTypes(p)).toEqual([]);
+    expect(main.args.map((a) => a.types)).toEqual([['Cell']]);
+    expect(main.body[0].outputs[0].value.types).toEqual(['Slice']);
+    expect(print(p)).toContain('function (cell arg0): (int, slice) {');
+  });
+
+  test('values used as two types are reported and left untyped', () => {
+    // 5.begin_parse()
+    const fn = lift('75', 'd0');
+    const [conflict] = inferTypes({ kind: 'single', entry: fn });
+    const id = fn.body[0].outputs[0].value.id;
+    expect(conflict).toEqual({ function: 'main', methodId: null, value: id, types: [['Integer'], ['Cell']], location: fn.body[1].loc });
+    expect(formatTypeConflict(conflict)).toBe(`type conflict in main: ${id} is Integer and Cell`);
+    expect(fn.body[0].outputs[0].value.types).toBeUndefined();
+    expect(print({ kind: 'single', entry: fn })).toContain('    var v = 5;');
+  });
+});
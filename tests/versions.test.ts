@@ -0,0 +1,52 @@
+import { Builder } from 'ton3-core';
+import { OpcodeParser, registerCodePage, UnsupportedInstructionError } from '../src/disasm';
+import { liftSliceToIR } from '../src/frontend/lifter';
+import { buildVersionReport, formatVersionReport } from '../src/analysis/versions';
+import type { IRFunction } from '../src/core/ir';
+import type { Instruction } from '../src/gen/tvm-spec';
+import { fakeInsn } from './helpers/codePage';
+
+describe('global version filtering', () => {
+  const OLD = fakeInsn('OLD', '00', 'stack_basic');
+  const V4 = { ...fakeInsn('V4', '01', 'stack_basic'), since_version: 4 };
+  const V6 = { ...fakeInsn('V6', '02', 'stack_basic'), since_version: 6 };
+  registerCodePage(12, { instructions: [OLD, V4, V6], aliases: [] });
+
+  const code = () => new Builder().storeBytes(Buffer.from('000102', 'hex')).cell().slice();
+
+  test('decodes everything without a target version', () => {
+    const fn = liftSliceToIR(code(), { codePage: 12 });
+    expect(fn.disassembleError).toBeNull();
+  });
+
+  test('rejects instructions newer than the target', () => {
+    const slice = code();
+    OpcodeParser.nextInstruction(slice, 12, 4);
+    OpcodeParser.nextInstruction(slice, 12, 4);
+    expect(() => OpcodeParser.nextInstruction(slice, 12, 4)).toThrow(UnsupportedInstructionError);
+  });
+
+  test('lifter records the rejection as disassemble error', () => {
+    const fn = liftSliceToIR(code(), { codePage: 12, globalVersion: 4 });
+    expect(fn.disassembleError).toContain('V6 requires TVM global version 6, target is 4');
+  });
+
+  test('reports the minimum required version', () => {
+    const op = (spec: Instruction) => ({ kind: 'prim' as const, spec, mnemonic: spec.mnemonic, inputs: [], operands: [], outputs: [] });
+    const inner: IRFunction = { kind: 'function', args: [], body: [op(V6)], result: [] };
+    const fn: IRFunction = {
+      kind: 'function',
+      args: [],
+      body: [op(OLD), op(V4), { ...op(OLD), operands: [{ name: 'c', value: { kind: 'cont', value: inner } }] }],
+      result: [],
+    };
+    const report = buildVersionReport({ kind: 'multi', methods: new Map([[85143, fn]]) });
+    expect(report.minVersion).toBe(6);
+    expect(report.complete).toBe(true);
+    expect(report.instructions.map((u) => [u.mnemonic, u.sinceVersion, u.functions])).toEqual([
+      ['V6', 6, ['seqno']],
+      ['V4', 4, ['seqno']],
+    ]);
+    expect(formatVersionReport(report, 4)).toContain('! v6 V6 x1 in seqno');
+  });
+});